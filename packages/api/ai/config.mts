@@ -8,11 +8,12 @@ import { createGoogleGenerativeAI } from '@ai-sdk/google';
 /**
  * Get the correct client and model configuration.
  * Throws an error if the given API key is not set in the settings.
+ * Pass `modelOverride` to use a different model from the configured provider.
  */
-export async function getModel(): Promise<LanguageModel> {
+export async function getModel(modelOverride?: string): Promise<LanguageModel> {
   const config = await getConfig();
   const { aiModel, aiProvider, aiBaseUrl } = config;
-  const model = aiModel || getDefaultModel(aiProvider as AiProviderType);
+  const model = modelOverride || aiModel || getDefaultModel(aiProvider as AiProviderType);
   switch (aiProvider as AiProviderType) {
     case 'openai':
       if (!config.openaiKey) {
@@ -14,9 +14,11 @@ import { PROMPTS_DIR } from '../constants.mjs';
 import { encode, decodeCells } from '../srcmd.mjs';
 import { buildProjectXml, type FileContent } from '../ai/app-parser.mjs';
 import { logAppGeneration } from './logger.mjs';
-import mcpHubInstance from '../mcp/mcphub.mjs';
+import mcpHubInstance, { type ToolCallOrigin } from '../mcp/mcphub.mjs';
 import { SYSTEM_PROMPT } from "../prompts/system-scratch.mjs";
 import { getToolExecutor } from './tool-executor-singleton.mjs';
+import { buildResourcesXml, loadPinnedResources, type PinnedResource } from '../mcp/resources.mjs';
+import type { McpResourceRef } from '../mcp/types/index.mjs';
 
 console.log('MCPHub instance:', mcpHubInstance);
 
@@ -38,28 +40,44 @@ const makeFixDiagnosticsSystemPrompt = () => {
 //   return readFileSync(Path.join(PROMPTS_DIR, 'app-editor.txt'), 'utf-8');
 // };
 
-const makeAppEditorUserPrompt = (projectId: string, files: FileContent[], query: string) => {
+const makeAppEditorUserPrompt = (
+  projectId: string,
+  files: FileContent[],
+  query: string,
+  resources: PinnedResource[] = [],
+) => {
   const projectXml = buildProjectXml(files, projectId);
   const userRequestXml = `<userRequest>${query}</userRequest>`;
-  return `Following below are the project XML and the user request.
+  return `Following below are the project XML${makeResourcesPrompt(resources)} and the user request.
 
 ${projectXml}
-
+${resources.length > 0 ? `\n${buildResourcesXml(resources)}\n` : ''}
 ${userRequestXml}
   `.trim();
 };
 
-const makeAppCreateUserPrompt = (projectId: string, files: FileContent[], query: string) => {
+const makeAppCreateUserPrompt = (
+  projectId: string,
+  files: FileContent[],
+  query: string,
+  resources: PinnedResource[] = [],
+) => {
   const projectXml = buildProjectXml(files, projectId);
   const userRequestXml = `<userRequest>${query}</userRequest>`;
-  return `Following below are the project XML and the user request.
+  return `Following below are the project XML${makeResourcesPrompt(resources)} and the user request.
 
 ${projectXml}
-
+${resources.length > 0 ? `\n${buildResourcesXml(resources)}\n` : ''}
 ${userRequestXml}
   `.trim();
 };
 
+const makeResourcesPrompt = (resources: PinnedResource[]) => {
+  return resources.length > 0
+    ? ', the contents of MCP resources the user pinned as context for this request,'
+    : '';
+};
+
 const makeGenerateCellUserPrompt = (session: SessionType, insertIdx: number, query: string) => {
   // Make sure we copy cells so we don't mutate the session
   const cellsWithPlaceholder: CellWithPlaceholderType[] = [...session.cells];
@@ -259,6 +277,8 @@ export async function generateApp(
   projectId: string,
   files: FileContent[],
   query: string,
+  resourceRefs: McpResourceRef[] = [],
+  origin: ToolCallOrigin = {},
 ): Promise<string> {
   console.log('Starting generateApp with query:', query);
   await waitForMcpInit();
@@ -266,7 +286,8 @@ export async function generateApp(
   const systemPrompt = await SYSTEM_PROMPT(mcpHubInstance, projectId);
   console.log('System prompt:', systemPrompt);
   
-  const userPrompt = makeAppCreateUserPrompt(projectId, files, query);
+  const resources = await loadPinnedResources(resourceRefs);
+  const userPrompt = makeAppCreateUserPrompt(projectId, files, query, resources);
   console.log('User prompt:', userPrompt);
   
   const model = await getModel();
@@ -297,7 +318,7 @@ export async function generateApp(
   // Log the parsed tool usages
   console.log('Parsed tool usages:', JSON.stringify(toolUsages, null, 2));
 
-  await executeToolCalls(toolUsages);
+  await executeToolCalls(toolUsages, origin);
 
   return cleanedResponse;
 }
@@ -308,6 +329,7 @@ export async function streamEditApp(
   query: string,
   appId: string,
   planId: string,
+  resourceRefs: McpResourceRef[] = [],
 ) {
   // Wait for BOTH MCP and initial compilation
   await Promise.all([
@@ -317,7 +339,8 @@ export async function streamEditApp(
 
   const model = await getModel();
   const systemPrompt = await SYSTEM_PROMPT(mcpHubInstance, projectId);
-  const userPrompt = makeAppEditorUserPrompt(projectId, files, query);
+  const resources = await loadPinnedResources(resourceRefs);
+  const userPrompt = makeAppEditorUserPrompt(projectId, files, query, resources);
 
   let response = '';
   let toolUsages: Array<{
@@ -343,7 +366,7 @@ export async function streamEditApp(
           if (planStart !== -1) {
             const cleanedResponse = response.slice(planStart);
             toolUsages = parseOutToolTags(cleanedResponse);
-            await executeToolCalls(toolUsages);
+            await executeToolCalls(toolUsages, { appId, planId });
           }
         }
       }
@@ -370,12 +393,16 @@ interface ToolResult {
   missingFields?: string[];
 }
 
-async function executeToolCalls(
+/**
+ * Run the tool calls of a plan in order, stopping at the first that fails.
+ */
+export async function executeToolCalls(
   toolUsages: Array<{
     server_name: string | undefined;
     tool_name: string | undefined;
     arguments: Record<string, unknown>;
   }>,
+  origin: ToolCallOrigin,
 ): Promise<any> {
   for (const usage of toolUsages) {
     const { server_name, tool_name, arguments: toolArgs } = usage;
@@ -383,15 +410,21 @@ async function executeToolCalls(
     // Get the executor ONCE before the loop
     const toolExecutor = await getToolExecutor();
     
+    // Throws if the server and tool don't point at exactly one tool
+    const tool = mcpHubInstance.resolveTool(tool_name!, server_name);
+
     // Then use it for all tools
     const result = await toolExecutor.executeTool({
-      serverName: server_name!,
-      toolName: tool_name!,
-      arguments: toolArgs
+      serverName: tool.serverName,
+      toolName: tool.name,
+      arguments: toolArgs,
+      origin,
     });
 
-    if (!result.success) {
-      throw new Error(`Tool execution failed: ${result.error || 'Unknown error'}`);
+    // Tools report failures in their result, not by throwing.
+    if (result.isError) {
+      const text = result.content?.find((item: { type: string }) => item.type === 'text')?.text;
+      throw new Error(`Tool execution failed: ${text || 'Unknown error'}`);
     }
   }
 }
@@ -400,12 +433,13 @@ async function executeToolCalls(
  * Example utility function to extract <use_mcp_tool> declarations from the LLM's response text.
  * This is very flexible; you might choose a more robust XML parser if needed.
  */
-function parseOutToolTags(text: string): Array<{
+export function parseOutToolTags(text: string): Array<{
   server_name: string | undefined;
   tool_name: string | undefined;
   arguments: Record<string, unknown>;
 }> {
-  const toolPattern = /<use_mcp_tool>\s*<server_name>(.*?)<\/server_name>\s*<tool_name>(.*?)<\/tool_name>\s*<arguments>\s*([\s\S]*?)\s*<\/arguments>\s*<\/use_mcp_tool>/g;
+  // <server_name> may be left out when <tool_name> is a fully qualified ID.
+  const toolPattern = /<use_mcp_tool>\s*(?:<server_name>(.*?)<\/server_name>\s*)?<tool_name>(.*?)<\/tool_name>\s*<arguments>\s*([\s\S]*?)\s*<\/arguments>\s*<\/use_mcp_tool>/g;
   
   const matches = Array.from(text.matchAll(toolPattern));
   console.log('Found tool matches:', matches.length);
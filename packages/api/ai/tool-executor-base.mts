@@ -1,17 +1,62 @@
-import { MCPHub } from '../mcp/mcphub.mjs';
-import { DangerLevel, McpTool, McpToolSchema } from '../mcp/types/index.mjs';
+import { DEFAULT_SENSITIVE_FIELDS, MCPHub, type ToolCallOrigin } from '../mcp/mcphub.mjs';
+import {
+  DangerLevel,
+  McpTool,
+  McpToolSchema,
+  ServerContextType,
+  FileSystemServerContext
+} from '../mcp/types/index.mjs';
+import { rootPaths } from '../mcp/roots.mjs';
+
+export interface ToolSafetyConfig {
+  // Argument names whose values are kept out of the audit log.
+  sensitiveFields?: string[];
+}
 
 /**
  * Base class for tool executors with extensible safety checks
  */
 export class BaseToolExecutor {
   protected toolSchemas: Map<string, Map<string, McpTool>>;
+  protected serverContexts: Map<string, ServerContextType>;
 
   constructor(
     protected mcpHub: MCPHub,
-    protected defaultConfigs?: Record<string, Record<string, any>>
+    protected defaultConfigs?: Record<string, Record<string, any>>,
+    protected safetyConfig: ToolSafetyConfig = {}
   ) {
     this.toolSchemas = new Map();
+    this.serverContexts = new Map();
+    mcpHub.setSensitiveFields(safetyConfig.sensitiveFields ?? DEFAULT_SENSITIVE_FIELDS);
+
+    if (defaultConfigs) {
+      Object.entries(defaultConfigs).forEach(([serverName, config]) => {
+        this.serverContexts.set(serverName, {
+          type: 'default',
+          config,
+          lastAccessed: new Date(),
+        });
+      });
+    }
+
+    mcpHub.onRootsChanged(() => {
+      for (const [serverName, context] of this.serverContexts) {
+        this.serverContexts.set(serverName, this.withAllowedPaths(context));
+      }
+    });
+
+    // Keep the schemas of initialized servers in step with the hub's catalog.
+    mcpHub.onCatalogChanged((serverName, kind) => {
+      if (kind === 'tools' && this.toolSchemas.has(serverName)) {
+        this.setServerTools(serverName, mcpHub.getToolsByServer(serverName));
+      }
+    });
+
+    // The hub caches results of the tools this executor deems harmless.
+    mcpHub.setDangerLevelResolver((serverName, tool) => {
+      const parsed = McpToolSchema.safeParse(tool);
+      return parsed.success ? this.getToolDangerLevel(serverName, parsed.data) : undefined;
+    });
   }
 
   /**
@@ -20,12 +65,7 @@ export class BaseToolExecutor {
   async initializeServerTools(serverName: string): Promise<void> {
     try {
       const rawTools = await this.mcpHub.listTools(serverName);
-      const serverTools = new Map<string, McpTool>();
-      rawTools.forEach(rawTool => {
-        const tool = McpToolSchema.parse(rawTool);
-        serverTools.set(tool.name, tool);
-      });
-      this.toolSchemas.set(serverName, serverTools);
+      this.setServerTools(serverName, rawTools);
       console.log(`Server ${serverName} tools initialized successfully`);
     } catch (error) {
       console.error(`Failed to initialize tools for server ${serverName}:`, error);
@@ -33,6 +73,59 @@ export class BaseToolExecutor {
     }
   }
 
+  private setServerTools(serverName: string, rawTools: unknown[]) {
+    const serverTools = new Map<string, McpTool>();
+    rawTools.forEach(rawTool => {
+      const tool = McpToolSchema.parse(rawTool);
+      serverTools.set(tool.name, tool);
+    });
+    this.toolSchemas.set(serverName, serverTools);
+    this.applyConcurrencyLimit(serverName);
+  }
+
+  getServerContext(serverName: string): ServerContextType | undefined {
+    return this.serverContexts.get(serverName);
+  }
+
+  /**
+   * Update server context
+   */
+  updateServerContext(serverName: string, context: Partial<ServerContextType>): void {
+    const existingContext = this.serverContexts.get(serverName) || {
+      type: 'default',
+      config: {},
+      lastAccessed: new Date(),
+    };
+    this.serverContexts.set(serverName, this.withAllowedPaths({
+      ...existingContext,
+      ...context,
+      lastAccessed: new Date(),
+    }));
+    this.applyConcurrencyLimit(serverName);
+  }
+
+  /**
+   * Filesystem servers are allowed the same paths we advertise as MCP roots,
+   * i.e. the app or srcbook the user has open.
+   */
+  private withAllowedPaths(context: ServerContextType): ServerContextType {
+    if (context.type !== 'filesystem') {
+      return context;
+    }
+    const allowedPaths: FileSystemServerContext['config']['allowedPaths'] = rootPaths(
+      this.mcpHub.getRoots()
+    );
+    return { ...context, config: { ...context.config, allowedPaths } };
+  }
+
+  // The hub queues calls beyond what the server context allows to run at once.
+  private applyConcurrencyLimit(serverName: string) {
+    this.mcpHub.setMaxConcurrentCalls(
+      serverName,
+      this.serverContexts.get(serverName)?.capabilities?.maxConcurrentCalls
+    );
+  }
+
   /**
    * Override this to customize dangerous tool detection
    */
@@ -88,6 +181,7 @@ export class BaseToolExecutor {
     serverName: string;
     toolName: string;
     arguments: Record<string, any>;
+    origin?: ToolCallOrigin;
   }): Promise<any> {
     // Validate the operation
     const isValid = await this.validateOperation(
@@ -105,7 +199,8 @@ export class BaseToolExecutor {
     return this.mcpHub.callTool(
       params.serverName,
       params.toolName,
-      params.arguments
+      params.arguments,
+      { origin: params.origin }
     );
   }
 }
@@ -1,4 +1,4 @@
-import { MCPHub } from '../mcp/mcphub.mjs';
+import { DEFAULT_SENSITIVE_FIELDS, MCPHub, type ToolCallOrigin } from '../mcp/mcphub.mjs';
 import { 
   DangerLevel, 
   McpTool, 
@@ -122,6 +122,7 @@ interface ToolExecutionParams {
   serverName: string;
   toolName: string;
   arguments: Record<string, any>;
+  origin?: ToolCallOrigin;
 }
 
 interface ToolExecutionResult<T = any> {
@@ -233,7 +234,7 @@ export class ToolExecutor {
       llmEnabled: true,
       safetyConfig: {
         dangerousFields: getAllDangerousOperations(),
-        sensitiveFields: ['owner', 'token', 'apiKey'],
+        sensitiveFields: DEFAULT_SENSITIVE_FIELDS,
         autoFillDefaults: {}
       },
       ...config
@@ -299,8 +300,8 @@ export class ToolExecutor {
    * Execute a tool with validation, injection, and LLM prompting
    */
   async executeTool<T = any>(params: ToolExecutionParams): Promise<ToolExecutionResult<T>> {
-    const { serverName, toolName, arguments: toolArgs } = params;
-    return this.mcpHub.callTool(serverName, toolName, toolArgs);
+    const { serverName, toolName, arguments: toolArgs, origin } = params;
+    return this.mcpHub.callTool(serverName, toolName, toolArgs, { origin });
   }
 
   /**
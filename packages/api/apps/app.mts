@@ -53,8 +53,15 @@ export async function createAppWithAi(data: CreateAppWithAiSchemaType): Promise<
   });
 
   const files = await getFlatFilesForApp(app.externalId);
-  const result = await generateApp(toValidPackageName(app.name), files, data.prompt);
-  const plan = await parsePlan(result, app, data.prompt, randomid());
+  const planId = randomid();
+  const result = await generateApp(
+    toValidPackageName(app.name),
+    files,
+    data.prompt,
+    data.resources,
+    { appId: app.externalId, planId },
+  );
+  const plan = await parsePlan(result, app, data.prompt, planId);
   await applyPlan(app, plan);
 
   const packagesToInstall = getPackagesToInstall(plan);
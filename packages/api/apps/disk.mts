@@ -20,6 +20,10 @@ export function broadcastFileUpdated(app: DBAppType, file: FileType) {
   wss.broadcast(`app:${app.externalId}`, 'file:updated', { file });
 }
 
+export function broadcastFileRenamed(app: DBAppType, oldPath: string, newPath: string) {
+  wss.broadcast(`app:${app.externalId}`, 'file:renamed', { oldPath, newPath });
+}
+
 // Use this rather than fs.writeFile to ensure we notify the client that the file has been updated.
 export async function writeFile(app: DBAppType, file: FileType) {
   // Guard against absolute / relative path issues for safety
@@ -278,6 +282,7 @@ export async function renameFile(
   name: string,
 ): Promise<FileEntryType> {
   const result = await rename(app, path, name);
+  broadcastFileRenamed(app, Path.normalize(path), result.path);
   return { ...result, type: 'file' as const };
 }
 
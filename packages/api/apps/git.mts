@@ -47,8 +47,10 @@ export async function checkoutCommit(app: DBAppType, commitSha: string): Promise
   // checkout the commit
   await git.checkout(commitSha);
 
-  // notify the client to update the files
-  for (const file of files.added) {
+  // notify the client to update the files. The diff is from the commit to what
+  // we had, so files it reports as deleted are the ones the checkout added back,
+  // and those it reports as added no longer exist.
+  for (const file of files.deleted) {
     const source = await fs.readFile(Path.join(pathToApp(app.externalId), file), 'utf-8');
     broadcastFileUpdated(app, toFileType(file, source));
   }
@@ -0,0 +1,142 @@
+import type { App as DBAppType } from '../db/schema.mjs';
+import { wss } from '../index.mjs';
+import { deleteAppProcess, getAppProcess, setAppProcess, viteServer } from './processes.mjs';
+
+const VITE_PORT_REGEX = /Local:.*http:\/\/localhost:([0-9]{1,4})/;
+
+// How many log chunks to keep per app for those who weren't watching.
+const MAX_PREVIEW_LOGS = 500;
+
+export type PreviewLogType = { type: 'stdout' | 'stderr'; data: string };
+
+export type PreviewStatusType =
+  | { status: 'running'; url: string }
+  | { status: 'stopped'; code: number | null };
+
+const logs = new Map<string, PreviewLogType[]>();
+
+function appendLog(appId: string, log: PreviewLogType) {
+  const appLogs = logs.get(appId) ?? [];
+  appLogs.push(log);
+  if (appLogs.length > MAX_PREVIEW_LOGS) {
+    appLogs.splice(0, appLogs.length - MAX_PREVIEW_LOGS);
+  }
+  logs.set(appId, appLogs);
+
+  wss.broadcast(`app:${appId}`, 'preview:log', { log });
+}
+
+/**
+ * What the app's vite preview has written since it last started.
+ */
+export function previewLogs(appId: string): PreviewLogType[] {
+  return logs.get(appId) ?? [];
+}
+
+/**
+ * Start the app's vite preview, or report the one already running. Resolves
+ * once vite says where it's serving the app, or when it stops.
+ */
+export function startPreview(app: DBAppType): Promise<PreviewStatusType> {
+  const existingProcess = getAppProcess(app.externalId, 'vite:server');
+
+  if (existingProcess) {
+    const url = `http://localhost:${existingProcess.port}/`;
+    wss.broadcast(`app:${app.externalId}`, 'preview:status', { status: 'running', url });
+    return Promise.resolve({ status: 'running', url });
+  }
+
+  wss.broadcast(`app:${app.externalId}`, 'preview:status', {
+    url: null,
+    status: 'booting',
+  });
+  logs.delete(app.externalId);
+
+  return new Promise((resolve) => {
+    const onChangePort = (newPort: number) => {
+      const process = getAppProcess(app.externalId, 'vite:server');
+
+      // This is not expected to happen
+      if (!process) {
+        wss.broadcast(`app:${app.externalId}`, 'preview:status', {
+          url: null,
+          status: 'stopped',
+          code: null,
+        });
+        resolve({ status: 'stopped', code: null });
+        return;
+      }
+
+      setAppProcess(app.externalId, { ...process, port: newPort });
+
+      const url = `http://localhost:${newPort}/`;
+      wss.broadcast(`app:${app.externalId}`, 'preview:status', { url, status: 'running' });
+      resolve({ status: 'running', url });
+    };
+
+    viteServer(app.externalId, {
+      args: [],
+      stdout: (data) => {
+        const encodedData = data.toString('utf8');
+        console.log(encodedData);
+
+        appendLog(app.externalId, { type: 'stdout', data: encodedData });
+
+        const potentialPortMatch = VITE_PORT_REGEX.exec(encodedData);
+        if (potentialPortMatch) {
+          const portString = potentialPortMatch[1]!;
+          const port = parseInt(portString, 10);
+          onChangePort(port);
+        }
+      },
+      stderr: (data) => {
+        const encodedData = data.toString('utf8');
+        console.error(encodedData);
+
+        appendLog(app.externalId, { type: 'stderr', data: encodedData });
+      },
+      onExit: (code) => {
+        deleteAppProcess(app.externalId, 'vite:server');
+
+        wss.broadcast(`app:${app.externalId}`, 'preview:status', {
+          url: null,
+          status: 'stopped',
+          code: code,
+        });
+        resolve({ status: 'stopped', code });
+      },
+      onError: (error) => {
+        // Errors happen when we try to run vite before node modules are installed.
+        // Make sure we clean up the app process and inform the client.
+        deleteAppProcess(app.externalId, 'vite:server');
+        appendLog(app.externalId, { type: 'stderr', data: error.message });
+
+        // TODO: Use a different event to communicate to the client there was an error.
+        // If the error is ENOENT, for example, it means node_modules and/or vite is missing.
+        wss.broadcast(`app:${app.externalId}`, 'preview:status', {
+          url: null,
+          status: 'stopped',
+          code: null,
+        });
+        resolve({ status: 'stopped', code: null });
+      },
+    });
+  });
+}
+
+/**
+ * Stop the app's vite preview. Returns false if it wasn't running.
+ */
+export function stopPreview(app: DBAppType): boolean {
+  const result = getAppProcess(app.externalId, 'vite:server');
+
+  if (!result) {
+    return false;
+  }
+
+  // Killing the process should result in its onExit handler being called.
+  // The onExit handler will remove the process from the processMetadata map
+  // and send the `preview:status` event with a value of 'stopped'
+  result.process.kill('SIGTERM');
+  return true;
+}
@@ -1,13 +1,16 @@
 import z from 'zod';
+import { McpResourceRefSchema } from '../mcp/types/index.mjs';
 
 export const CreateAppSchema = z.object({
   name: z.string(),
   prompt: z.string().optional(),
+  resources: z.array(McpResourceRefSchema).optional(),
 });
 
 export const CreateAppWithAiSchema = z.object({
   name: z.string(),
   prompt: z.string(),
+  resources: z.array(McpResourceRefSchema).optional(),
 });
 
 export type CreateAppSchemaType = z.infer<typeof CreateAppSchema>;
@@ -1,6 +1,7 @@
 import { sql } from 'drizzle-orm';
-import { sqliteTable, text, integer, unique } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, unique, index } from 'drizzle-orm/sqlite-core';
 import { randomid } from '@srcbook/shared';
+import type { McpServerConfig } from '../mcp/types/index.mjs';
 
 export const configs = sqliteTable('config', {
   // Directory where .src.md files will be stored and searched by default.
@@ -20,6 +21,11 @@ export const configs = sqliteTable('config', {
   aiBaseUrl: text('ai_base_url'),
   // Null: unset. Email: subscribed. "dismissed": dismissed the dialog.
   subscriptionEmail: text('subscription_email'),
+  // MCP server definitions, kept in sync with srcbook_mcp_config.json.
+  mcpServers: text('mcp_servers', { mode: 'json' })
+    .$type<Record<string, McpServerConfig>>()
+    .notNull()
+    .default({}),
 });
 
 export type Config = typeof configs.$inferSelect;
@@ -63,3 +69,32 @@ export const apps = sqliteTable('apps', {
 });
 
 export type App = typeof apps.$inferSelect;
+
+export const mcpToolCalls = sqliteTable(
+  'mcp_tool_calls',
+  {
+    id: integer('id').primaryKey(),
+    callId: text('call_id').notNull().unique(),
+    serverName: text('server_name').notNull(),
+    toolName: text('tool_name').notNull(),
+    // Sensitive fields are redacted before the arguments are stored.
+    args: text('args', { mode: 'json' }).$type<Record<string, unknown>>().notNull(),
+    status: text('status').$type<'completed' | 'failed' | 'cancelled'>().notNull(),
+    // Answered from the result cache without reaching the server.
+    cached: integer('cached', { mode: 'boolean' }).notNull().default(false),
+    resultSummary: text('result_summary'),
+    error: text('error'),
+    durationMs: integer('duration_ms').notNull(),
+    // What the call was made for, when known.
+    appId: text('app_id'),
+    planId: text('plan_id'),
+    source: text('source'),
+    startedAt: integer('started_at', { mode: 'timestamp_ms' }).notNull(),
+  },
+  (t) => ({
+    server_tool_idx: index('mcp_tool_calls_server_tool_idx').on(t.serverName, t.toolName),
+    started_at_idx: index('mcp_tool_calls_started_at_idx').on(t.startedAt),
+  }),
+);
+
+export type McpToolCall = typeof mcpToolCalls.$inferSelect;
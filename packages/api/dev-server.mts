@@ -69,8 +69,10 @@ if (import.meta.hot) {
 export function trackOperation(operation: Promise<any>) {
   activeOperations.add(operation);
   operation.catch(error => {
-    if (error?.type === 'overloaded_error') {
-      console.warn('Operation rejected due to overload:', error.message);
+    if (error?.type === 'queue_full_error') {
+      console.warn('Operation rejected because the queue is full:', error.message);
+    } else if (error?.type === 'timeout_error') {
+      console.warn('Operation timed out:', error.message);
     } else {
       console.error('Operation failed:', error);
     }
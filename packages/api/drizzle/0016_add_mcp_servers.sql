@@ -0,0 +1 @@
+ALTER TABLE `config` ADD `mcp_servers` text DEFAULT '{}' NOT NULL;
\ No newline at end of file
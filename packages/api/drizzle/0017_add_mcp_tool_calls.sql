@@ -0,0 +1,20 @@
+CREATE TABLE `mcp_tool_calls` (
+	`id` integer PRIMARY KEY NOT NULL,
+	`call_id` text NOT NULL,
+	`server_name` text NOT NULL,
+	`tool_name` text NOT NULL,
+	`args` text NOT NULL,
+	`status` text NOT NULL,
+	`cached` integer DEFAULT false NOT NULL,
+	`result_summary` text,
+	`error` text,
+	`duration_ms` integer NOT NULL,
+	`app_id` text,
+	`plan_id` text,
+	`source` text,
+	`started_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `mcp_tool_calls_call_id_unique` ON `mcp_tool_calls` (`call_id`);--> statement-breakpoint
+CREATE INDEX `mcp_tool_calls_server_tool_idx` ON `mcp_tool_calls` (`server_name`,`tool_name`);--> statement-breakpoint
+CREATE INDEX `mcp_tool_calls_started_at_idx` ON `mcp_tool_calls` (`started_at`);
\ No newline at end of file
@@ -2,5 +2,18 @@ import app from './server/http.mjs';
 import wss from './server/ws.mjs';
 import { SRCBOOKS_DIR } from './constants.mjs';
 import { posthog } from './posthog-client.mjs';
+import {
+  createSrcbookMcpServer,
+  serveSrcbookMcpOverHttp,
+  serveSrcbookMcpOverStdio,
+} from './mcp/srcbook-server.mjs';
 
-export { app, wss, SRCBOOKS_DIR, posthog };
+export {
+  app,
+  wss,
+  SRCBOOKS_DIR,
+  posthog,
+  createSrcbookMcpServer,
+  serveSrcbookMcpOverHttp,
+  serveSrcbookMcpOverStdio,
+};
@@ -0,0 +1,178 @@
+import fs from 'node:fs/promises';
+import Path from 'node:path';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { loadApp, loadApps, serializeApp } from '../apps/app.mjs';
+import {
+  loadDirectory,
+  loadFile,
+  pathToApp,
+  renameFile,
+  toFileType,
+  writeFile,
+} from '../apps/disk.mjs';
+import { checkoutCommit, commitAllFiles, getCommitHistory } from '../apps/git.mjs';
+import { previewLogs, startPreview, stopPreview } from '../apps/preview.mjs';
+
+function json(value: unknown): CallToolResult {
+  return { content: [{ type: 'text', text: JSON.stringify(value, null, 2) }] };
+}
+
+async function findApp(appId: string) {
+  const app = await loadApp(appId);
+  if (!app) {
+    throw new Error(`App ${appId} not found`);
+  }
+  return app;
+}
+
+// Paths that don't exist yet, like files about to be written, resolve
+// through their closest existing directory.
+async function realpath(path: string): Promise<string> {
+  try {
+    return await fs.realpath(path);
+  } catch (e) {
+    const parent = Path.dirname(path);
+    if ((e as NodeJS.ErrnoException).code !== 'ENOENT' || parent === path) {
+      throw e;
+    }
+    return Path.join(await realpath(parent), Path.basename(path));
+  }
+}
+
+/**
+ * The path relative to the app's directory. Unlike the UI, agents may try
+ * any path, so those leaving the app (symlinks included) or reaching into
+ * its git repository are refused.
+ */
+async function appPath(appId: string, path: string) {
+  const root = await realpath(pathToApp(appId));
+  const relative = Path.relative(root, await realpath(Path.resolve(root, path)));
+  const [first] = relative.split(Path.sep);
+  if (first === '..' || Path.isAbsolute(relative) || first === '.git') {
+    throw new Error(`Path ${path} is outside of app ${appId}`);
+  }
+  return relative === '' ? '.' : relative;
+}
+
+/**
+ * Tools to work on apps the way the UI does: files are written through the
+ * same functions, so browsers with the app open see changes as they happen.
+ */
+export function registerAppTools(server: McpServer) {
+  server.tool(
+    'list_apps',
+    'List the apps, most recently updated first',
+    {},
+    { readOnlyHint: true },
+    async () => json((await loadApps('desc')).map(serializeApp)),
+  );
+
+  server.tool(
+    'list_directory',
+    "List a directory of an app, by its path relative to the app's root",
+    { appId: z.string(), path: z.string().default('.') },
+    { readOnlyHint: true },
+    async ({ appId, path }) => {
+      const app = await findApp(appId);
+      const directory = await loadDirectory(app, await appPath(appId, path));
+      return json(directory.children);
+    },
+  );
+
+  server.tool(
+    'read_file',
+    "Read a file of an app, by its path relative to the app's root",
+    { appId: z.string(), path: z.string() },
+    { readOnlyHint: true },
+    async ({ appId, path }) => {
+      const app = await findApp(appId);
+      return json(await loadFile(app, await appPath(appId, path)));
+    },
+  );
+
+  server.tool(
+    'write_file',
+    'Create or replace a file of an app',
+    { appId: z.string(), path: z.string(), source: z.string() },
+    async ({ appId, path, source }) => {
+      const app = await findApp(appId);
+      const file = toFileType(await appPath(appId, path), source);
+      await writeFile(app, file);
+      return json({ path: file.path });
+    },
+  );
+
+  server.tool(
+    'rename_file',
+    'Rename a file of an app, keeping it in the same directory',
+    { appId: z.string(), path: z.string(), name: z.string() },
+    async ({ appId, path, name }) => {
+      const app = await findApp(appId);
+      if (name !== Path.basename(name) || name === '..' || name === '.git') {
+        throw new Error(`${name} is not a valid file name`);
+      }
+      return json(await renameFile(app, await appPath(appId, path), name));
+    },
+  );
+
+  server.tool(
+    'list_versions',
+    "List an app's commits, newest first",
+    { appId: z.string(), limit: z.number().int().positive().max(100).optional() },
+    { readOnlyHint: true },
+    async ({ appId, limit }) => {
+      const app = await findApp(appId);
+      const commits = await getCommitHistory(app, limit);
+      return json(commits.map(({ hash, message, date }) => ({ sha: hash, message, date })));
+    },
+  );
+
+  server.tool(
+    'commit',
+    'Commit every change to an app as a new version',
+    { appId: z.string(), message: z.string() },
+    async ({ appId, message }) => {
+      const app = await findApp(appId);
+      return json({ sha: await commitAllFiles(app, message) });
+    },
+  );
+
+  server.tool(
+    'checkout_version',
+    'Check out a version of an app, stashing uncommitted changes',
+    // Only a hash, so it can't be taken for an option or another ref.
+    { appId: z.string(), sha: z.string().regex(/^[0-9a-f]{4,40}$/i, 'Expected a commit hash') },
+    async ({ appId, sha }) => {
+      const app = await findApp(appId);
+      await checkoutCommit(app, sha);
+      return json({ sha });
+    },
+  );
+
+  server.tool(
+    'start_preview',
+    "Start the app's vite preview, returning its URL once it's serving",
+    { appId: z.string() },
+    async ({ appId }) => json(await startPreview(await findApp(appId))),
+  );
+
+  server.tool(
+    'stop_preview',
+    "Stop the app's vite preview",
+    { appId: z.string() },
+    async ({ appId }) => json({ stopped: stopPreview(await findApp(appId)) }),
+  );
+
+  server.tool(
+    'read_preview_logs',
+    "What the app's vite preview has written since it last started",
+    { appId: z.string() },
+    { readOnlyHint: true },
+    async ({ appId }) => {
+      const app = await findApp(appId);
+      return json(previewLogs(app.externalId));
+    },
+  );
+}
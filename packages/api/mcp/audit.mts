@@ -0,0 +1,85 @@
+import { and, count, desc, eq, gte, lt } from 'drizzle-orm';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { db } from '../db/index.mjs';
+import { mcpToolCalls, type McpToolCall } from '../db/schema.mjs';
+import MCPHub, { type ToolCallRecord } from './mcphub.mjs';
+import type { McpToolCallAuditQuery } from './types/index.mjs';
+
+// Results are stored as a summary, not in full, to keep the table small.
+const MAX_SUMMARY_LENGTH = 500;
+
+/**
+ * A readable summary of a tool's result: the text it returned, with other
+ * content reduced to its type, or the JSON of a result without content.
+ */
+export function summarizeResult(result: unknown): string | null {
+  if (result === undefined || result === null) {
+    return null;
+  }
+
+  const { content } = result as Partial<CallToolResult>;
+  const summary = Array.isArray(content)
+    ? content.map((item) => (item.type === 'text' ? item.text : `[${item.type}]`)).join('\n')
+    : JSON.stringify(result);
+
+  return summary.length > MAX_SUMMARY_LENGTH ? summary.slice(0, MAX_SUMMARY_LENGTH) + '…' : summary;
+}
+
+export async function recordToolCall(record: ToolCallRecord): Promise<void> {
+  await db.insert(mcpToolCalls).values({
+    callId: record.callId,
+    serverName: record.serverName,
+    toolName: record.toolName,
+    args: record.args,
+    status: record.status,
+    cached: record.cached ?? false,
+    resultSummary: summarizeResult(record.result),
+    error: record.error ?? null,
+    durationMs: record.finishedAt - record.startedAt,
+    appId: record.origin.appId ?? null,
+    planId: record.origin.planId ?? null,
+    source: record.origin.source ?? null,
+    startedAt: new Date(record.startedAt),
+  });
+}
+
+/**
+ * Write every tool call the hub makes to the audit log. A call that can't be
+ * recorded is logged and otherwise ignored, it has already happened.
+ */
+export function auditToolCalls(mcpHub: typeof MCPHub) {
+  mcpHub.onToolCallRecord((record) => {
+    recordToolCall(record).catch((error) => {
+      console.error(`Failed to add tool call ${record.callId} to the audit log:`, error);
+    });
+  });
+}
+
+/**
+ * Recorded tool calls matching the query, newest first, along with how many
+ * match in total for paging.
+ */
+export async function queryToolCalls(
+  query: McpToolCallAuditQuery,
+): Promise<{ calls: McpToolCall[]; total: number }> {
+  const where = and(
+    query.serverName !== undefined ? eq(mcpToolCalls.serverName, query.serverName) : undefined,
+    query.toolName !== undefined ? eq(mcpToolCalls.toolName, query.toolName) : undefined,
+    query.status !== undefined ? eq(mcpToolCalls.status, query.status) : undefined,
+    query.appId !== undefined ? eq(mcpToolCalls.appId, query.appId) : undefined,
+    query.planId !== undefined ? eq(mcpToolCalls.planId, query.planId) : undefined,
+    query.since !== undefined ? gte(mcpToolCalls.startedAt, new Date(query.since)) : undefined,
+    query.until !== undefined ? lt(mcpToolCalls.startedAt, new Date(query.until)) : undefined,
+  );
+
+  const calls = await db
+    .select()
+    .from(mcpToolCalls)
+    .where(where)
+    .orderBy(desc(mcpToolCalls.startedAt), desc(mcpToolCalls.id))
+    .limit(query.limit)
+    .offset(query.offset);
+  const [result] = await db.select({ total: count() }).from(mcpToolCalls).where(where);
+
+  return { calls, total: result?.total ?? 0 };
+}
@@ -0,0 +1,44 @@
+import { McpToolCallCancelPayloadSchema } from '@srcbook/shared';
+import WebSocketServer from '../../server/ws-client.mjs';
+import MCPHub from '../../mcp/mcphub.mjs';
+
+const TOPIC = 'mcp:calls';
+
+/**
+ * Streams the progress of in-flight tool calls to the browser and lets the
+ * user cancel them.
+ */
+export function register(wss: WebSocketServer, mcpHub: typeof MCPHub) {
+  wss
+    .channel(TOPIC)
+    .on('call:cancel', McpToolCallCancelPayloadSchema, (payload) => {
+      mcpHub.cancelToolCall(payload.callId);
+    })
+    .onJoin((_payload, _context, conn) => {
+      // Catch the client up on calls that started before it subscribed.
+      for (const call of mcpHub.listToolCalls()) {
+        conn.reply(TOPIC, 'call:started', { call });
+      }
+    });
+
+  mcpHub.onToolCall((event) => {
+    switch (event.type) {
+      case 'started':
+        wss.broadcast(TOPIC, 'call:started', { call: event.call });
+        break;
+      case 'progress':
+        wss.broadcast(TOPIC, 'call:progress', { callId: event.callId, progress: event.progress });
+        break;
+      case 'queued':
+        wss.broadcast(TOPIC, 'call:queued', { callId: event.callId, position: event.position });
+        break;
+      case 'finished':
+        wss.broadcast(TOPIC, 'call:finished', {
+          callId: event.callId,
+          status: event.status,
+          error: event.error,
+        });
+        break;
+    }
+  });
+}
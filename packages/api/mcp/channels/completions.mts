@@ -0,0 +1,32 @@
+import { McpCompletionRequestPayloadSchema } from '@srcbook/shared';
+import WebSocketServer from '../../server/ws-client.mjs';
+import MCPHub from '../../mcp/mcphub.mjs';
+
+const TOPIC = 'mcp:completions';
+
+/**
+ * Suggests values for prompt, resource template and tool arguments as the
+ * user types them. Answers go back only to the connection that asked.
+ */
+export function register(wss: WebSocketServer, mcpHub: typeof MCPHub) {
+  wss
+    .channel(TOPIC)
+    .on(
+      'completion:request',
+      McpCompletionRequestPayloadSchema,
+      async (payload, _context, conn) => {
+        const { requestId, serverName, ref, argument, context } = payload;
+
+        try {
+          const completion = await mcpHub.complete(serverName, ref, argument, context);
+          conn.reply(TOPIC, 'completion:result', { requestId, ...completion });
+        } catch (error) {
+          console.error(`Failed to complete ${argument.name} on server ${serverName}:`, error);
+          conn.reply(TOPIC, 'completion:error', {
+            requestId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      },
+    );
+}
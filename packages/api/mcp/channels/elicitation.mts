@@ -0,0 +1,55 @@
+import {
+  McpElicitationRequestPayloadSchema,
+  McpElicitationRespondPayloadSchema,
+  randomid,
+  type McpElicitationRequestPayloadType,
+  type McpElicitationRespondPayloadType,
+} from '@srcbook/shared';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import WebSocketServer from '../../server/ws-client.mjs';
+import MCPHub from '../../mcp/mcphub.mjs';
+import { registerPendingRequests } from './pending.mjs';
+
+const TOPIC = 'mcp:elicitation';
+
+// How long an elicitation request waits for the user before it is cancelled.
+const RESPONSE_TIMEOUT = 10 * 60 * 1000;
+
+/**
+ * Answers servers' elicitation requests with a form the user fills in in the
+ * browser. Accepting returns what was entered; declining or dismissing the
+ * form returns no content.
+ */
+export function register(wss: WebSocketServer, mcpHub: typeof MCPHub) {
+  const requestInput = registerPendingRequests<
+    McpElicitationRequestPayloadType,
+    McpElicitationRespondPayloadType
+  >(wss, {
+    topic: TOPIC,
+    name: 'elicitation',
+    responseSchema: McpElicitationRespondPayloadSchema,
+    timeout: RESPONSE_TIMEOUT,
+    // Nobody answering is the user dismissing the form.
+    onTimeout: ({ requestId }) => ({ requestId, action: 'cancel' }),
+    cancelledMessage: 'Elicitation request was cancelled',
+  });
+
+  mcpHub.setElicitationHandler(async (serverName, params, signal) => {
+    if (!wss.hasSubscribers(TOPIC)) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No user is available to answer');
+    }
+
+    const parsed = McpElicitationRequestPayloadSchema.safeParse({
+      requestId: randomid(),
+      serverName,
+      message: params.message,
+      requestedSchema: params.requestedSchema,
+    });
+    if (!parsed.success) {
+      throw new McpError(ErrorCode.InvalidParams, 'Requested schema is not supported');
+    }
+
+    const { action, content } = await requestInput(parsed.data, signal);
+    return action === 'accept' ? { action, content: content ?? {} } : { action };
+  });
+}
@@ -0,0 +1,49 @@
+import { McpServerLogLevelPayloadSchema, McpServerLogsClearPayloadSchema } from '@srcbook/shared';
+import WebSocketServer from '../../server/ws-client.mjs';
+import MCPHub from '../../mcp/mcphub.mjs';
+
+function topicFor(serverName: string) {
+  return `mcp:logs:${serverName}`;
+}
+
+/**
+ * Streams a server's stderr and log messages to the browser, and lets the
+ * user pick the server's log level or clear what has been captured so far.
+ */
+export function register(wss: WebSocketServer, mcpHub: typeof MCPHub) {
+  wss
+    .channel('mcp:logs:<serverName>')
+    .on('logs:level', McpServerLogLevelPayloadSchema, async (payload, context, conn) => {
+      const { serverName } = context.params;
+      try {
+        await mcpHub.setLogLevel(serverName!, payload.level);
+        wss.broadcast(topicFor(serverName!), 'logs:level', { level: payload.level });
+      } catch (error) {
+        console.error(`Failed to set log level on server ${serverName}:`, error);
+        conn.reply(topicFor(serverName!), 'logs:error', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    })
+    .on('logs:clear', McpServerLogsClearPayloadSchema, (_payload, context) => {
+      const { serverName } = context.params;
+      mcpHub.clearServerLogs(serverName!);
+      wss.broadcast(topicFor(serverName!), 'logs:history', history(serverName!));
+    })
+    .onJoin((_payload, context, conn) => {
+      const { serverName } = context.params;
+      conn.reply(topicFor(serverName!), 'logs:history', history(serverName!));
+    });
+
+  function history(serverName: string) {
+    return {
+      entries: mcpHub.getServerLogs(serverName),
+      level: mcpHub.getLogLevel(serverName),
+      supportsLevel: !!mcpHub.getConnection(serverName)?.capabilities.logging,
+    };
+  }
+
+  mcpHub.onServerLog((serverName, entry) => {
+    wss.broadcast(topicFor(serverName), 'logs:entry', { entry });
+  });
+}
@@ -0,0 +1,78 @@
+import type z from 'zod';
+import WebSocketServer from '../../server/ws-client.mjs';
+
+/**
+ * Sets up a channel for requests from servers that wait on the user to answer
+ * in the browser, and returns how to make one. Every subscribed tab, including
+ * tabs opened while a request waits, is sent `<name>:request`, then
+ * `<name>:resolved` once it is answered, times out or is cancelled. Tabs answer
+ * with `<name>:respond`.
+ */
+export function registerPendingRequests<
+  Request extends { requestId: string },
+  Response extends { requestId: string },
+>(
+  wss: WebSocketServer,
+  options: {
+    topic: string;
+    name: string;
+    responseSchema: z.ZodType<Response, z.ZodTypeDef, unknown>;
+    timeout: number;
+    // What a request nobody answers in time ends with.
+    onTimeout: (request: Request) => Response | Error;
+    cancelledMessage: string;
+  },
+) {
+  const { topic, name } = options;
+  const pending = new Map<
+    string,
+    {
+      payload: Request;
+      respond: (response: Response) => void;
+    }
+  >();
+
+  wss
+    .channel(topic)
+    .on(`${name}:respond`, options.responseSchema, (payload) => {
+      pending.get(payload.requestId)?.respond(payload);
+    })
+    .onJoin((_payload, _context, conn) => {
+      for (const { payload } of pending.values()) {
+        conn.reply(topic, `${name}:request`, payload);
+      }
+    });
+
+  return function request(payload: Request, signal: AbortSignal) {
+    return new Promise<Response>((resolve, reject) => {
+      const { requestId } = payload;
+
+      const timeout = setTimeout(() => {
+        const outcome = options.onTimeout(payload);
+        if (outcome instanceof Error) {
+          finish(outcome);
+        } else {
+          finish(null, outcome);
+        }
+      }, options.timeout);
+      const onAbort = () => finish(new Error(options.cancelledMessage));
+
+      function finish(error: Error | null, response?: Response) {
+        clearTimeout(timeout);
+        signal.removeEventListener('abort', onAbort);
+        pending.delete(requestId);
+        // Close the prompt in every tab, not just the one that answered.
+        wss.broadcast(topic, `${name}:resolved`, { requestId });
+        if (error) {
+          reject(error);
+        } else {
+          resolve(response!);
+        }
+      }
+
+      signal.addEventListener('abort', onAbort);
+      pending.set(requestId, { payload, respond: (response) => finish(null, response) });
+      wss.broadcast(topic, `${name}:request`, payload);
+    });
+  };
+}
@@ -0,0 +1,104 @@
+import {
+  McpResourceSubscribePayloadSchema,
+  type McpResourceSubscribePayloadType,
+} from '@srcbook/shared';
+import WebSocketServer, { type ConnectionContextType } from '../../server/ws-client.mjs';
+import MCPHub from '../../mcp/mcphub.mjs';
+
+const TOPIC = 'mcp:resources';
+
+function subscriptionKey(serverName: string, uri: string) {
+  return JSON.stringify([serverName, uri]);
+}
+
+/**
+ * Lets browser clients subscribe to resources. Each connection's subscriptions
+ * are tracked here so they can be released when it unsubscribes or goes away,
+ * and updates are only sent to the connections that asked for them.
+ */
+export function register(wss: WebSocketServer, mcpHub: typeof MCPHub) {
+  const subscriptions = new Map<
+    ConnectionContextType,
+    Map<string, McpResourceSubscribePayloadType>
+  >();
+
+  async function release(conn: ConnectionContextType, key: string) {
+    const subscription = subscriptions.get(conn)?.get(key);
+    if (!subscription) return;
+
+    subscriptions.get(conn)!.delete(key);
+    await mcpHub.unsubscribeResource(subscription.serverName, subscription.uri);
+  }
+
+  async function readContents(serverName: string, uri: string) {
+    return { serverName, uri, contents: await mcpHub.readResource(serverName, uri) };
+  }
+
+  wss
+    .channel(TOPIC)
+    .on(
+      'resource:subscribe',
+      McpResourceSubscribePayloadSchema,
+      async (payload, _context, conn) => {
+        const { serverName, uri } = payload;
+        const key = subscriptionKey(serverName, uri);
+
+        const connSubscriptions = subscriptions.get(conn) ?? new Map();
+        subscriptions.set(conn, connSubscriptions);
+
+        try {
+          if (!connSubscriptions.has(key)) {
+            const live = await mcpHub.subscribeResource(serverName, uri);
+            connSubscriptions.set(key, payload);
+            conn.reply(TOPIC, 'resource:subscribed', { serverName, uri, live });
+          }
+
+          // Send the current contents so the client doesn't need a separate read.
+          conn.reply(TOPIC, 'resource:updated', await readContents(serverName, uri));
+        } catch (error) {
+          console.error(`Failed to subscribe to ${uri} on server ${serverName}:`, error);
+          await release(conn, key);
+          conn.reply(TOPIC, 'resource:error', {
+            serverName,
+            uri,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      },
+    )
+    .on('resource:unsubscribe', McpResourceSubscribePayloadSchema, (payload, _context, conn) => {
+      release(conn, subscriptionKey(payload.serverName, payload.uri));
+    })
+    .onLeave((_context, conn) => {
+      for (const key of subscriptions.get(conn)?.keys() ?? []) {
+        release(conn, key);
+      }
+      subscriptions.delete(conn);
+    });
+
+  mcpHub.onResourceUpdated(async (serverName, uri) => {
+    const key = subscriptionKey(serverName, uri);
+    const subscribers = Array.from(subscriptions.entries())
+      .filter(([, connSubscriptions]) => connSubscriptions.has(key))
+      .map(([conn]) => conn);
+
+    if (subscribers.length === 0) return;
+
+    try {
+      // Read once and fan the result out, rather than each client re-reading.
+      const payload = await readContents(serverName, uri);
+      for (const conn of subscribers) {
+        conn.reply(TOPIC, 'resource:updated', payload);
+      }
+    } catch (error) {
+      console.error(`Failed to read updated resource ${uri} on server ${serverName}:`, error);
+      for (const conn of subscribers) {
+        conn.reply(TOPIC, 'resource:error', {
+          serverName,
+          uri,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  });
+}
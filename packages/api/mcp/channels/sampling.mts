@@ -0,0 +1,89 @@
+import {
+  McpSamplingRespondPayloadSchema,
+  randomid,
+  type McpSamplingMessageType,
+  type McpSamplingRequestPayloadType,
+  type McpSamplingRespondPayloadType,
+} from '@srcbook/shared';
+import { ErrorCode, McpError, type CreateMessageRequest } from '@modelcontextprotocol/sdk/types.js';
+import WebSocketServer from '../../server/ws-client.mjs';
+import MCPHub from '../../mcp/mcphub.mjs';
+import { saveMcpServer } from '../config.mjs';
+import { createMessage, resolveSamplingModel } from '../sampling.mjs';
+import { registerPendingRequests } from './pending.mjs';
+
+const TOPIC = 'mcp:sampling';
+
+// How long a sampling request waits for the user before it is rejected.
+const APPROVAL_TIMEOUT = 5 * 60 * 1000;
+
+function toApprovalMessages(
+  messages: CreateMessageRequest['params']['messages'],
+): McpSamplingMessageType[] {
+  return messages.map(({ role, content }) =>
+    content.type === 'text'
+      ? { role, type: 'text', text: content.text }
+      : { role, type: content.type, mimeType: content.mimeType },
+  );
+}
+
+/**
+ * Fulfils servers' sampling requests with the configured model, after asking
+ * the user in the browser. Requests from servers with `sampling.alwaysAllow`
+ * set skip the prompt.
+ */
+export function register(wss: WebSocketServer, mcpHub: typeof MCPHub) {
+  const requestApproval = registerPendingRequests<
+    McpSamplingRequestPayloadType,
+    McpSamplingRespondPayloadType
+  >(wss, {
+    topic: TOPIC,
+    name: 'sampling',
+    responseSchema: McpSamplingRespondPayloadSchema,
+    timeout: APPROVAL_TIMEOUT,
+    onTimeout: () => new McpError(ErrorCode.RequestTimeout, 'Sampling request was not approved'),
+    cancelledMessage: 'Sampling request was cancelled',
+  });
+
+  async function alwaysAllow(serverName: string) {
+    const config = mcpHub.getServerConfig(serverName);
+    if (!config) return;
+
+    const updated = { ...config, sampling: { ...config.sampling, alwaysAllow: true } };
+    await saveMcpServer(serverName, updated);
+    await mcpHub.upsertServer(serverName, updated);
+  }
+
+  mcpHub.setSamplingHandler(async (serverName, params, signal) => {
+    const model = await resolveSamplingModel(params);
+
+    if (!mcpHub.getServerConfig(serverName)?.sampling?.alwaysAllow) {
+      if (!wss.hasSubscribers(TOPIC)) {
+        throw new McpError(ErrorCode.InvalidRequest, 'No user is available to approve sampling');
+      }
+
+      const response = await requestApproval(
+        {
+          requestId: randomid(),
+          serverName,
+          messages: toApprovalMessages(params.messages),
+          systemPrompt: params.systemPrompt,
+          maxTokens: params.maxTokens,
+          model,
+        },
+        signal,
+      );
+
+      if (!response.approved) {
+        throw new McpError(-1, 'User rejected sampling request');
+      }
+      if (response.alwaysAllow) {
+        await alwaysAllow(serverName).catch((error) => {
+          console.error(`Failed to always allow sampling for server ${serverName}:`, error);
+        });
+      }
+    }
+
+    return createMessage(params, model, signal);
+  });
+}
@@ -5,12 +5,19 @@ import {
 } from '../types/index.mjs';
 import { z } from 'zod';
 
-async function gatherServerStatus(mcpHub: typeof MCPHub, name: string, status: string, error?: string) {
+async function gatherServerStatus(
+  mcpHub: typeof MCPHub,
+  name: string,
+  status: string,
+  error?: string,
+  disabled?: boolean,
+) {
   console.log(`Gathering status for server: ${name}, Status: ${status}`);
 
   let tools;
   let resources;
   let resourceTemplates;
+  let prompts;
 
   if (status === 'connected') {
     try {
@@ -33,15 +40,24 @@ async function gatherServerStatus(mcpHub: typeof MCPHub, name: string, status: s
     } catch (err) {
       console.error(`Failed to list resource templates for server ${name}:`, err);
     }
+
+    try {
+      prompts = await mcpHub.listPrompts(name);
+      console.log(`Prompts for server ${name}:`, prompts);
+    } catch (err) {
+      console.error(`Failed to list prompts for server ${name}:`, err);
+    }
   }
 
   return {
     name,
     status,
     error,
+    disabled: !!disabled,
     tools,
     resources,
-    resourceTemplates
+    resourceTemplates,
+    prompts
   };
 }
 
@@ -52,9 +68,15 @@ export function register(wss: WebSocketServer, mcpHub: typeof MCPHub) {
     .on('servers:list', z.object({}), async (_payload, _context, conn) => {
       try {
         const servers = await Promise.all(
-          mcpHub.listConnections().map(async serverConn => 
-            gatherServerStatus(mcpHub, serverConn.name, serverConn.status, serverConn.error)
-          )
+          mcpHub.listServers().map(async (server) =>
+            gatherServerStatus(
+              mcpHub,
+              server.name,
+              server.status,
+              server.error,
+              server.config.disabled,
+            ),
+          ),
         );
         console.log('Servers list response:', servers);
         conn.reply('mcp:servers', 'servers:list:response', { servers });
@@ -104,19 +126,36 @@ export function register(wss: WebSocketServer, mcpHub: typeof MCPHub) {
       }
     });
 
-  // Add server status change handler to broadcast updates
-  mcpHub.onStatusChange(async (name, status) => {
+  async function broadcastStatus(name: string, status: string, error?: string) {
     try {
+      const server = mcpHub.listServers().find((s) => s.name === name);
       const fullStatus = await gatherServerStatus(
-        mcpHub, 
-        name, 
-        status.status, 
-        status.error
+        mcpHub,
+        name,
+        status,
+        error,
+        server?.config.disabled,
       );
       console.log(`Broadcasting status change for server ${name}:`, fullStatus);
       wss.broadcast('mcp:servers', 'server:status:changed', { status: fullStatus });
     } catch (error) {
       console.error(`Error broadcasting status change for server ${name}:`, error);
     }
+  }
+
+  // Add server status change handler to broadcast updates
+  mcpHub.onStatusChange((name, status) => broadcastStatus(name, status.status, status.error));
+
+  // Servers can change their tools, resources and prompts while connected, so
+  // send the browser the fresh catalog.
+  mcpHub.onCatalogChanged((name) => {
+    const conn = mcpHub.getConnection(name);
+    if (conn) {
+      broadcastStatus(name, conn.status, conn.error);
+    }
   });
-}
\ No newline at end of file
+
+  mcpHub.onServerRemoved((name) => {
+    wss.broadcast('mcp:servers', 'server:removed', { name });
+  });
+}
@@ -1,7 +1,7 @@
+import { McpToolCallResponseSchema, McpToolExecutePayloadSchema } from '@srcbook/shared';
 import WebSocketServer from '../../server/ws-client.mjs';
 import mcpHubInstance from '../../mcp/mcphub.mjs';
-import { MCPToolExecutionSchema } from '../types/tools.mjs';
-import { z } from 'zod';
+import { getToolExecutor } from '../../ai/tool-executor-singleton.mjs';
 
 /**
  * Registers WebSocket channels for MCP tool execution and management
@@ -13,34 +13,42 @@ export function register(wss: WebSocketServer, mcpHub: typeof mcpHubInstance) {
     // Create a dynamic channel based on toolId parameter
     .channel('tool:<toolId>')
     // Listen for tool execution requests
-    .on('tool:execute', MCPToolExecutionSchema, async (payload, context, conn) => {
+    .on('tool:execute', McpToolExecutePayloadSchema, async (payload, context, conn) => {
       console.log(`[MCP Tool Request] Server: ${payload.serverName}, Tool: ${payload.toolName}`);
       console.log('[MCP Tool Request] Parameters:', JSON.stringify(payload.params, null, 2));
-      
-      const toolSchema = knownToolSchemas[payload.toolName];
-      if (toolSchema) {
-        const validatedParams = toolSchema.parse(payload.params);
-        console.log(payload.serverName, payload.toolName, validatedParams)
-        const result = await mcpHub.callTool(
-          payload.serverName,
-          payload.toolName,
-          validatedParams
-        );
-        conn.reply(`tool:${context.params.toolId}`, 'tool:result', { result });
-      } else {
-        // handle unknown tool
-        conn.reply(`tool:${context.params.toolId}`, 'tool:error', {
-          error: `No schema found for tool '${payload.toolName}'`,
+
+      const topic = `tool:${context.params.toolId}`;
+      const tool = mcpHub.findTool(payload.serverName, payload.toolName);
+      if (!tool) {
+        conn.reply(topic, 'tool:error', {
+          error: `Tool ${payload.toolName} not found on server ${payload.serverName}`,
+        });
+        return;
+      }
+
+      // The server checks the arguments against the tool's input schema and
+      // its complaints are shown like any other error.
+      try {
+        const toolExecutor = await getToolExecutor();
+        const result = await toolExecutor.executeTool({
+          serverName: payload.serverName,
+          toolName: payload.toolName,
+          arguments: payload.params,
+          origin: { source: 'playground' },
+        });
+        // The browser only shows the kinds of content it knows.
+        const response = McpToolCallResponseSchema.safeParse(result);
+        if (response.success) {
+          conn.reply(topic, 'tool:result', { result: response.data });
+        } else {
+          conn.reply(topic, 'tool:error', {
+            error: 'The tool returned content that cannot be shown',
+          });
+        }
+      } catch (error) {
+        conn.reply(topic, 'tool:error', {
+          error: error instanceof Error ? error.message : String(error),
         });
       }
     });
 }
-
-// For demonstration, each tool might have a corresponding Zod schema
-const knownToolSchemas: Record<string, z.ZodType<any>> = {
-  scrapeWebpage: z.object({
-    url: z.string().url(),
-    maxDepth: z.number().optional(),
-  }),
-  // ...
-};
\ No newline at end of file
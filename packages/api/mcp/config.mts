@@ -1,7 +1,8 @@
 import { z } from 'zod';
-import { getConfig, updateConfig } from '../config.mjs';
+import { getConfig, getSecrets, updateConfig } from '../config.mjs';
 import path from 'node:path';
 import fs from 'node:fs/promises';
+import { watch } from 'node:fs';
 import { DIST_DIR } from '../constants.mjs';
 import { McpServerConfigSchema } from './types/index.mjs';
 
@@ -15,6 +16,10 @@ export type McpConfig = z.infer<typeof McpFileConfigSchema>;
 
 let cachedConfig: McpConfig | null = null;
 
+// The last contents we wrote to CONFIG_PATH ourselves, so the watcher can
+// tell our own writes apart from edits made by the user.
+let lastWrittenContent: string | null = null;
+
 // When running in a container, the config file is at /app/srcbook_mcp_config.json
 // Otherwise, it's at the root of the API package.
 export const CONFIG_PATH =
@@ -35,12 +40,11 @@ export async function loadMcpConfig(): Promise<McpConfig> {
     // Try to read from the file first
     console.log('Attempting to read:', CONFIG_PATH);
     const fileContent = await fs.readFile(CONFIG_PATH, 'utf-8');
-    console.log('Raw file content:', fileContent);
 
+    // The contents aren't logged, server env and headers may hold credentials.
     let jsonContent: unknown;
     try {
       jsonContent = JSON.parse(fileContent);
-      console.log('Parsed JSON:', jsonContent);
     } catch (e) {
       console.log('JSON parse error:', e);
       throw e;
@@ -83,7 +87,7 @@ export async function loadMcpConfig(): Promise<McpConfig> {
 
     // Write to file for future use
     try {
-      await fs.writeFile(CONFIG_PATH, JSON.stringify(cachedConfig, null, 2));
+      await writeConfigFile(cachedConfig);
     } catch (writeError) {
       console.log('Could not write MCP config file:', writeError);
       // Don't fail just because we couldn't write the file
@@ -98,21 +102,121 @@ export async function updateMcpConfig(newConfig: Partial<McpConfig>) {
   cachedConfig = null;
 
   // Update the file
-  await fs.writeFile(CONFIG_PATH, JSON.stringify(newConfig, null, 2));
+  await writeConfigFile(newConfig);
 
   // Update the database
-  await updateConfig({
-    mcpServers: newConfig.mcpServers
-      ? Object.fromEntries(
-          Object.entries(newConfig.mcpServers).map(([key, value]) => [
-            key,
-            {
-              command: value.command,
-              args: value.args ?? [], // Add a default value for args
-              env: JSON.stringify(value.env ?? {}), // Add a default value for env and convert it to a string
-            },
-          ]),
-        )
-      : {},
+  await updateConfig({ mcpServers: newConfig.mcpServers ?? {} });
+}
+
+/**
+ * Add a server to the MCP config, or replace the config of an existing one.
+ */
+export async function saveMcpServer(name: string, serverConfig: McpServerConfig) {
+  const config = await loadMcpConfig();
+  const mcpServers = { ...config.mcpServers, [name]: serverConfig };
+  await updateMcpConfig({ mcpServers });
+  return mcpServers;
+}
+
+/**
+ * Remove a server from the MCP config. Returns false if no server by that name exists.
+ */
+export async function removeMcpServer(name: string) {
+  const config = await loadMcpConfig();
+  if (!(name in config.mcpServers)) {
+    return false;
+  }
+  const { [name]: _removed, ...mcpServers } = config.mcpServers;
+  await updateMcpConfig({ mcpServers });
+  return true;
+}
+
+/**
+ * The values of the named Srcbook secrets, for resolving the secret references
+ * in a server's env. Names without a secret are left out.
+ */
+export async function loadSecrets(names: string[]): Promise<Record<string, string>> {
+  const secrets = await getSecrets();
+  return Object.fromEntries(
+    secrets
+      .filter((secret) => names.includes(secret.name))
+      .map((secret) => [secret.name, secret.value]),
+  );
+}
+
+async function writeConfigFile(config: Partial<McpConfig>) {
+  const content = JSON.stringify(config, null, 2);
+  lastWrittenContent = content;
+  await fs.writeFile(CONFIG_PATH, content);
+}
+
+/**
+ * Watch CONFIG_PATH for edits made outside of Srcbook and call `onChange` with
+ * the new config. Invalid edits are logged and ignored so a half-saved file never
+ * tears down working connections. Returns a function that stops watching.
+ */
+export function watchMcpConfig(onChange: (config: McpConfig) => void): () => void {
+  let timeout: NodeJS.Timeout | null = null;
+
+  const reload = async () => {
+    let fileContent: string;
+    try {
+      fileContent = await fs.readFile(CONFIG_PATH, 'utf-8');
+    } catch (error) {
+      console.log('Could not read MCP config file after change:', error);
+      return;
+    }
+
+    if (fileContent === lastWrittenContent) {
+      return;
+    }
+
+    let parsed;
+    try {
+      parsed = McpFileConfigSchema.safeParse(JSON.parse(fileContent));
+    } catch (error) {
+      console.log('MCP config file is not valid JSON, ignoring change:', error);
+      return;
+    }
+
+    if (!parsed.success) {
+      console.log(
+        'MCP config file failed schema validation, ignoring change:',
+        parsed.error.errors,
+      );
+      return;
+    }
+
+    console.log('MCP config file changed, reloading');
+    cachedConfig = parsed.data;
+    lastWrittenContent = fileContent;
+
+    // Keep the database copy in sync so it's correct if the file goes away.
+    await updateConfig({ mcpServers: parsed.data.mcpServers });
+
+    onChange(parsed.data);
+  };
+
+  // Watch the directory rather than the file itself: editors often save by
+  // writing a new file and renaming it over the old one, which would end a
+  // watch on the original file.
+  const watcher = watch(path.dirname(CONFIG_PATH), (_event, filename) => {
+    if (filename !== path.basename(CONFIG_PATH)) {
+      return;
+    }
+
+    // A single save usually emits several events, so wait for them to settle.
+    if (timeout) clearTimeout(timeout);
+    timeout = setTimeout(() => {
+      timeout = null;
+      reload().catch((error) => console.error('Error reloading MCP config:', error));
+    }, 100);
   });
+
+  watcher.on('error', (error) => console.error('Error watching MCP config file:', error));
+
+  return () => {
+    if (timeout) clearTimeout(timeout);
+    watcher.close();
+  };
 }
@@ -1,33 +1,59 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import {
+  StdioClientTransport,
+  type StdioServerParameters,
+} from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ErrorCode,
+  ListRootsRequestSchema,
   ListToolsResultSchema,
   ListResourcesResultSchema,
   ListResourceTemplatesResultSchema,
-  InitializeResultSchema,
+  LoggingMessageNotificationSchema,
+  McpError,
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema,
+  type CreateMessageRequest,
+  type CompleteResult,
+  type CreateMessageResult,
+  type ElicitRequest,
+  type ElicitResult,
+  type GetPromptResult,
+  type ListPromptsResult,
+  type LoggingLevel,
+  type ReadResourceResult,
+  type Root,
+  type ToolAnnotations,
 } from '@modelcontextprotocol/sdk/types.js';
-import { loadMcpConfig } from './config.mjs';
+import { isDeepStrictEqual } from 'node:util';
+import {
+  loadMcpConfig,
+  loadSecrets,
+  watchMcpConfig,
+  type McpConfig,
+  type McpServerConfig,
+} from './config.mjs';
+import {
+  describeServerConfig,
+  isHttpServerConfig,
+  type DangerLevel,
+  type McpStdioServerConfig,
+} from './types/index.mjs';
+import { findSecretReferences, resolveSecretReferences } from './secrets.mjs';
+import { checkWorkingDirectory, inheritedEnv, sandboxArgs } from './sandbox.mjs';
 import { z } from 'zod';
-
-interface ClientInfo {
-  name: string;
-  version: string;
-  description?: string;
-}
-
-interface McpServerConfig {
-  command: string;
-  args?: string[];
-  env?: Record<string, string>;
-}
-
-interface McpConfig {
-  mcpServers: Record<string, McpServerConfig>;
-}
+import { randomid, type McpCompletionRefType } from '@srcbook/shared';
 
 interface McpConnection {
   client: Client;
-  transport: StdioClientTransport;
+  transport: Transport;
   status: 'connected' | 'connecting' | 'disconnected';
   capabilities: ServerCapabilities;
   error?: string;
@@ -42,12 +68,292 @@ interface ServerCapabilities {
   tools?: boolean;
   resources?: boolean;
   resourceTemplates?: boolean;
+  resourceSubscribe?: boolean;
+  prompts?: boolean;
+  logging?: boolean;
+  completions?: boolean;
+}
+
+// The most suggestions MCP allows in one completion.
+const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * Fulfils a server's `sampling/createMessage` request. The signal is aborted
+ * if the server cancels the request or disconnects.
+ */
+export type SamplingHandler = (
+  serverName: string,
+  params: CreateMessageRequest['params'],
+  signal: AbortSignal,
+) => Promise<CreateMessageResult>;
+
+/**
+ * Answers a server's `elicitation/create` request with input from the user.
+ * The signal is aborted if the server cancels the request or disconnects.
+ */
+export type ElicitationHandler = (
+  serverName: string,
+  params: ElicitRequest['params'],
+  signal: AbortSignal,
+) => Promise<ElicitResult>;
+
+// Settings that are read per request rather than at connect time, so changing
+// them doesn't require restarting the server.
+function withoutRequestSettings({
+  alias: _alias,
+  maxConcurrentCalls: _maxConcurrentCalls,
+  maxQueuedCalls: _maxQueuedCalls,
+  sampling: _sampling,
+  connectTimeout: _connectTimeout,
+  timeout: _timeout,
+  retries: _retries,
+  retryDelay: _retryDelay,
+  tools: _tools,
+  cacheTtl: _cacheTtl,
+  ...config
+}: McpServerConfig) {
+  return config;
+}
+
+export interface ToolCallSettings {
+  timeout: number;
+  retries: number;
+  retryDelay: number;
+}
+
+/**
+ * Thrown when a tool call can't even be queued because too many calls are
+ * already waiting for the server.
+ */
+export class McpQueueFullError extends Error {
+  readonly type = 'queue_full_error';
+
+  constructor(
+    readonly serverName: string,
+    readonly maxQueuedCalls: number,
+  ) {
+    super(`Too many calls are waiting for server '${serverName}' (at most ${maxQueuedCalls})`);
+    this.name = 'McpQueueFullError';
+  }
+}
+
+/**
+ * Thrown when a server takes longer than its configured timeout to connect,
+ * list its tools or finish a tool call, as opposed to failing outright.
+ */
+export class McpTimeoutError extends Error {
+  readonly type = 'timeout_error';
+
+  constructor(
+    readonly serverName: string,
+    readonly operation: 'connect' | 'list_tools' | 'call_tool',
+    readonly timeout: number,
+    readonly toolName?: string,
+  ) {
+    super(
+      operation === 'call_tool'
+        ? `Tool '${toolName}' on server '${serverName}' timed out after ${timeout}ms`
+        : operation === 'list_tools'
+          ? `Listing tools on server '${serverName}' timed out after ${timeout}ms`
+          : `Connection timeout for server ${serverName} after ${timeout}ms`,
+    );
+    this.name = 'McpTimeoutError';
+  }
+}
+
+/**
+ * Thrown when a tool reference matches no tool, or more than one.
+ */
+export class McpToolResolutionError extends Error {
+  readonly type = 'tool_resolution_error';
+
+  constructor(
+    readonly reference: string,
+    // Fully qualified IDs of the tools the reference could mean.
+    readonly candidates: string[],
+  ) {
+    super(
+      candidates.length === 0
+        ? `Unknown MCP tool '${reference}'`
+        : `MCP tool '${reference}' is ambiguous, use one of: ${candidates.join(', ')}`,
+    );
+    this.name = 'McpToolResolutionError';
+  }
+}
+
+/**
+ * A line a stdio server wrote to stderr, or a log message a server sent with
+ * `notifications/message`.
+ */
+export type ServerLogEntry = {
+  timestamp: number;
+  message: string;
+} & (
+  | { source: 'stderr' }
+  | { source: 'server'; level: LoggingLevel; logger?: string }
+);
+
+// How many log entries are kept per server. Older ones are dropped.
+const MAX_LOG_ENTRIES = 500;
+
+const LOG_LEVELS: LoggingLevel[] = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+];
+
+export interface SupervisorOptions {
+  // Delay before restarting a dead server. It doubles with every failed
+  // restart, up to maxRestartDelay.
+  baseRestartDelay: number;
+  maxRestartDelay: number;
+  // How often connected servers are pinged, and how long they have to answer.
+  healthCheckInterval: number;
+  healthCheckTimeout: number;
+  // How long a server has to stay connected before its past failures are
+  // forgotten and restarts go back to the base delay.
+  healthyInterval: number;
+}
+
+export interface SupervisorState {
+  // Restarts attempted since the server was last healthy.
+  restarts: number;
+  // When the next restart is due, if one is scheduled.
+  nextRestartAt?: number;
+  // When the server last answered a health check, and how long it took.
+  lastPingAt?: number;
+  lastPingLatency?: number;
+}
+
+// The lists a server can tell us have changed with a `list_changed` notification.
+export type CatalogKind = 'tools' | 'resources' | 'prompts';
+
+function isRequestTimeout(error: unknown) {
+  return error instanceof McpError && error.code === ErrorCode.RequestTimeout;
+}
+
+// Argument names whose values are never recorded, at any depth. Matched
+// case-insensitively.
+export const DEFAULT_SENSITIVE_FIELDS = ['owner', 'token', 'apiKey'];
+
+function redact(value: unknown, fields: Set<string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, fields));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        fields.has(key.toLowerCase()) ? '[redacted]' : redact(item, fields),
+      ]),
+    );
+  }
+  return value;
+}
+
+// JSON with object keys sorted, so the same arguments given in another order
+// serialize the same.
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : item,
+  );
+}
+
+/**
+ * How dangerous a tool is, as judged by the tool executor, or undefined if it
+ * can't tell. Only results of tools judged `none` are cached.
+ */
+export type DangerLevelResolver = (serverName: string, tool: Tool) => DangerLevel | undefined;
+
+export interface ToolCacheStats {
+  hits: number;
+  misses: number;
+  // Results currently cached, not counting expired ones.
+  entries: number;
+}
+
+export interface ToolCallProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+// What a tool call was made for, so it can be traced back from the audit log.
+export interface ToolCallOrigin {
+  appId?: string;
+  planId?: string;
+  // Where the call was made from, e.g. `playground` for calls made by hand.
+  source?: string;
+}
+
+export interface ToolCallOptions {
+  // Aborting cancels the call, including on the server if it already started.
+  signal?: AbortSignal;
+  onProgress?: (progress: ToolCallProgress) => void;
+  origin?: ToolCallOrigin;
+}
+
+export interface ToolCallInfo {
+  callId: string;
+  serverName: string;
+  toolName: string;
+  startedAt: number;
+  progress?: ToolCallProgress;
+  // Place in the server's queue while waiting to run, 1 being next.
+  queuePosition?: number;
+}
+
+export type ToolCallEvent =
+  | { type: 'started'; call: ToolCallInfo }
+  | { type: 'progress'; callId: string; progress: ToolCallProgress }
+  // The call moved up its server's queue, or left it to run (no position).
+  | { type: 'queued'; callId: string; position?: number }
+  | {
+      type: 'finished';
+      callId: string;
+      status: 'completed' | 'failed' | 'cancelled';
+      error?: string;
+    };
+
+// A finished tool call, with its arguments redacted.
+export interface ToolCallRecord {
+  callId: string;
+  serverName: string;
+  toolName: string;
+  args: Record<string, unknown>;
+  status: 'completed' | 'failed' | 'cancelled';
+  // Answered from the result cache without reaching the server.
+  cached?: boolean;
+  result?: unknown;
+  error?: string;
+  startedAt: number;
+  finishedAt: number;
+  origin: ToolCallOrigin;
+}
+
+interface QueuedToolCall {
+  callId: string;
+  toolId: string;
+  params: Record<string, any>;
+  options: ToolCallOptions & { timeout?: number };
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
 }
 
 interface Tool {
+  // Fully qualified ID, `server/tool`, using the server's alias if it has one.
+  id: string;
   name: string;
   description?: string;
   inputSchema: any;
+  annotations?: ToolAnnotations;
   serverName: string;
 }
 
@@ -55,23 +361,66 @@ export class MCPHub {
   private static instance: MCPHub;
   private connections: Map<string, McpConnection> = new Map();
   private statusListeners: ((name: string, status: Omit<McpConnection, 'client' | 'transport'>) => void)[] = [];
-  private toolCallQueue: Map<string, Array<{
-    toolId: string;
-    params: Record<string, any>;
-    resolve: (value: any) => void;
-    reject: (error: Error) => void;
-  }>> = new Map();
+  private removalListeners: ((name: string) => void)[] = [];
+  private resourceUpdateListeners: ((serverName: string, uri: string) => void)[] = [];
+  private catalogListeners: ((serverName: string, kind: CatalogKind) => void)[] = [];
+  private serverLogs: Map<string, ServerLogEntry[]> = new Map();
+  // Log levels the user picked, re-applied whenever the server reconnects.
+  private logLevels: Map<string, LoggingLevel> = new Map();
+  private logListeners: ((serverName: string, entry: ServerLogEntry) => void)[] = [];
+  // Server name => resource uri => number of subscribers.
+  private resourceSubscriptions: Map<string, Map<string, number>> = new Map();
+  private samplingHandler: SamplingHandler | null = null;
+  private elicitationHandler: ElicitationHandler | null = null;
+  private dangerLevelResolver: DangerLevelResolver | null = null;
+  // Results of read-only tool calls by server, then by tool and arguments.
+  private resultCache: Map<string, Map<string, { result: unknown; expiresAt: number }>> = new Map();
+  private cacheStats: Map<string, { hits: number; misses: number }> = new Map();
+  // Directories servers may operate on, i.e. the app or srcbook the user has open.
+  private roots: Root[] = [];
+  private rootsListeners: ((roots: Root[]) => void)[] = [];
+  // Calls waiting for a free slot, per server, and how many are running.
+  private toolCallQueue: Map<string, QueuedToolCall[]> = new Map();
+  private runningToolCalls: Map<string, number> = new Map();
+  // Limits set at runtime on top of the configured maxConcurrentCalls.
+  private concurrencyLimits: Map<string, number> = new Map();
+  // The server that last got a slot, so the next one goes to another server.
+  private lastScheduledServer: string | null = null;
+  // In-flight tool calls by call id, so they can be listed and cancelled.
+  private activeToolCalls: Map<string, ToolCallInfo & { controller: AbortController }> = new Map();
+  private toolCallListeners: ((event: ToolCallEvent) => void)[] = [];
+  private toolCallRecordListeners: ((record: ToolCallRecord) => void)[] = [];
+  private sensitiveFields: Set<string> = new Set(
+    DEFAULT_SENSITIVE_FIELDS.map((field) => field.toLowerCase()),
+  );
 
   private initialized = false;
   private config!: McpConfig;
-  private allTools: Map<string, Tool[]> = new Map();
-  private toolsInitialized = false;
+  private configUpdate: Promise<void> = Promise.resolve();
+  private stopWatchingConfig: (() => void) | null = null;
+  private allTools: Map<string, Omit<Tool, 'id'>[]> = new Map();
   private connectionRetryAttempts: Map<string, number> = new Map();
-  private readonly MAX_RETRY_ATTEMPTS = 3;
-  private readonly RETRY_DELAY = 1000; // 1 second
-  private readonly CONNECTION_TIMEOUT = 10000; // 10 seconds
+  private supervisorOptions: SupervisorOptions = {
+    baseRestartDelay: 1000, // 1 second
+    maxRestartDelay: 60000, // 1 minute
+    healthCheckInterval: 30000, // 30 seconds
+    healthCheckTimeout: 5000, // 5 seconds
+    healthyInterval: 60000, // 1 minute
+  };
+  private supervisorStates: Map<string, SupervisorState & { timer?: NodeJS.Timeout }> = new Map();
+  private healthCheckTimer: NodeJS.Timeout | null = null;
+  // Defaults for servers and tools that don't configure their own settings.
+  private readonly DEFAULT_RETRIES = 2;
+  private readonly DEFAULT_RETRY_DELAY = 1000; // 1 second
+  private readonly DEFAULT_CONNECT_TIMEOUT = 10000; // 10 seconds
+  private readonly DEFAULT_CALL_TIMEOUT = 60000; // 1 minute
+  private readonly DEFAULT_LIST_TIMEOUT = 5000; // 5 seconds
+  private readonly DEFAULT_MAX_CONCURRENT_CALLS = 1;
+  private readonly DEFAULT_MAX_QUEUED_CALLS = 100;
+  // Oldest results are dropped past this many per server.
+  private readonly MAX_CACHED_RESULTS = 500;
+  // Calls running at once across all servers.
   private readonly MAX_CONCURRENT_OPERATIONS = 5;
-  private activeOperationCount = 0;
 
   private constructor() {
     console.log('Creating new MCPHub instance.');
@@ -97,6 +446,8 @@ export class MCPHub {
     }
 
     this.config = await loadMcpConfig();
+    this.watchConfig();
+
     if (!this.config.mcpServers) {
       this.initialized = true;
       console.warn('No MCP servers configured.');
@@ -110,18 +461,151 @@ export class MCPHub {
       );
 
       await Promise.all(
-        Object.entries(this.config.mcpServers).map(([name]) =>
-          this.ensureConnection(name).catch((error) => {
-            console.error(`Failed to connect to server ${name}:`, error);
-          }),
-        ),
+        Object.entries(this.config.mcpServers)
+          .filter(([name, serverConfig]) => {
+            if (serverConfig.disabled) {
+              console.log(`Skipping disabled server: ${name}`);
+            }
+            return !serverConfig.disabled;
+          })
+          .map(([name]) =>
+            this.ensureConnection(name).catch((error) => {
+              console.error(`Failed to connect to server ${name}:`, error);
+            }),
+          ),
       );
     } finally {
       this.initialized = true;
+      this.startSupervisor();
       console.log('MCPHub initialization complete.');
     }
   }
 
+  /**
+   * Tune how dead servers are restarted and how often servers are health
+   * checked. Options that aren't given keep their current values.
+   */
+  configureSupervisor(options: Partial<SupervisorOptions>) {
+    this.supervisorOptions = { ...this.supervisorOptions, ...options };
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = null;
+      this.startSupervisor();
+    }
+  }
+
+  private startSupervisor() {
+    if (this.healthCheckTimer) return;
+    this.healthCheckTimer = setInterval(
+      () => this.checkHealth(),
+      this.supervisorOptions.healthCheckInterval,
+    );
+    // Supervision shouldn't keep the process alive on its own.
+    this.healthCheckTimer.unref();
+  }
+
+  private getSupervisorState(name: string) {
+    let state = this.supervisorStates.get(name);
+    if (!state) {
+      state = { restarts: 0 };
+      this.supervisorStates.set(name, state);
+    }
+    return state;
+  }
+
+  /**
+   * Restart a server that died or failed to connect, after a delay that backs
+   * off exponentially with every restart that doesn't stick.
+   */
+  private scheduleRestart(name: string) {
+    const serverConfig = this.config?.mcpServers[name];
+    if (!serverConfig || serverConfig.disabled) return;
+
+    const state = this.getSupervisorState(name);
+    if (state.timer) return;
+
+    const { baseRestartDelay, maxRestartDelay } = this.supervisorOptions;
+    const backoff = Math.min(maxRestartDelay, baseRestartDelay * 2 ** state.restarts);
+    // Jitter so servers that went down together don't all restart at once.
+    const delay = Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+
+    console.log(`Restarting server ${name} in ${delay}ms (restart ${state.restarts + 1})`);
+    state.nextRestartAt = Date.now() + delay;
+    state.timer = setTimeout(() => this.restartServer(name), delay);
+    state.timer.unref();
+  }
+
+  private cancelRestart(name: string) {
+    const state = this.supervisorStates.get(name);
+    if (!state?.timer) return;
+    clearTimeout(state.timer);
+    state.timer = undefined;
+    state.nextRestartAt = undefined;
+  }
+
+  private async restartServer(name: string) {
+    const state = this.getSupervisorState(name);
+    state.timer = undefined;
+    state.nextRestartAt = undefined;
+
+    // Something else may have brought the server back in the meantime.
+    if (this.connections.get(name)?.status === 'connected') return;
+
+    state.restarts++;
+    try {
+      await this.connectServer(name);
+    } catch (error) {
+      // connectServer schedules the next attempt.
+      console.error(`Restart of server ${name} failed:`, error);
+    }
+  }
+
+  /**
+   * Ping every connected server. Servers that don't answer are restarted, and
+   * ones that have been healthy long enough get a clean slate of attempts.
+   */
+  private async checkHealth() {
+    const { healthCheckTimeout, healthyInterval } = this.supervisorOptions;
+
+    await Promise.all(
+      Array.from(this.connections.entries())
+        .filter(([, conn]) => conn.status === 'connected')
+        .map(async ([name, conn]) => {
+          const startedAt = Date.now();
+          try {
+            await conn.client.ping({ timeout: healthCheckTimeout });
+          } catch (error) {
+            if (conn.status === 'connected') {
+              const message = error instanceof Error ? error.message : String(error);
+              console.warn(`Health check failed for server ${name}:`, message);
+              this.handleConnectionLost(name, conn, `Health check failed: ${message}`);
+            }
+            return;
+          }
+
+          const state = this.getSupervisorState(name);
+          state.lastPingAt = Date.now();
+          state.lastPingLatency = state.lastPingAt - startedAt;
+
+          if (Date.now() - (conn.lastSuccessfulConnection ?? Infinity) >= healthyInterval) {
+            state.restarts = 0;
+            this.connectionRetryAttempts.set(name, 0);
+          }
+        }),
+    );
+  }
+
+  private handleConnectionLost(name: string, conn: McpConnection, error: string) {
+    conn.status = 'disconnected';
+    conn.error = error;
+    this.notifyStatusChange(name, conn);
+
+    // Connections that were since replaced are someone else's business.
+    if (this.connections.get(name) === conn) {
+      this.scheduleRestart(name);
+    }
+  }
+
   private async ensureConnection(name: string): Promise<void> {
     const conn = this.connections.get(name);
     if (conn?.status === 'connected') {
@@ -129,8 +613,9 @@ export class MCPHub {
     }
 
     const attempts = this.connectionRetryAttempts.get(name) || 0;
-    if (attempts >= this.MAX_RETRY_ATTEMPTS) {
-      throw new Error(`Max retry attempts (${this.MAX_RETRY_ATTEMPTS}) reached for server ${name}`);
+    const maxAttempts = this.getCallSettings(name).retries + 1;
+    if (attempts >= maxAttempts) {
+      throw new Error(`Max retry attempts (${maxAttempts}) reached for server ${name}`);
     }
 
     try {
@@ -154,7 +639,11 @@ export class MCPHub {
         version: '1.0.0',
       },
       {
-        capabilities: {},
+        capabilities: {
+          sampling: {},
+          elicitation: {},
+          roots: { listChanged: true },
+        },
       },
     );
 
@@ -163,27 +652,62 @@ export class MCPHub {
       throw new Error(`No configuration found for server: ${name}`);
     }
 
-    const filteredEnv: Record<string, string> = Object.fromEntries(
-      Object.entries(process.env).filter(([_, val]) => val !== undefined),
-    ) as Record<string, string>;
+    client.setNotificationHandler(LoggingMessageNotificationSchema, ({ params }) => {
+      const { level, logger, data } = params;
+      // Not every server filters by the level it was given, so do it here too.
+      const minimum = this.logLevels.get(name);
+      if (minimum && LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minimum)) {
+        return;
+      }
+      this.appendLog(name, {
+        timestamp: Date.now(),
+        source: 'server',
+        level,
+        logger,
+        message: typeof data === 'string' ? data : JSON.stringify(data),
+      });
+    });
 
-    const mergedEnv = {
-      ...filteredEnv,
-      ...(serverConfig.env || {}),
-    };
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      for (const listener of this.resourceUpdateListeners) {
+        listener(name, notification.params.uri);
+      }
+    });
 
-    const transport = new StdioClientTransport({
-      command: serverConfig.command,
-      args: serverConfig.args,
-      env: mergedEnv,
-      stderr: 'pipe',
+    // Servers may add or remove tools, resources and prompts while running.
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      if (this.connections.get(name)?.client === client) {
+        await this.refreshTools(name);
+      }
+    });
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      this.notifyCatalogChanged(name, 'resources');
+    });
+    client.setNotificationHandler(PromptListChangedNotificationSchema, () => {
+      this.notifyCatalogChanged(name, 'prompts');
     });
 
-    if (transport.stderr) {
-      transport.stderr.on('data', (data: Buffer) => {
-        console.error(`[${name} stderr] ${data.toString()}`);
-      });
-    }
+    client.setRequestHandler(ListRootsRequestSchema, () => ({ roots: this.roots }));
+
+    client.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+      this.handleSamplingRequest(name, request.params, extra.signal),
+    );
+
+    client.setRequestHandler(ElicitRequestSchema, (request, extra) =>
+      this.handleElicitationRequest(name, request.params, extra.signal),
+    );
+
+    // Secrets are looked up each time the server starts, so their values are
+    // never kept in the config. If that or setting up the sandbox fails, so
+    // does connecting below.
+    const params = isHttpServerConfig(serverConfig)
+      ? undefined
+      : await this.prepareLaunch(name, serverConfig).catch((error: Error) => error);
+    const transport = this.createTransport(
+      name,
+      serverConfig,
+      params instanceof Error ? undefined : params,
+    );
 
     const conn: McpConnection = {
       client,
@@ -197,85 +721,89 @@ export class MCPHub {
 
     transport.onerror = async (error) => {
       if (conn.status !== 'disconnected') {
-        conn.status = 'disconnected';
-        conn.error = error.message;
-        this.notifyStatusChange(name, conn);
         console.error(`Transport error for server ${name}:`, error.message);
+        this.handleConnectionLost(name, conn, error.message);
       }
     };
 
     transport.onclose = async () => {
       if (conn.status !== 'disconnected') {
-        conn.status = 'disconnected';
-        conn.error = 'Transport closed unexpectedly.';
-        this.notifyStatusChange(name, conn);
         console.warn(`Transport closed for server ${name}`);
+        this.handleConnectionLost(name, conn, 'Transport closed unexpectedly.');
       }
     };
 
     try {
       console.log(`Attempting to connect to server: ${name}`);
-      console.log(
-        `Command: ${serverConfig.command} ${serverConfig.args ? serverConfig.args.join(' ') : ''}`,
-      );
-      console.log(`Environment Variables:`, serverConfig.env || {});
+      console.log(`Endpoint: ${describeServerConfig(serverConfig)}`);
+      if (!isHttpServerConfig(serverConfig)) {
+        // Only the names, the values may be credentials.
+        console.log(`Environment Variables:`, [
+          ...(serverConfig.inheritEnv ?? []),
+          ...Object.keys(serverConfig.env ?? {}),
+        ]);
+      }
+      if (params instanceof Error) {
+        throw params;
+      }
 
+      const connectTimeout = serverConfig.connectTimeout ?? this.DEFAULT_CONNECT_TIMEOUT;
       const connectPromise = client.connect(transport);
+      let timer: NodeJS.Timeout | undefined;
       const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error(`Connection timeout for server ${name}`)), this.CONNECTION_TIMEOUT);
+        timer = setTimeout(
+          () => reject(new McpTimeoutError(name, 'connect', connectTimeout)),
+          connectTimeout,
+        );
       });
 
-      await Promise.race([connectPromise, timeoutPromise]);
+      try {
+        await Promise.race([connectPromise, timeoutPromise]);
+      } finally {
+        clearTimeout(timer);
+      }
 
       console.log(`Successfully connected to server: ${name}`);
+      this.cancelRestart(name);
       conn.status = 'connected';
       conn.error = undefined;
       conn.lastSuccessfulConnection = Date.now();
       this.notifyStatusChange(name, conn);
 
-      const clientInfo: ClientInfo = {
-        name: 'Srcbook',
-        version: '1.0.0',
-        description: 'Srcbook MCP Client',
-      };
-
-      const initializeResponse = await client.request(
-        {
-          method: 'initialize',
-          params: {
-            protocolVersion: '1.0',
-            capabilities: {},
-            clientInfo,
-          },
-        },
-        InitializeResultSchema,
-      );
+      // The SDK performs the initialize handshake as part of connect(), so the
+      // negotiated capabilities are already available. Sending a second
+      // initialize is rejected by Streamable HTTP servers.
+      const serverCapabilities = client.getServerCapabilities();
 
-      if (initializeResponse && initializeResponse.capabilities) {
+      if (serverCapabilities) {
         conn.capabilities = {
-          tools: !!initializeResponse.capabilities.tools,
-          resources: !!initializeResponse.capabilities.resources,
-          resourceTemplates: !!initializeResponse.capabilities.resourceTemplates,
+          tools: !!serverCapabilities.tools,
+          resources: !!serverCapabilities.resources,
+          // Resource templates are listed under the resources capability.
+          resourceTemplates: !!serverCapabilities.resources,
+          resourceSubscribe: !!serverCapabilities.resources?.subscribe,
+          prompts: !!serverCapabilities.prompts,
+          logging: !!serverCapabilities.logging,
+          completions: !!serverCapabilities.completions,
         };
         console.log(`Server ${name} capabilities:`, conn.capabilities);
       } else {
         console.warn(`No capabilities received from server ${name}.`);
       }
 
-      if (conn.capabilities.tools) {
+      const logLevel = this.logLevels.get(name);
+      if (logLevel && conn.capabilities.logging) {
         try {
-          const tools = await this.listTools(name);
-          console.log(`Tools on server ${name}:`, tools);
-          const toolsWithServer = tools.map(tool => ({
-            ...tool,
-            serverName: name
-          }));
-          this.allTools.set(name, toolsWithServer);
+          await client.setLoggingLevel(logLevel);
         } catch (error) {
-          console.error(`Error listing tools on server ${name}:`, error);
+          console.error(`Error setting log level on server ${name}:`, error);
         }
       }
 
+      if (conn.capabilities.tools) {
+        await this.refreshTools(name);
+      }
+
       if (conn.capabilities.resources) {
         try {
           const resources = await this.listResources(name);
@@ -293,19 +821,84 @@ export class MCPHub {
           console.error(`Error listing resource templates on server ${name}:`, error);
         }
       }
+
+      await this.restoreResourceSubscriptions(name);
     } catch (err: any) {
       console.error(`Error connecting to server ${name}:`, err);
-      conn.status = 'disconnected';
-      conn.error = err instanceof Error ? err.message : String(err);
-      this.notifyStatusChange(name, conn);
+      this.handleConnectionLost(name, conn, err instanceof Error ? err.message : String(err));
       throw err;
     }
   }
 
+  private async resolveEnv(name: string, env: Record<string, string>) {
+    const names = findSecretReferences(env);
+    if (names.length === 0) {
+      return env;
+    }
+    return resolveSecretReferences(name, env, await loadSecrets(names));
+  }
+
+  private async prepareLaunch(
+    name: string,
+    serverConfig: McpStdioServerConfig,
+  ): Promise<StdioServerParameters> {
+    await checkWorkingDirectory(name, serverConfig.cwd);
+    return {
+      command: serverConfig.command,
+      args: sandboxArgs(name, serverConfig),
+      env: {
+        ...inheritedEnv(serverConfig.inheritEnv),
+        ...(await this.resolveEnv(name, serverConfig.env ?? {})),
+      },
+      cwd: serverConfig.cwd,
+    };
+  }
+
+  private createTransport(
+    name: string,
+    serverConfig: McpServerConfig,
+    params?: StdioServerParameters,
+  ): Transport {
+    if (isHttpServerConfig(serverConfig)) {
+      const url = new URL(serverConfig.url);
+      const requestInit: RequestInit = { headers: serverConfig.headers };
+
+      return serverConfig.transport === 'sse'
+        ? new SSEClientTransport(url, { requestInit })
+        : new StreamableHTTPClientTransport(url, { requestInit });
+    }
+
+    // Without params the server failed to prepare and is never started.
+    const transport = new StdioClientTransport({
+      ...(params ?? { command: serverConfig.command }),
+      stderr: 'pipe',
+    });
+
+    if (transport.stderr) {
+      // Chunks don't line up with lines, so hold on to a trailing partial line.
+      let partial = '';
+      transport.stderr.on('data', (data: Buffer) => {
+        console.error(`[${name} stderr] ${data.toString()}`);
+        const lines = (partial + data.toString()).split(/\r?\n/);
+        partial = lines.pop()!;
+        for (const line of lines.filter((line) => line.trim() !== '')) {
+          this.appendLog(name, { timestamp: Date.now(), source: 'stderr', message: line });
+        }
+      });
+    }
+
+    return transport;
+  }
+
   private async disconnectServer(name: string): Promise<void> {
     const conn = this.connections.get(name);
     if (!conn) return;
 
+    // Mark the connection as disconnected first so the transport's close
+    // handler doesn't report this intentional shutdown as an error.
+    conn.status = 'disconnected';
+    this.cancelRestart(name);
+
     try {
       await conn.transport.close();
       await conn.client.close();
@@ -314,41 +907,131 @@ export class MCPHub {
       console.error(`Error disconnecting from server ${name}:`, error);
     }
     this.connections.delete(name);
+    this.allTools.delete(name);
+    this.resultCache.delete(name);
+  }
+
+  /**
+   * How many calls a server may run at once: the lower of its configured
+   * maxConcurrentCalls and any limit set with setMaxConcurrentCalls.
+   */
+  getMaxConcurrentCalls(serverName: string): number {
+    const limits = [
+      this.config?.mcpServers[serverName]?.maxConcurrentCalls,
+      this.concurrencyLimits.get(serverName),
+    ].filter((limit): limit is number => limit !== undefined);
+    return limits.length > 0 ? Math.min(...limits) : this.DEFAULT_MAX_CONCURRENT_CALLS;
+  }
+
+  /**
+   * Cap a server's parallel calls below what its config allows, e.g. because
+   * its tools aren't safe to run side by side. Pass undefined to lift the cap.
+   */
+  setMaxConcurrentCalls(serverName: string, limit: number | undefined) {
+    if (limit === undefined) {
+      this.concurrencyLimits.delete(serverName);
+    } else {
+      this.concurrencyLimits.set(serverName, limit);
+    }
+    this.scheduleToolCalls();
   }
 
   private async enqueueToolCall(
-    serverName: string, 
-    toolId: string, 
-    params: Record<string, any>
+    serverName: string,
+    callId: string,
+    toolId: string,
+    params: Record<string, any>,
+    options: ToolCallOptions & { timeout?: number } = {}
   ): Promise<any> {
-    if (this.activeOperationCount >= this.MAX_CONCURRENT_OPERATIONS) {
-      throw { type: 'overloaded_error', message: 'Too many concurrent operations. Please try again later.' };
-    }
+    const queue = this.toolCallQueue.get(serverName) || [];
+    const maxQueuedCalls =
+      this.config.mcpServers[serverName]?.maxQueuedCalls ?? this.DEFAULT_MAX_QUEUED_CALLS;
 
     return new Promise((resolve, reject) => {
-      const queue = this.toolCallQueue.get(serverName) || [];
-      queue.push({ toolId, params, resolve, reject });
+      const call = { callId, toolId, params, options, resolve, reject };
+      queue.push(call);
       this.toolCallQueue.set(serverName, queue);
 
-      if (queue.length === 1) {
-        this.processNextToolCall(serverName);
+      // A call cancelled while still waiting is dropped without reaching the
+      // server. Running calls are cancelled by the client.
+      options.signal?.addEventListener('abort', () => {
+        const index = queue.indexOf(call);
+        if (index !== -1) {
+          queue.splice(index, 1);
+          this.updateQueuePositions(serverName);
+          reject(options.signal!.reason);
+        }
+      }, { once: true });
+
+      this.scheduleToolCalls();
+
+      // Only calls that have to wait count against the limit, so with
+      // maxQueuedCalls 0 calls still run while there are free slots.
+      const position = queue.indexOf(call);
+      if (position >= maxQueuedCalls) {
+        queue.splice(position, 1);
+        reject(new McpQueueFullError(serverName, maxQueuedCalls));
+        return;
       }
+      this.updateQueuePositions(serverName);
     });
   }
 
-  private async processNextToolCall(serverName: string): Promise<void> {
+  /**
+   * Start waiting calls while there are free slots. Servers take turns, so a
+   * busy server can't hold every slot while others wait.
+   */
+  private scheduleToolCalls() {
+    let runningTotal = Array.from(this.runningToolCalls.values()).reduce((a, b) => a + b, 0);
+
+    while (runningTotal < this.MAX_CONCURRENT_OPERATIONS) {
+      const serverName = this.nextServerToSchedule();
+      if (!serverName) break;
+
+      const call = this.toolCallQueue.get(serverName)!.shift()!;
+      this.lastScheduledServer = serverName;
+      runningTotal++;
+      this.runToolCall(serverName, call);
+      this.updateQueuePositions(serverName);
+    }
+  }
+
+  // The first server after the last scheduled one with a call waiting and a free slot.
+  private nextServerToSchedule(): string | undefined {
+    const names = Array.from(this.toolCallQueue.keys());
+    const start = names.indexOf(this.lastScheduledServer ?? '') + 1;
+    const ordered = [...names.slice(start), ...names.slice(0, start)];
+
+    return ordered.find(
+      (name) =>
+        this.toolCallQueue.get(name)!.length > 0 &&
+        (this.runningToolCalls.get(name) ?? 0) < this.getMaxConcurrentCalls(name),
+    );
+  }
+
+  // Tell listeners where each waiting call now is in its server's queue.
+  private updateQueuePositions(serverName: string) {
     const queue = this.toolCallQueue.get(serverName) || [];
-    const currentCall = queue[0];
-    if (!currentCall) return;
+    queue.forEach((call, index) => this.setQueuePosition(call.callId, index + 1));
+  }
 
-    const conn = this.connections.get(serverName);
-    if (!conn) {
-      currentCall.reject(new Error(`No connection found for server: ${serverName}`));
-      return;
-    }
+  private setQueuePosition(callId: string, position: number | undefined) {
+    const active = this.activeToolCalls.get(callId);
+    if (!active || active.queuePosition === position) return;
+    active.queuePosition = position;
+    this.notifyToolCall({ type: 'queued', callId, position });
+  }
+
+  private async runToolCall(serverName: string, currentCall: QueuedToolCall): Promise<void> {
+    this.runningToolCalls.set(serverName, (this.runningToolCalls.get(serverName) ?? 0) + 1);
+    this.setQueuePosition(currentCall.callId, undefined);
 
+    const conn = this.connections.get(serverName);
     try {
-      this.activeOperationCount++;
+      if (!conn) {
+        throw new Error(`No connection found for server: ${serverName}`);
+      }
+
       console.log(`[${new Date().toISOString()}] 🔧 Executing tool call:`, {
         serverName,
         toolId: currentCall.toolId,
@@ -356,10 +1039,23 @@ export class MCPHub {
         connectionStatus: conn.status
       });
 
-      const result = await conn.client.callTool({
-        name: currentCall.toolId,
-        arguments: currentCall.params,
-      });
+      const { signal, onProgress, timeout } = currentCall.options;
+      // Passing onprogress makes the client send a progressToken, and aborting
+      // the signal or timing out sends notifications/cancelled to the server.
+      const result = await conn.client.callTool(
+        {
+          name: currentCall.toolId,
+          arguments: currentCall.params,
+        },
+        undefined,
+        {
+          signal,
+          timeout,
+          onprogress: onProgress,
+          // A tool that keeps reporting progress is still working.
+          resetTimeoutOnProgress: true,
+        },
+      );
       currentCall.resolve(result);
     } catch (error) {
       console.error(`[${new Date().toISOString()}] ❌ Tool call error:`, {
@@ -370,25 +1066,21 @@ export class MCPHub {
         } : error,
         serverName,
         toolId: currentCall.toolId,
-        transportStatus: conn.status,
-        connectionStatus: conn.status
+        transportStatus: conn?.status,
+        connectionStatus: conn?.status
       });
       currentCall.reject(error as Error);
     } finally {
-      this.activeOperationCount--;
-      queue.shift();
-      this.toolCallQueue.set(serverName, queue);
-      
-      if (queue.length > 0) {
-        await this.processNextToolCall(serverName);
-      }
+      this.runningToolCalls.set(serverName, this.runningToolCalls.get(serverName)! - 1);
+      this.scheduleToolCalls();
     }
   }
 
   async callTool(
     serverName: string,
     toolId: string,
-    params: Record<string, any>
+    params: Record<string, any>,
+    options: ToolCallOptions = {}
   ): Promise<any> {
     const timestamp = new Date().toISOString();
     console.log(`[${timestamp}] 📝 Tool call requested:`, {
@@ -397,6 +1089,56 @@ export class MCPHub {
       params: JSON.stringify(params, null, 2)
     });
 
+    // Cache hits never reach the server, so they aren't reported as running
+    // calls. They are still recorded in the audit log.
+    const cacheTtl = this.getCacheTtl(serverName, toolId);
+    const cacheKey = `${toolId}:${canonicalJson(params)}`;
+    if (cacheTtl !== undefined) {
+      const cached = this.getCachedResult(serverName, cacheKey);
+      if (cached !== undefined) {
+        console.log(`[${timestamp}] 💾 Tool call answered from cache`);
+        const now = Date.now();
+        this.notifyToolCallRecord({
+          callId: randomid(),
+          serverName,
+          toolName: toolId,
+          args: redact(params, this.sensitiveFields) as Record<string, unknown>,
+          status: 'completed',
+          cached: true,
+          result: cached,
+          startedAt: now,
+          finishedAt: now,
+          origin: options.origin ?? {},
+        });
+        return cached;
+      }
+    }
+
+    const call = {
+      callId: randomid(),
+      serverName,
+      toolName: toolId,
+      startedAt: Date.now(),
+      controller: new AbortController(),
+    };
+    const { signal } = call.controller;
+    options.signal?.addEventListener('abort', () => this.cancelToolCall(call.callId), {
+      once: true,
+    });
+    const onProgress = (progress: ToolCallProgress) => {
+      const active = this.activeToolCalls.get(call.callId);
+      if (!active) return;
+      active.progress = progress;
+      this.notifyToolCall({ type: 'progress', callId: call.callId, progress });
+      options.onProgress?.(progress);
+    };
+
+    this.activeToolCalls.set(call.callId, call);
+    this.notifyToolCall({ type: 'started', call: this.describeToolCall(call) });
+    if (options.signal?.aborted) {
+      this.cancelToolCall(call.callId);
+    }
+
     // Import trackOperation function
     const { trackOperation } = await import('../dev-server.mjs');
 
@@ -431,11 +1173,18 @@ export class MCPHub {
       }
 
       // Execute tool call with retry logic
+      const settings = this.getCallSettings(serverName, toolId);
+      const maxAttempts = settings.retries + 1;
       let lastError: Error | undefined;
-      for (let attempt = 0; attempt < this.MAX_RETRY_ATTEMPTS; attempt++) {
+      for (let attempt = 0; attempt < maxAttempts; attempt++) {
         try {
-          console.log(`[${timestamp}] 🔄 Attempting tool call (attempt ${attempt + 1}/${this.MAX_RETRY_ATTEMPTS})`);
-          const result = await this.enqueueToolCall(serverName, toolId, params);
+          console.log(`[${timestamp}] 🔄 Attempting tool call (attempt ${attempt + 1}/${maxAttempts})`);
+          signal.throwIfAborted();
+          const result = await this.enqueueToolCall(serverName, call.callId, toolId, params, {
+            signal,
+            onProgress,
+            timeout: settings.timeout,
+          });
           console.log(`[${timestamp}] ✅ Tool call completed:`, {
             serverName,
             toolId,
@@ -443,14 +1192,27 @@ export class MCPHub {
           });
           return result;
         } catch (error) {
+          if (signal.aborted) {
+            throw signal.reason;
+          }
+          // The tool may still be running on the server, so don't retry it.
+          if (isRequestTimeout(error)) {
+            const timeoutError = new McpTimeoutError(serverName, 'call_tool', settings.timeout, toolId);
+            console.error(`[${timestamp}] ⏱️ ${timeoutError.message}`);
+            throw timeoutError;
+          }
+          // Retrying would only queue the call behind the same waiting calls.
+          if (error instanceof McpQueueFullError) {
+            throw error;
+          }
           lastError = error instanceof Error ? error : new Error(String(error));
           console.error(`[${timestamp}] ⚠️ Tool call attempt ${attempt + 1} failed:`, {
             error: lastError,
-            willRetry: attempt < this.MAX_RETRY_ATTEMPTS - 1
+            willRetry: attempt < maxAttempts - 1
           });
 
-          if (attempt < this.MAX_RETRY_ATTEMPTS - 1) {
-            await new Promise(resolve => setTimeout(resolve, this.RETRY_DELAY));
+          if (attempt < maxAttempts - 1) {
+            await new Promise(resolve => setTimeout(resolve, settings.retryDelay));
             // Try to re-establish connection if needed
             await this.ensureConnection(serverName);
           }
@@ -459,13 +1221,48 @@ export class MCPHub {
 
       // If we get here, all attempts failed
       const enhancedError = new Error(
-        `Failed to execute tool '${toolId}' on server '${serverName}' after ${this.MAX_RETRY_ATTEMPTS} attempts: ${lastError?.message}\n` +
+        `Failed to execute tool '${toolId}' on server '${serverName}' after ${maxAttempts} attempts: ${lastError?.message}\n` +
         `Server status: ${conn.status}\n` +
         `Connection error: ${conn.error || 'none'}`
       );
       throw enhancedError;
     })();
 
+    const finish = (
+      status: ToolCallRecord['status'],
+      outcome: Pick<ToolCallRecord, 'result' | 'error'>,
+    ) => {
+      this.finishToolCall(call.callId, status, outcome.error);
+      this.notifyToolCallRecord({
+        callId: call.callId,
+        serverName,
+        toolName: toolId,
+        args: redact(params, this.sensitiveFields) as Record<string, unknown>,
+        status,
+        ...outcome,
+        startedAt: call.startedAt,
+        finishedAt: Date.now(),
+        origin: options.origin ?? {},
+      });
+    };
+    operation.then(
+      (result) => {
+        if (!result?.isError) {
+          if (cacheTtl !== undefined) {
+            this.cacheResult(serverName, cacheKey, result, cacheTtl);
+          } else if (!this.isReadOnlyTool(serverName, toolId)) {
+            // A write may change what the server's read-only tools return.
+            this.clearCache(serverName);
+          }
+        }
+        finish('completed', { result });
+      },
+      (error) =>
+        finish(signal.aborted ? 'cancelled' : 'failed', {
+          error: error instanceof Error ? error.message : String(error),
+        }),
+    );
+
     // Track the operation
     trackOperation(operation);
 
@@ -473,6 +1270,126 @@ export class MCPHub {
     return operation;
   }
 
+  /**
+   * Cancel an in-flight tool call. Returns false if no such call is running.
+   */
+  cancelToolCall(callId: string): boolean {
+    const call = this.activeToolCalls.get(callId);
+    if (!call) {
+      return false;
+    }
+    console.log(`Cancelling tool call ${call.toolName} on server ${call.serverName}`);
+    call.controller.abort(new Error(`Tool call '${call.toolName}' was cancelled`));
+    return true;
+  }
+
+  listToolCalls(): ToolCallInfo[] {
+    return Array.from(this.activeToolCalls.values()).map((call) => this.describeToolCall(call));
+  }
+
+  onToolCall(listener: (event: ToolCallEvent) => void) {
+    this.toolCallListeners.push(listener);
+  }
+
+  /**
+   * Listen for tool calls as they finish, e.g. to keep an audit log. The
+   * arguments have their sensitive fields redacted.
+   */
+  onToolCallRecord(listener: (record: ToolCallRecord) => void) {
+    this.toolCallRecordListeners.push(listener);
+  }
+
+  setDangerLevelResolver(resolver: DangerLevelResolver) {
+    this.dangerLevelResolver = resolver;
+  }
+
+  // Names alone let tools like update_issue through, so the server has to
+  // say the tool is read-only too.
+  private isReadOnlyTool(serverName: string, toolName: string): boolean {
+    const tool = this.findTool(serverName, toolName);
+    return (
+      tool?.annotations?.readOnlyHint === true &&
+      this.dangerLevelResolver?.(serverName, tool) === 'none'
+    );
+  }
+
+  /**
+   * How long the tool's results may be cached, if at all: only read-only
+   * tools on servers with a cacheTtl are.
+   */
+  private getCacheTtl(serverName: string, toolName: string): number | undefined {
+    const ttl = this.config?.mcpServers[serverName]?.cacheTtl;
+    return ttl && this.isReadOnlyTool(serverName, toolName) ? ttl : undefined;
+  }
+
+  private getCachedResult(serverName: string, key: string): unknown {
+    const stats = this.cacheStats.get(serverName) ?? { hits: 0, misses: 0 };
+    this.cacheStats.set(serverName, stats);
+
+    const cache = this.resultCache.get(serverName);
+    const entry = cache?.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      stats.hits++;
+      return entry.result;
+    }
+    cache?.delete(key);
+    stats.misses++;
+    return undefined;
+  }
+
+  private cacheResult(serverName: string, key: string, result: unknown, ttl: number) {
+    const cache = this.resultCache.get(serverName) ?? new Map();
+    cache.delete(key);
+    cache.set(key, { result, expiresAt: Date.now() + ttl });
+    if (cache.size > this.MAX_CACHED_RESULTS) {
+      cache.delete(cache.keys().next().value);
+    }
+    this.resultCache.set(serverName, cache);
+  }
+
+  clearCache(serverName: string) {
+    this.resultCache.delete(serverName);
+  }
+
+  getCacheStats(serverName: string): ToolCacheStats {
+    const { hits, misses } = this.cacheStats.get(serverName) ?? { hits: 0, misses: 0 };
+    const now = Date.now();
+    const entries = Array.from(this.resultCache.get(serverName)?.values() ?? []).filter(
+      (entry) => entry.expiresAt > now,
+    ).length;
+    return { hits, misses, entries };
+  }
+
+  // Argument names to redact from tool call records, replacing the defaults.
+  setSensitiveFields(fields: string[]) {
+    this.sensitiveFields = new Set(fields.map((field) => field.toLowerCase()));
+  }
+
+  private describeToolCall({ controller: _controller, ...info }: ToolCallInfo & { controller: AbortController }): ToolCallInfo {
+    return info;
+  }
+
+  private finishToolCall(
+    callId: string,
+    status: 'completed' | 'failed' | 'cancelled',
+    error?: string,
+  ) {
+    this.activeToolCalls.delete(callId);
+    this.notifyToolCall({ type: 'finished', callId, status, error });
+  }
+
+  private notifyToolCall(event: ToolCallEvent) {
+    for (const listener of this.toolCallListeners) {
+      listener(event);
+    }
+  }
+
+  private notifyToolCallRecord(record: ToolCallRecord) {
+    for (const listener of this.toolCallRecordListeners) {
+      listener(record);
+    }
+  }
+
   async listTools(serverName: string): Promise<z.infer<typeof ListToolsResultSchema>['tools']> {
     const conn = this.connections.get(serverName);
     if (!conn || conn.status !== 'connected') {
@@ -487,27 +1404,113 @@ export class MCPHub {
 
     console.log(`Requesting tools list from server ${serverName}...`);
 
-    const controller = new AbortController();
-    const timeout = setTimeout(() => {
-      controller.abort();
-    }, 5000);
+    const timeout = this.getServerConfig(serverName)?.timeout ?? this.DEFAULT_LIST_TIMEOUT;
 
     try {
-      const response = await conn.client.request({ method: 'tools/list' }, ListToolsResultSchema);
-      clearTimeout(timeout);
+      const response = await conn.client.request({ method: 'tools/list' }, ListToolsResultSchema, {
+        timeout,
+      });
       console.log(`Received tools list from server ${serverName}:`, response.tools);
       return response.tools || [];
     } catch (error: any) {
-      clearTimeout(timeout);
-      if (error.name === 'AbortError') {
-        console.error(`Timeout while listing tools on server ${serverName}.`);
+      // A server that fails to answer isn't the same as one without tools, so
+      // let callers tell the two apart.
+      if (isRequestTimeout(error)) {
+        const timeoutError = new McpTimeoutError(serverName, 'list_tools', timeout);
+        console.error(timeoutError.message);
+        throw timeoutError;
+      }
+      console.error(`Error listing tools on server ${serverName}:`, error);
+      throw error;
+    }
+  }
+
+  async listPrompts(serverName: string): Promise<ListPromptsResult['prompts']> {
+    const conn = this.connections.get(serverName);
+    if (!conn || conn.status !== 'connected') {
+      return [];
+    }
+
+    if (!conn.capabilities.prompts) {
+      return [];
+    }
+
+    try {
+      const response = await conn.client.listPrompts();
+      return response.prompts || [];
+    } catch (error: any) {
+      if (error.code === -32601) {
+        console.warn(`Method 'prompts/list' not found on server ${serverName}.`);
       } else {
-        console.error(`Error listing tools on server ${serverName}:`, error);
+        console.error(`Error listing prompts on server ${serverName}:`, error);
       }
       return [];
     }
   }
 
+  async getPrompt(
+    serverName: string,
+    name: string,
+    args: Record<string, string> = {},
+  ): Promise<GetPromptResult> {
+    const conn = this.connections.get(serverName);
+    if (!conn || conn.status !== 'connected') {
+      throw new Error(`Server ${serverName} is not connected`);
+    }
+
+    if (!conn.capabilities.prompts) {
+      throw new Error(`Server ${serverName} does not support prompts`);
+    }
+
+    return conn.client.getPrompt({ name, arguments: args });
+  }
+
+  /**
+   * Suggest values for an argument of a prompt, resource template or tool,
+   * given what has been typed so far and the other arguments' values. Servers
+   * that don't support completion suggest nothing.
+   */
+  async complete(
+    serverName: string,
+    ref: McpCompletionRefType,
+    argument: { name: string; value: string },
+    context: Record<string, string> = {},
+  ): Promise<CompleteResult['completion']> {
+    const conn = this.connections.get(serverName);
+    if (!conn || conn.status !== 'connected') {
+      throw new Error(`Server ${serverName} is not connected`);
+    }
+
+    // MCP only completes prompt and resource template arguments, so tool
+    // arguments are completed from the enum or examples in their schema.
+    if (ref.type === 'ref/tool') {
+      const schema = this.findTool(serverName, ref.name)?.inputSchema?.properties?.[argument.name];
+      const prefix = argument.value.toLowerCase();
+      const values = [
+        ...(Array.isArray(schema?.enum) ? schema.enum : []),
+        ...(Array.isArray(schema?.examples) ? schema.examples : []),
+      ]
+        .map(String)
+        .filter((value: string) => value.toLowerCase().startsWith(prefix));
+      return {
+        values: values.slice(0, MAX_COMPLETION_VALUES),
+        total: values.length,
+        hasMore: values.length > MAX_COMPLETION_VALUES,
+      };
+    }
+
+    if (!conn.capabilities.completions) {
+      return { values: [] };
+    }
+
+    const { completion } = await conn.client.complete({
+      ref,
+      argument,
+      context: { arguments: context },
+    });
+    return completion;
+  }
+
   async listResources(
     serverName: string,
   ): Promise<z.infer<typeof ListResourcesResultSchema>['resources']> {
@@ -564,18 +1567,250 @@ export class MCPHub {
     }
   }
 
+  /**
+   * Read the contents of a resource. Servers may return several entries for a
+   * single URI (e.g. a directory), each either text or a base64 blob.
+   */
+  async readResource(serverName: string, uri: string): Promise<ReadResourceResult['contents']> {
+    const conn = this.connections.get(serverName);
+    if (!conn || conn.status !== 'connected') {
+      throw new Error(`Server ${serverName} is not connected`);
+    }
+
+    if (!conn.capabilities.resources) {
+      throw new Error(`Server ${serverName} does not support resources`);
+    }
+
+    const response = await conn.client.readResource({ uri });
+    return response.contents;
+  }
+
+  /**
+   * Subscribe to updates for a resource. Subscriptions are reference counted so
+   * several subscribers can share one server-side subscription. Returns whether
+   * the server will push updates; servers without subscription support still
+   * track the subscription but never notify.
+   */
+  async subscribeResource(serverName: string, uri: string): Promise<boolean> {
+    const subscriptions = this.resourceSubscriptions.get(serverName) ?? new Map<string, number>();
+    this.resourceSubscriptions.set(serverName, subscriptions);
+
+    const count = subscriptions.get(uri) ?? 0;
+    subscriptions.set(uri, count + 1);
+
+    const conn = this.connections.get(serverName);
+    if (!conn || conn.status !== 'connected' || !conn.capabilities.resourceSubscribe) {
+      return false;
+    }
+
+    if (count === 0) {
+      try {
+        await conn.client.subscribeResource({ uri });
+      } catch (error) {
+        subscriptions.delete(uri);
+        throw error;
+      }
+    }
+
+    return true;
+  }
+
+  async unsubscribeResource(serverName: string, uri: string): Promise<void> {
+    const subscriptions = this.resourceSubscriptions.get(serverName);
+    const count = subscriptions?.get(uri);
+    if (!subscriptions || !count) return;
+
+    if (count > 1) {
+      subscriptions.set(uri, count - 1);
+      return;
+    }
+
+    subscriptions.delete(uri);
+
+    const conn = this.connections.get(serverName);
+    if (conn?.status === 'connected' && conn.capabilities.resourceSubscribe) {
+      try {
+        await conn.client.unsubscribeResource({ uri });
+      } catch (error) {
+        console.error(`Error unsubscribing from ${uri} on server ${serverName}:`, error);
+      }
+    }
+  }
+
+  onResourceUpdated(listener: (serverName: string, uri: string) => void) {
+    this.resourceUpdateListeners.push(listener);
+  }
+
+  // Subscriptions belong to a session with the server, so they have to be
+  // re-established every time we (re)connect.
+  private async restoreResourceSubscriptions(name: string) {
+    const conn = this.connections.get(name);
+    const uris = Array.from(this.resourceSubscriptions.get(name)?.keys() ?? []);
+    if (!conn?.capabilities.resourceSubscribe || uris.length === 0) return;
+
+    await Promise.all(
+      uris.map((uri) =>
+        conn.client.subscribeResource({ uri }).catch((error) => {
+          console.error(`Error resubscribing to ${uri} on server ${name}:`, error);
+        }),
+      ),
+    );
+  }
+
   listConnections(): Array<{
     name: string;
     status: string;
     capabilities: ServerCapabilities;
     error?: string;
+    supervisor: SupervisorState;
   }> {
-    return Array.from(this.connections.entries()).map(([name, conn]) => ({
-      name,
-      status: conn.status,
-      capabilities: conn.capabilities,
-      error: conn.error,
-    }));
+    return Array.from(this.connections.entries()).map(([name, conn]) => {
+      const { timer: _timer, ...supervisor } = this.getSupervisorState(name);
+      return {
+        name,
+        status: conn.status,
+        capabilities: conn.capabilities,
+        error: conn.error,
+        supervisor,
+      };
+    });
+  }
+
+  /**
+   * The most recent log entries of a server, oldest first.
+   */
+  getServerLogs(name: string): ServerLogEntry[] {
+    return this.serverLogs.get(name) ?? [];
+  }
+
+  clearServerLogs(name: string) {
+    this.serverLogs.delete(name);
+  }
+
+  getLogLevel(name: string): LoggingLevel | undefined {
+    return this.logLevels.get(name);
+  }
+
+  /**
+   * Ask a server to send log messages at the given level and above. The level
+   * is remembered and set again when the server reconnects.
+   */
+  async setLogLevel(name: string, level: LoggingLevel): Promise<void> {
+    const conn = this.connections.get(name);
+    if (!conn || conn.status !== 'connected') {
+      throw new Error(`Server ${name} is not connected`);
+    }
+    if (!conn.capabilities.logging) {
+      throw new Error(`Server ${name} does not support setting a log level`);
+    }
+
+    await conn.client.setLoggingLevel(level);
+    this.logLevels.set(name, level);
+  }
+
+  onServerLog(listener: (serverName: string, entry: ServerLogEntry) => void) {
+    this.logListeners.push(listener);
+  }
+
+  private appendLog(name: string, entry: ServerLogEntry) {
+    const entries = this.serverLogs.get(name) ?? [];
+    entries.push(entry);
+    if (entries.length > MAX_LOG_ENTRIES) {
+      entries.splice(0, entries.length - MAX_LOG_ENTRIES);
+    }
+    this.serverLogs.set(name, entries);
+
+    for (const listener of this.logListeners) {
+      listener(name, entry);
+    }
+  }
+
+  /**
+   * Set the handler that fulfils sampling requests. Until one is set, servers'
+   * sampling requests are rejected.
+   */
+  setSamplingHandler(handler: SamplingHandler) {
+    this.samplingHandler = handler;
+  }
+
+  private async handleSamplingRequest(
+    serverName: string,
+    params: CreateMessageRequest['params'],
+    signal: AbortSignal,
+  ): Promise<CreateMessageResult> {
+    if (!this.samplingHandler) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Sampling is not available');
+    }
+    console.log(`[MCP Sampling] Server ${serverName} requested a message`);
+    return this.samplingHandler(serverName, params, signal);
+  }
+
+  /**
+   * Set the handler that asks the user for the input servers elicit. Until
+   * one is set, servers' elicitation requests are rejected.
+   */
+  setElicitationHandler(handler: ElicitationHandler) {
+    this.elicitationHandler = handler;
+  }
+
+  private async handleElicitationRequest(
+    serverName: string,
+    params: ElicitRequest['params'],
+    signal: AbortSignal,
+  ): Promise<ElicitResult> {
+    if (!this.elicitationHandler) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Elicitation is not available');
+    }
+    console.log(`[MCP Elicitation] Server ${serverName} requested user input`);
+    return this.elicitationHandler(serverName, params, signal);
+  }
+
+  getRoots(): Root[] {
+    return this.roots;
+  }
+
+  /**
+   * Replace the roots advertised to servers, and let connected servers know
+   * the list changed so they can request it again.
+   */
+  setRoots(roots: Root[]) {
+    if (isDeepStrictEqual(roots, this.roots)) {
+      return;
+    }
+    this.roots = roots;
+
+    for (const listener of this.rootsListeners) {
+      listener(roots);
+    }
+
+    for (const [name, conn] of this.connections) {
+      if (conn.status !== 'connected') continue;
+      conn.client.sendRootsListChanged().catch((error) => {
+        console.error(`Failed to notify server ${name} of roots change:`, error);
+      });
+    }
+  }
+
+  onRootsChanged(listener: (roots: Root[]) => void) {
+    this.rootsListeners.push(listener);
+  }
+
+  getServerConfig(name: string): McpServerConfig | undefined {
+    return this.config?.mcpServers[name];
+  }
+
+  /**
+   * Timeout and retry settings for calls to a server's tool. Settings for the
+   * tool take precedence over the server's, which take precedence over defaults.
+   */
+  getCallSettings(serverName: string, toolName?: string): ToolCallSettings {
+    const serverConfig = this.getServerConfig(serverName);
+    const toolConfig = toolName ? serverConfig?.tools?.[toolName] : undefined;
+    return {
+      timeout: toolConfig?.timeout ?? serverConfig?.timeout ?? this.DEFAULT_CALL_TIMEOUT,
+      retries: toolConfig?.retries ?? serverConfig?.retries ?? this.DEFAULT_RETRIES,
+      retryDelay: toolConfig?.retryDelay ?? serverConfig?.retryDelay ?? this.DEFAULT_RETRY_DELAY,
+    };
   }
 
   getConnection(name: string): McpConnection | undefined {
@@ -587,7 +1822,143 @@ export class MCPHub {
     if (!serverConfig) {
       throw new Error(`No configuration found for server: ${name}`);
     }
-    await this.ensureConnection(name);
+    if (serverConfig.disabled) {
+      throw new Error(`Server ${name} is disabled`);
+    }
+
+    // A user initiated reconnect gets a fresh set of attempts and always
+    // restarts the connection, even if it currently looks healthy.
+    this.connectionRetryAttempts.set(name, 0);
+    this.getSupervisorState(name).restarts = 0;
+    await this.connectServer(name);
+  }
+
+  /**
+   * Configured servers merged with their live connection state. Unlike
+   * listConnections, this includes disabled servers and ones that never connected.
+   */
+  listServers(): Array<{
+    name: string;
+    config: McpServerConfig;
+    status: McpConnection['status'];
+    capabilities: ServerCapabilities;
+    error?: string;
+  }> {
+    return Object.entries(this.config?.mcpServers ?? {}).map(([name, config]) => {
+      const conn = this.connections.get(name);
+      return {
+        name,
+        config,
+        status: conn?.status ?? 'disconnected',
+        capabilities: conn?.capabilities ?? {},
+        error: conn?.error,
+      };
+    });
+  }
+
+  /**
+   * Add a server or replace the config of an existing one. The server is
+   * (re)connected unless it is disabled, in which case it is disconnected.
+   * A connected server is left alone if only per-request settings changed.
+   */
+  async upsertServer(name: string, serverConfig: McpServerConfig): Promise<void> {
+    const previous = this.config.mcpServers[name];
+    this.config = {
+      mcpServers: { ...this.config.mcpServers, [name]: serverConfig },
+    };
+
+    if (
+      previous &&
+      this.connections.get(name)?.status === 'connected' &&
+      isDeepStrictEqual(withoutRequestSettings(previous), withoutRequestSettings(serverConfig))
+    ) {
+      // A raised maxConcurrentCalls may let waiting calls start.
+      this.scheduleToolCalls();
+      return;
+    }
+
+    this.connectionRetryAttempts.set(name, 0);
+
+    if (serverConfig.disabled) {
+      await this.disconnectServer(name);
+      this.notifyStatusChange(name, { status: 'disconnected', capabilities: {} });
+      return;
+    }
+
+    await this.connectServer(name);
+  }
+
+  async removeServer(name: string): Promise<void> {
+    const { [name]: _removed, ...mcpServers } = this.config.mcpServers;
+    this.config = { mcpServers };
+
+    await this.disconnectServer(name);
+    this.connectionRetryAttempts.delete(name);
+    this.supervisorStates.delete(name);
+    this.serverLogs.delete(name);
+    this.logLevels.delete(name);
+    this.resourceSubscriptions.delete(name);
+    this.cacheStats.delete(name);
+    this.notifyStatusChange(name, { status: 'disconnected', capabilities: {} });
+
+    for (const listener of this.removalListeners) {
+      listener(name);
+    }
+  }
+
+  /**
+   * Bring the running connections in line with `newConfig`: added servers are
+   * connected, removed ones disconnected, and only servers whose config changed
+   * are restarted. Servers whose config is unchanged are left alone.
+   */
+  applyConfig(newConfig: McpConfig): Promise<void> {
+    // Serialize reloads so a quick succession of edits can't interleave.
+    this.configUpdate = this.configUpdate.then(() => this.applyConfigChanges(newConfig));
+    return this.configUpdate;
+  }
+
+  private async applyConfigChanges(newConfig: McpConfig): Promise<void> {
+    const oldServers = this.config?.mcpServers ?? {};
+    const newServers = newConfig.mcpServers ?? {};
+
+    const removed = Object.keys(oldServers).filter((name) => !(name in newServers));
+    const changed = Object.entries(newServers).filter(
+      ([name, serverConfig]) => !isDeepStrictEqual(oldServers[name], serverConfig),
+    );
+
+    if (removed.length === 0 && changed.length === 0) {
+      return;
+    }
+
+    console.log('Applying MCP config changes:', {
+      removed,
+      changed: changed.map(([name]) => name),
+    });
+
+    await Promise.all([
+      ...removed.map((name) =>
+        this.removeServer(name).catch((error) => {
+          console.error(`Failed to remove server ${name}:`, error);
+        }),
+      ),
+      ...changed.map(([name, serverConfig]) =>
+        this.upsertServer(name, serverConfig).catch((error) => {
+          console.error(`Failed to connect to server ${name}:`, error);
+        }),
+      ),
+    ]);
+  }
+
+  private watchConfig() {
+    if (this.stopWatchingConfig) return;
+
+    try {
+      this.stopWatchingConfig = watchMcpConfig((config) => {
+        this.applyConfig(config);
+      });
+    } catch (error) {
+      console.error('Could not watch MCP config file for changes:', error);
+    }
   }
 
   onStatusChange(
@@ -596,7 +1967,14 @@ export class MCPHub {
     this.statusListeners.push(listener);
   }
 
-  private notifyStatusChange(name: string, conn: McpConnection) {
+  onServerRemoved(listener: (name: string) => void) {
+    this.removalListeners.push(listener);
+  }
+
+  private notifyStatusChange(
+    name: string,
+    conn: Pick<McpConnection, 'status' | 'error' | 'capabilities'>,
+  ) {
     const status = {
       name,
       status: conn.status,
@@ -609,40 +1987,103 @@ export class MCPHub {
     }
   }
 
-  private async initializeTools(): Promise<void> {
-    if (this.toolsInitialized) return;
-
-    const connections = await this.listConnections();
-    for (const server of connections) {
-      if (server.capabilities.tools) {
-        try {
-          const tools = await this.listTools(server.name);
-          const toolsWithServer = tools.map(tool => ({
-            ...tool,
-            serverName: server.name
-          }));
-          this.allTools.set(server.name, toolsWithServer);
-        } catch (error) {
-          console.error(`Failed to initialize tools for server ${server.name}:`, error);
-          this.allTools.set(server.name, []);
-        }
-      }
+  /**
+   * Re-list a server's tools into the cached catalog, then let listeners know
+   * so they can pick up added, removed or changed tools. If listing fails the
+   * catalog keeps the tools listed before.
+   */
+  private async refreshTools(name: string): Promise<void> {
+    try {
+      const tools = await this.listTools(name);
+      console.log(`Tools on server ${name}:`, tools);
+      this.allTools.set(name, tools.map((tool) => ({ ...tool, serverName: name })));
+    } catch (error) {
+      console.error(`Keeping the tools listed before on server ${name}:`, error);
+      return;
     }
+    this.notifyCatalogChanged(name, 'tools');
+  }
 
-    this.toolsInitialized = true;
+  /**
+   * Listen for changes to a server's tools, resources or prompts. Tools are
+   * already re-listed by the time listeners are called.
+   */
+  onCatalogChanged(listener: (serverName: string, kind: CatalogKind) => void) {
+    this.catalogListeners.push(listener);
+  }
+
+  private notifyCatalogChanged(name: string, kind: CatalogKind) {
+    console.log(`The ${kind} on server ${name} changed`);
+    for (const listener of this.catalogListeners) {
+      listener(name, kind);
+    }
   }
 
   public getAllTools(): Tool[] {
-    return Array.from(this.allTools.values()).flat();
+    return Array.from(this.allTools.keys()).flatMap((serverName) =>
+      this.getToolsByServer(serverName),
+    );
   }
 
   public getToolsByServer(serverName: string): Tool[] {
-    return this.allTools.get(serverName) || [];
+    // IDs are derived on the way out so they follow alias changes, which
+    // don't cause a reconnect.
+    const qualifier = this.config?.mcpServers[serverName]?.alias ?? serverName;
+    return (this.allTools.get(serverName) || []).map((tool) => ({
+      ...tool,
+      id: `${qualifier}/${tool.name}`,
+    }));
   }
 
   public findTool(serverName: string, toolName: string): Tool | undefined {
-    const serverTools = this.allTools.get(serverName);
-    return serverTools?.find(tool => tool.name === toolName);
+    const serverTools = this.getToolsByServer(serverName);
+    return serverTools.find(tool => tool.name === toolName);
+  }
+
+  /**
+   * Find the one tool a reference means. A reference is either a fully
+   * qualified ID (`server/tool`, or `alias/tool`) or a bare tool name, which
+   * may come with the server named separately as in `<use_mcp_tool>`.
+   * Throws an McpToolResolutionError if no tool or several tools match.
+   */
+  public resolveTool(reference: string, serverName?: string): Tool {
+    let qualifier = serverName || undefined;
+    let toolName = reference;
+
+    const slash = reference.indexOf('/');
+    const prefixServers = slash === -1 ? [] : this.serversQualifiedBy(reference.slice(0, slash));
+    if (prefixServers.length > 0) {
+      // The server may be named both ways, as long as both name the same one.
+      if (
+        qualifier &&
+        !this.serversQualifiedBy(qualifier).some((name) => prefixServers.includes(name))
+      ) {
+        throw new McpToolResolutionError(`${qualifier}/${reference}`, []);
+      }
+      qualifier = reference.slice(0, slash);
+      toolName = reference.slice(slash + 1);
+    }
+
+    const servers = qualifier ? this.serversQualifiedBy(qualifier) : [...this.allTools.keys()];
+    const matches = servers
+      .map((name) => this.findTool(name, toolName))
+      .filter((tool): tool is Tool => tool !== undefined);
+
+    if (matches.length !== 1) {
+      throw new McpToolResolutionError(
+        qualifier ? `${qualifier}/${toolName}` : toolName,
+        matches.map((tool) => tool.id),
+      );
+    }
+    return matches[0]!;
+  }
+
+  // Servers a qualifier can refer to, by name or alias. There's normally at
+  // most one, unless an alias clashes with another server's name or alias.
+  private serversQualifiedBy(qualifier: string): string[] {
+    return [...this.allTools.keys()].filter(
+      (name) => name === qualifier || this.config.mcpServers[name]?.alias === qualifier,
+    );
   }
 }
 
@@ -0,0 +1,48 @@
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import mcpHubInstance from './mcphub.mjs';
+import type { McpPromptInvocation } from './types/index.mjs';
+
+type PromptContent = GetPromptResult['messages'][number]['content'];
+
+function renderContent(content: PromptContent): string {
+  switch (content.type) {
+    case 'text':
+      return content.text;
+    case 'resource':
+      return typeof content.resource.text === 'string'
+        ? content.resource.text
+        : `[binary resource ${content.resource.uri}]`;
+    case 'resource_link':
+      return `[resource ${content.uri}]`;
+    default:
+      return `[${content.type} content omitted]`;
+  }
+}
+
+/**
+ * Flatten the messages of a resolved prompt into a single user request. Prompts
+ * made of user messages only read naturally when joined; mixed conversations
+ * keep their roles so the model can tell the turns apart.
+ */
+export function renderPromptMessages(messages: GetPromptResult['messages']): string {
+  const onlyUser = messages.every((message) => message.role === 'user');
+
+  return messages
+    .map((message) => {
+      const text = renderContent(message.content);
+      return onlyUser ? text : `${message.role === 'user' ? 'User' : 'Assistant'}: ${text}`;
+    })
+    .join('\n\n');
+}
+
+export async function resolvePrompt(
+  invocation: McpPromptInvocation,
+  mcpHub: typeof mcpHubInstance = mcpHubInstance,
+): Promise<string> {
+  const result = await mcpHub.getPrompt(
+    invocation.serverName,
+    invocation.name,
+    invocation.arguments,
+  );
+  return renderPromptMessages(result.messages);
+}
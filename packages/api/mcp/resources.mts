@@ -0,0 +1,103 @@
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import mcpHubInstance from './mcphub.mjs';
+import type { McpResourceRef } from './types/index.mjs';
+
+// Resources can be arbitrarily large. Keep any one of them from crowding the
+// project files out of the prompt.
+const MAX_RESOURCE_TEXT_LENGTH = 50_000;
+
+export type PinnedResource = {
+  serverName: string;
+  uri: string;
+  mimeType?: string;
+  text: string;
+};
+
+export function resolveResourceUri(ref: McpResourceRef): string {
+  if ('uri' in ref) {
+    return ref.uri;
+  }
+  return new UriTemplate(ref.uriTemplate).expand(ref.params);
+}
+
+/**
+ * Read pinned resources so they can be included in an AI prompt. Binary
+ * contents are described rather than inlined, and long text is truncated.
+ * Resources that can't be read are left out, with a warning in the logs.
+ */
+export async function loadPinnedResources(
+  refs: McpResourceRef[],
+  mcpHub: typeof mcpHubInstance = mcpHubInstance,
+): Promise<PinnedResource[]> {
+  const results = await Promise.allSettled(
+    refs.map(async (ref) => {
+      const contents = await mcpHub.readResource(ref.serverName, resolveResourceUri(ref));
+
+      return contents.map((content) => {
+        let text: string;
+        if (typeof content.text === 'string') {
+          text =
+            content.text.length > MAX_RESOURCE_TEXT_LENGTH
+              ? content.text.slice(0, MAX_RESOURCE_TEXT_LENGTH) + '\n[truncated]'
+              : content.text;
+        } else {
+          text = `[binary content omitted${content.mimeType ? `, ${content.mimeType}` : ''}]`;
+        }
+
+        return {
+          serverName: ref.serverName,
+          uri: content.uri,
+          mimeType: content.mimeType,
+          text,
+        };
+      });
+    }),
+  );
+
+  return results.flatMap((result, i) => {
+    if (result.status === 'fulfilled') {
+      return result.value;
+    }
+    const ref = refs[i]!;
+    const uri = 'uri' in ref ? ref.uri : ref.uriTemplate;
+    console.warn(
+      `Leaving pinned resource ${uri} from server ${ref.serverName} out of the prompt:`,
+      result.reason,
+    );
+    return [];
+  });
+}
+
+function escapeAttribute(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+// A `]]>` in the text would end the CDATA section early, so it is split
+// across two sections.
+function escapeCdata(text: string) {
+  return text.replace(/]]>/g, ']]]]><![CDATA[>');
+}
+
+export function buildResourcesXml(resources: PinnedResource[]): string {
+  const resourceXmls = resources
+    .map((resource) => {
+      const mimeType = resource.mimeType ? ` mimeType="${escapeAttribute(resource.mimeType)}"` : '';
+      return `
+  <resource server="${escapeAttribute(resource.serverName)}" uri="${escapeAttribute(resource.uri)}"${mimeType}>
+    <![CDATA[
+${escapeCdata(resource.text)}
+    ]]>
+  </resource>`;
+    })
+    .join('\n');
+
+  return `
+<resources>
+${resourceXmls}
+</resources>
+  `.trim();
+}
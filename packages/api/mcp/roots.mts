@@ -0,0 +1,58 @@
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import type { Root } from '@modelcontextprotocol/sdk/types.js';
+import type { ConnectionContextType } from '../server/ws-client.mjs';
+import mcpHubInstance from './mcphub.mjs';
+
+// The app or srcbook each browser connection has open, keyed by the topic it
+// was opened on. Kept in the order they were opened, oldest first.
+const openRoots = new Map<ConnectionContextType, { topic: string; root: Root }>();
+
+export function directoryRoot(dir: string, name?: string): Root {
+  return { uri: pathToFileURL(dir).href, name };
+}
+
+/**
+ * Local paths of the given roots. Roots that aren't `file://` URIs are skipped.
+ */
+export function rootPaths(roots: Root[]): string[] {
+  return roots
+    .filter((root) => root.uri.startsWith('file:'))
+    .map((root) => fileURLToPath(root.uri));
+}
+
+/**
+ * Record that a connection opened an app or srcbook. The most recently opened
+ * one becomes the root advertised to MCP servers.
+ */
+export function openRoot(
+  conn: ConnectionContextType,
+  topic: string,
+  root: Root,
+  mcpHub: typeof mcpHubInstance = mcpHubInstance,
+) {
+  // Re-inserting moves the connection to the end, making it the most recent.
+  openRoots.delete(conn);
+  openRoots.set(conn, { topic, root });
+  publishRoots(mcpHub);
+}
+
+/**
+ * Record that a connection left the topic it opened a root on. The root falls
+ * back to whatever another connection has open, if anything.
+ */
+export function closeRoot(
+  conn: ConnectionContextType,
+  topic: string,
+  mcpHub: typeof mcpHubInstance = mcpHubInstance,
+) {
+  if (openRoots.get(conn)?.topic !== topic) {
+    return;
+  }
+  openRoots.delete(conn);
+  publishRoots(mcpHub);
+}
+
+function publishRoots(mcpHub: typeof mcpHubInstance) {
+  const current = Array.from(openRoots.values()).at(-1);
+  mcpHub.setRoots(current ? [current.root] : []);
+}
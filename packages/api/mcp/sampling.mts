@@ -0,0 +1,112 @@
+import { generateText, type CoreMessage } from 'ai';
+import {
+  ErrorCode,
+  McpError,
+  type CreateMessageRequest,
+  type CreateMessageResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import { getDefaultModel, type AiProviderType } from '@srcbook/shared';
+import { getConfig } from '../config.mjs';
+import { getModel } from '../ai/config.mjs';
+
+type SamplingParams = CreateMessageRequest['params'];
+
+// A cheaper, faster model from each provider, for servers that say they care
+// more about speed or cost than intelligence.
+const FAST_MODELS: Partial<Record<AiProviderType, string>> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  Gemini: 'gemini-1.5-flash-latest',
+};
+
+/**
+ * Map a server's model preferences onto the models of the configured provider.
+ * Hints are substrings of model names and are tried in order; without a
+ * matching hint, the priorities decide between the configured and fast model.
+ */
+export function selectModel(
+  preferences: SamplingParams['modelPreferences'],
+  provider: AiProviderType,
+  configuredModel: string,
+): string {
+  const fastModel = FAST_MODELS[provider];
+  const candidates = fastModel ? [configuredModel, fastModel] : [configuredModel];
+
+  for (const hint of preferences?.hints ?? []) {
+    const name = hint.name?.toLowerCase();
+    const match = name && candidates.find((model) => model.toLowerCase().includes(name));
+    if (match) {
+      return match;
+    }
+  }
+
+  const intelligence = preferences?.intelligencePriority ?? 0;
+  const speedOrCost = Math.max(preferences?.speedPriority ?? 0, preferences?.costPriority ?? 0);
+  return fastModel && speedOrCost > intelligence ? fastModel : configuredModel;
+}
+
+/**
+ * The model a sampling request will be fulfilled with, given the AI settings.
+ */
+export async function resolveSamplingModel(params: SamplingParams): Promise<string> {
+  const { aiModel, aiProvider } = await getConfig();
+  const provider = aiProvider as AiProviderType;
+  return selectModel(params.modelPreferences, provider, aiModel || getDefaultModel(provider));
+}
+
+export function toModelMessages(messages: SamplingParams['messages']): CoreMessage[] {
+  return messages.map(({ role, content }): CoreMessage => {
+    if (content.type === 'text') {
+      return { role, content: content.text };
+    }
+    if (content.type === 'image' && role === 'user') {
+      return {
+        role,
+        content: [{ type: 'image', image: content.data, mimeType: content.mimeType }],
+      };
+    }
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Sampling does not support ${content.type} content in ${role} messages`,
+    );
+  });
+}
+
+function toStopReason(finishReason: string): CreateMessageResult['stopReason'] {
+  switch (finishReason) {
+    case 'stop':
+      return 'endTurn';
+    case 'length':
+      return 'maxTokens';
+    default:
+      return finishReason;
+  }
+}
+
+/**
+ * Fulfil a sampling request with the configured AI provider.
+ */
+export async function createMessage(
+  params: SamplingParams,
+  modelName: string,
+  signal?: AbortSignal,
+): Promise<CreateMessageResult> {
+  const model = await getModel(modelName);
+
+  const result = await generateText({
+    model,
+    system: params.systemPrompt,
+    messages: toModelMessages(params.messages),
+    maxTokens: params.maxTokens,
+    temperature: params.temperature,
+    stopSequences: params.stopSequences,
+    abortSignal: signal,
+  });
+
+  return {
+    role: 'assistant',
+    content: { type: 'text', text: result.text },
+    model: modelName,
+    stopReason: toStopReason(result.finishReason),
+  };
+}
@@ -0,0 +1,96 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { McpStdioServerConfig } from './types/index.mjs';
+
+export class McpSandboxError extends Error {
+  readonly type = 'sandbox_error';
+
+  constructor(
+    readonly serverName: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'McpSandboxError';
+  }
+}
+
+/**
+ * The variables a server asked to inherit from Srcbook's own environment. The
+ * SDK adds a few basics such as PATH and HOME itself, nothing else is passed
+ * on, so servers can't see the AI provider keys or each other's credentials.
+ */
+export function inheritedEnv(names: string[] = []): Record<string, string> {
+  return Object.fromEntries(
+    names.flatMap((name) => {
+      const value = process.env[name];
+      return value === undefined ? [] : [[name, value]];
+    }),
+  );
+}
+
+/**
+ * Check that the server's working directory exists, spawning it would
+ * otherwise fail with an ENOENT that reads as though the command is missing.
+ */
+export async function checkWorkingDirectory(serverName: string, cwd: string | undefined) {
+  if (cwd === undefined) {
+    return;
+  }
+
+  const stats = await fs.stat(cwd).catch(() => null);
+  if (!stats?.isDirectory()) {
+    throw new McpSandboxError(
+      serverName,
+      `Working directory of server ${serverName} doesn't exist: ${cwd}`,
+    );
+  }
+}
+
+/**
+ * The arguments to start the server with, behind Node's permission model if
+ * its config asks for it. The server can then read only its own script, its
+ * working directory and the paths it lists, and write only the paths it lists.
+ */
+export function sandboxArgs(serverName: string, config: McpStdioServerConfig): string[] {
+  const args = config.args ?? [];
+  const permissions = config.nodePermissions;
+  if (!permissions) {
+    return args;
+  }
+
+  if (!isNodeCommand(config.command)) {
+    throw new McpSandboxError(
+      serverName,
+      `Server ${serverName} must be started with node to use Node's permission model, not ${config.command}`,
+    );
+  }
+
+  const cwd = config.cwd ?? process.cwd();
+  const script = args.find((arg) => !arg.startsWith('-'));
+  const allowRead = [
+    ...(script ? [script] : []),
+    ...(config.cwd ? [config.cwd] : []),
+    ...(permissions.allowRead ?? []),
+  ];
+
+  return [
+    permissionFlag(),
+    ...allowRead.map((p) => `--allow-fs-read=${path.resolve(cwd, p)}`),
+    ...(permissions.allowWrite ?? []).map((p) => `--allow-fs-write=${path.resolve(cwd, p)}`),
+    ...(permissions.allowChildProcess ? ['--allow-child-process'] : []),
+    ...(permissions.allowWorker ? ['--allow-worker'] : []),
+    ...args,
+  ];
+}
+
+function isNodeCommand(command: string) {
+  return command === process.execPath || path.basename(command, '.exe') === 'node';
+}
+
+// The permission model left its experimental flag behind in Node 22.13 and
+// 23.5. We assume the server runs on the same version of node as Srcbook.
+function permissionFlag() {
+  const [major = 0, minor = 0] = process.versions.node.split('.').map(Number);
+  const stable = major > 23 || (major === 23 && minor >= 5) || (major === 22 && minor >= 13);
+  return stable ? '--permission' : '--experimental-permission';
+}
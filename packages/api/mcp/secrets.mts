@@ -0,0 +1,47 @@
+// `${secret:NAME}` in a server's env stands for the Srcbook secret NAME. Names
+// follow the same rules as secrets: upper case letters, digits and underscores.
+const SECRET_REFERENCE = /\$\{secret:([A-Z0-9_]+)\}/g;
+
+export class McpSecretNotFoundError extends Error {
+  readonly type = 'secret_not_found_error';
+
+  constructor(
+    readonly serverName: string,
+    readonly secretNames: string[],
+  ) {
+    super(`Server ${serverName} uses secrets that don't exist: ${secretNames.join(', ')}`);
+    this.name = 'McpSecretNotFoundError';
+  }
+}
+
+/**
+ * The names of the secrets an env refers to, each once.
+ */
+export function findSecretReferences(env: Record<string, string>): string[] {
+  const names = Object.values(env).flatMap((value) =>
+    Array.from(value.matchAll(SECRET_REFERENCE), (match) => match[1]!),
+  );
+  return Array.from(new Set(names));
+}
+
+/**
+ * Replace the secret references in an env with the values of those secrets.
+ * Throws if any of them don't exist, rather than start a server without them.
+ */
+export function resolveSecretReferences(
+  serverName: string,
+  env: Record<string, string>,
+  secrets: Record<string, string>,
+): Record<string, string> {
+  const missing = findSecretReferences(env).filter((name) => !(name in secrets));
+  if (missing.length > 0) {
+    throw new McpSecretNotFoundError(serverName, missing);
+  }
+
+  return Object.fromEntries(
+    Object.entries(env).map(([key, value]) => [
+      key,
+      value.replace(SECRET_REFERENCE, (_match, name: string) => secrets[name]!),
+    ]),
+  );
+}
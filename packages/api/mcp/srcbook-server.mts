@@ -0,0 +1,492 @@
+import type { ChildProcess } from 'node:child_process';
+import { timingSafeEqual } from 'node:crypto';
+import http from 'node:http';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  randomid,
+  validFilename,
+  languageFromFilename,
+  type CodeCellType,
+  type MarkdownCellType,
+  type PackageJsonCellType,
+} from '@srcbook/shared';
+import { z } from 'zod';
+import {
+  addCell,
+  createSession,
+  exportSrcmdText,
+  findCell,
+  findSession,
+  listSessions,
+  readPackageJsonContentsFromDisk,
+  replaceCell,
+  updateCell,
+  updateSession,
+} from '../session.mjs';
+import { createSrcbook } from '../srcbook/index.mjs';
+import { pathToCodeFile } from '../srcbook/path.mjs';
+import { getSecretsAssociatedWithSession } from '../config.mjs';
+import { node, npmInstall, tsx } from '../exec.mjs';
+import processes from '../processes.mjs';
+import type { SessionType } from '../types.mjs';
+import { registerAppTools } from './apps-tools.mjs';
+
+// How long run_cell and install_deps wait for the process before stopping it.
+const DEFAULT_RUN_TIMEOUT = 60_000;
+// How long a stopped process gets to exit before it is killed outright.
+const KILL_GRACE_PERIOD = 2_000;
+// Cells can write without end, so only this much of each stream is kept and
+// sent back to the agent.
+const MAX_OUTPUT_LENGTH = 100_000;
+
+type RunOutput = {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+};
+
+// Without a token, only connections from this machine are served over HTTP.
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', '::ffff:127.0.0.1', 'localhost'];
+
+// The output of the last run of each cell, by `${sessionId}:${cellId}`, so
+// it can be read again after run_cell returns.
+const outputs = new Map<string, RunOutput>();
+
+function titleOf(session: SessionType) {
+  const title = session.cells.find((cell) => cell.type === 'title');
+  return title?.type === 'title' ? title.text : 'Untitled';
+}
+
+function json(value: unknown): CallToolResult {
+  return { content: [{ type: 'text', text: JSON.stringify(value, null, 2) }] };
+}
+
+function untitledFilename(session: SessionType) {
+  const extension = session.language === 'typescript' ? '.ts' : '.js';
+  const filenames = session.cells.flatMap((cell) => (cell.type === 'code' ? [cell.filename] : []));
+
+  let filename = `untitled${extension}`;
+  for (let counter = 1; filenames.includes(filename); counter++) {
+    filename = `untitled${counter}${extension}`;
+  }
+  return filename;
+}
+
+// Anything past MAX_OUTPUT_LENGTH is dropped, and the output marked as truncated.
+function appendOutput(output: string, data: Buffer) {
+  if (output.length > MAX_OUTPUT_LENGTH) {
+    return output;
+  }
+  const appended = output + data.toString('utf8');
+  return appended.length > MAX_OUTPUT_LENGTH
+    ? appended.slice(0, MAX_OUTPUT_LENGTH) + '\n[truncated]'
+    : appended;
+}
+
+/**
+ * Wait for a cell's process to exit, collecting what it writes. The process
+ * is tracked like one started from the UI, so it can be stopped from there.
+ */
+function awaitProcess(
+  session: SessionType,
+  cell: CodeCellType | PackageJsonCellType,
+  start: (callbacks: {
+    stdout: (data: Buffer) => void;
+    stderr: (data: Buffer) => void;
+    onExit: (code: number | null) => void;
+  }) => ChildProcess,
+  timeout: number,
+): Promise<RunOutput> {
+  return new Promise((resolve) => {
+    const output: RunOutput = { exitCode: null, stdout: '', stderr: '', timedOut: false };
+    let timer: NodeJS.Timeout | undefined;
+
+    function finish() {
+      clearTimeout(timer);
+      outputs.set(`${session.id}:${cell.id}`, output);
+      resolve(output);
+    }
+
+    const child = start({
+      stdout: (data) => (output.stdout = appendOutput(output.stdout, data)),
+      stderr: (data) => (output.stderr = appendOutput(output.stderr, data)),
+      onExit: (code) => {
+        output.exitCode = code;
+        finish();
+      },
+    });
+
+    if (!child.pid || child.killed) {
+      output.stderr += `Failed to start the process for cell ${cell.id}`;
+      finish();
+      return;
+    }
+
+    processes.add(session.id, cell.id, child);
+    timer = setTimeout(() => {
+      output.timedOut = true;
+      child.kill('SIGTERM');
+      timer = setTimeout(() => child.kill('SIGKILL'), KILL_GRACE_PERIOD);
+    }, timeout);
+  });
+}
+
+async function runCell(session: SessionType, cell: CodeCellType, timeout: number) {
+  const secrets = await getSecretsAssociatedWithSession(session.id);
+  const exec = cell.language === 'typescript' ? tsx : node;
+
+  cell.status = 'running';
+  try {
+    return await awaitProcess(
+      session,
+      cell,
+      (callbacks) =>
+        exec({
+          cwd: session.dir,
+          env: secrets,
+          entry: pathToCodeFile(session.dir, cell.filename),
+          ...callbacks,
+        }),
+      timeout,
+    );
+  } finally {
+    // The cell may have been replaced while it ran.
+    const mostRecentCell = findCell(session, cell.id);
+    if (mostRecentCell?.type === 'code') {
+      mostRecentCell.status = 'idle';
+    }
+  }
+}
+
+async function installDeps(session: SessionType, packages: string[] | undefined, timeout: number) {
+  const cell = session.cells.find((cell) => cell.type === 'package.json') as
+    | PackageJsonCellType
+    | undefined;
+  if (!cell) {
+    throw new Error(`Srcbook ${session.id} has no package.json cell`);
+  }
+
+  cell.status = 'running';
+  const output = await awaitProcess(
+    session,
+    cell,
+    (callbacks) => npmInstall({ cwd: session.dir, packages, ...callbacks }),
+    timeout,
+  );
+
+  const updatedCell: PackageJsonCellType = {
+    ...cell,
+    source: await readPackageJsonContentsFromDisk(session),
+    status: output.exitCode === 0 ? 'idle' : 'failed',
+  };
+  await updateSession(session, { cells: replaceCell(session, updatedCell) }, false);
+
+  return output;
+}
+
+async function findCodeCell(srcbookId: string, cellId: string) {
+  const session = await findSession(srcbookId);
+  const cell = findCell(session, cellId);
+  if (!cell || cell.type !== 'code') {
+    throw new Error(`Srcbook ${srcbookId} has no code cell with id ${cellId}`);
+  }
+  return { session, cell };
+}
+
+/**
+ * An MCP server that lets other agents drive Srcbook: list and create
+ * srcbooks, edit and run their cells and install their dependencies, and work
+ * on apps. Each srcbook is also a resource, `srcbook://<id>`, read as its
+ * .src.md export.
+ *
+ * Servers share the sessions in this process, so a new server can be created
+ * for each connection.
+ */
+export function createSrcbookMcpServer(): McpServer {
+  const server = new McpServer({ name: 'srcbook', version: '1.0.0' });
+
+  server.tool(
+    'list_srcbooks',
+    'List the srcbooks, most recently opened first',
+    {},
+    { readOnlyHint: true },
+    async () => {
+      const sessions = Object.values(await listSessions()).sort((a, b) => b.openedAt - a.openedAt);
+      return json(
+        sessions.map((session) => ({
+          id: session.id,
+          title: titleOf(session),
+          language: session.language,
+          openedAt: session.openedAt,
+        })),
+      );
+    },
+  );
+
+  server.tool(
+    'create_srcbook',
+    'Create an empty srcbook',
+    {
+      title: z.string().max(44),
+      language: z.enum(['javascript', 'typescript']).default('typescript'),
+    },
+    async ({ title, language }) => {
+      const session = await createSession(await createSrcbook(title, language));
+      return json({ id: session.id });
+    },
+  );
+
+  server.tool(
+    'get_srcbook',
+    "A srcbook's cells",
+    { srcbookId: z.string() },
+    { readOnlyHint: true },
+    async ({ srcbookId }) => {
+      const session = await findSession(srcbookId);
+      return json({ id: session.id, language: session.language, cells: session.cells });
+    },
+  );
+
+  server.tool(
+    'add_cell',
+    'Add a code or markdown cell to a srcbook, at the end unless an index is given',
+    {
+      srcbookId: z.string(),
+      type: z.enum(['code', 'markdown']),
+      source: z.string(),
+      filename: z.string().optional().describe('Filename of a code cell, e.g. fetch-data.ts'),
+      index: z.number().int().nonnegative().optional(),
+    },
+    async ({ srcbookId, type, source, filename, index }) => {
+      const session = await findSession(srcbookId);
+
+      let cell: CodeCellType | MarkdownCellType;
+      if (type === 'markdown') {
+        cell = { id: randomid(), type: 'markdown', text: source };
+      } else {
+        filename = filename ?? untitledFilename(session);
+        if (!validFilename(filename) || languageFromFilename(filename) !== session.language) {
+          throw new Error(`${filename} is not a valid filename for a ${session.language} cell`);
+        }
+        if (session.cells.some((cell) => cell.type === 'code' && cell.filename === filename)) {
+          throw new Error(`Srcbook ${srcbookId} already has a cell named ${filename}`);
+        }
+        cell = {
+          id: randomid(),
+          type: 'code',
+          source,
+          language: session.language,
+          filename,
+          status: 'idle',
+        };
+      }
+
+      await addCell(session, cell, index ?? session.cells.length);
+      return json(cell);
+    },
+  );
+
+  server.tool(
+    'update_cell',
+    'Replace the source of a cell, or the text of a markdown or title cell',
+    { srcbookId: z.string(), cellId: z.string(), source: z.string() },
+    async ({ srcbookId, cellId, source }) => {
+      const session = await findSession(srcbookId);
+      const cell = findCell(session, cellId);
+      if (!cell) {
+        throw new Error(`Srcbook ${srcbookId} has no cell with id ${cellId}`);
+      }
+
+      const updates =
+        cell.type === 'markdown' || cell.type === 'title' ? { text: source } : { source };
+      const result = await updateCell(session, cell, updates);
+      if (!result.success) {
+        throw new Error(result.errors.map((error) => error.message).join('\n'));
+      }
+      return json(result.cell);
+    },
+  );
+
+  server.tool(
+    'run_cell',
+    'Run a code cell and wait for it to finish, returning its exit code and output',
+    {
+      srcbookId: z.string(),
+      cellId: z.string(),
+      timeout: z.number().int().positive().optional().describe('Milliseconds to wait'),
+    },
+    async ({ srcbookId, cellId, timeout }) => {
+      const { session, cell } = await findCodeCell(srcbookId, cellId);
+      if (cell.status === 'running') {
+        throw new Error(`Cell ${cellId} is already running`);
+      }
+      return json(await runCell(session, cell, timeout ?? DEFAULT_RUN_TIMEOUT));
+    },
+  );
+
+  server.tool(
+    'read_cell_output',
+    'The exit code and output of the last run of a code cell through this server',
+    { srcbookId: z.string(), cellId: z.string() },
+    { readOnlyHint: true },
+    async ({ srcbookId, cellId }) => {
+      const { session, cell } = await findCodeCell(srcbookId, cellId);
+      const output = outputs.get(`${session.id}:${cell.id}`);
+      if (!output) {
+        throw new Error(`Cell ${cellId} has not been run`);
+      }
+      return json(output);
+    },
+  );
+
+  server.tool(
+    'install_deps',
+    "Install a srcbook's dependencies, adding the given packages to its package.json",
+    {
+      srcbookId: z.string(),
+      packages: z.array(z.string()).optional(),
+      timeout: z.number().int().positive().optional().describe('Milliseconds to wait'),
+    },
+    async ({ srcbookId, packages, timeout }) => {
+      const session = await findSession(srcbookId);
+      return json(await installDeps(session, packages, timeout ?? DEFAULT_RUN_TIMEOUT));
+    },
+  );
+
+  server.resource(
+    'srcbook',
+    new ResourceTemplate('srcbook://{srcbookId}', {
+      list: async () => ({
+        resources: Object.values(await listSessions()).map((session) => ({
+          uri: `srcbook://${session.id}`,
+          name: titleOf(session),
+          mimeType: 'text/markdown',
+        })),
+      }),
+    }),
+    { mimeType: 'text/markdown' },
+    async (uri, { srcbookId }) => {
+      const session = await findSession(String(srcbookId));
+      return {
+        contents: [{ uri: uri.href, mimeType: 'text/markdown', text: exportSrcmdText(session) }],
+      };
+    },
+  );
+
+  registerAppTools(server);
+
+  return server;
+}
+
+/**
+ * Serve Srcbook over stdio, for agents that start it as a subprocess. Nothing
+ * else may write to stdout, so callers should send logs to stderr before
+ * importing the rest of Srcbook, which logs as it loads.
+ */
+export async function serveSrcbookMcpOverStdio(): Promise<void> {
+  await createSrcbookMcpServer().connect(new StdioServerTransport());
+}
+
+/**
+ * Whether a request may reach the Srcbook MCP server: it must carry the token
+ * as a bearer token if there is one, and come from this machine if not.
+ */
+function isAuthorized(req: http.IncomingMessage, token: string | undefined) {
+  if (token === undefined) {
+    return LOOPBACK_HOSTS.includes(req.socket.remoteAddress ?? '');
+  }
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(req.headers.authorization ?? '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Without a token, a web page could reach the server through the user's
+ * browser by pointing its own domain at this machine (DNS rebinding). Such
+ * requests name the page's domain as their host, and browsers send the page's
+ * origin, so both must be this machine at the port the request came in on.
+ */
+function loopbackHosts(req: http.IncomingMessage) {
+  const port = req.socket.localPort;
+  return ['localhost', '127.0.0.1', '[::1]'].map((host) => `${host}:${port}`);
+}
+
+function isAllowedOrigin(req: http.IncomingMessage, hosts: string[]) {
+  const origin = req.headers.origin;
+  // Agents other than browsers don't send one.
+  return origin === undefined || hosts.some((host) => origin === `http://${host}`);
+}
+
+/**
+ * Handle a Streamable HTTP request to the Srcbook MCP server. This is
+ * stateless: each request gets a fresh server and transport.
+ */
+export async function handleSrcbookMcpRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  body?: unknown,
+  token?: string,
+) {
+  if (!isAuthorized(req, token)) {
+    res.writeHead(401, { 'WWW-Authenticate': 'Bearer' }).end();
+    return;
+  }
+
+  const hosts = token === undefined ? loopbackHosts(req) : undefined;
+  if (hosts && !isAllowedOrigin(req, hosts)) {
+    res.writeHead(403).end();
+    return;
+  }
+
+  const server = createSrcbookMcpServer();
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: undefined,
+    enableDnsRebindingProtection: hosts !== undefined,
+    allowedHosts: hosts,
+  });
+  res.on('close', () => {
+    transport.close();
+    server.close();
+  });
+
+  try {
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  } catch (e) {
+    console.error('Error handling MCP request:', e);
+    if (!res.headersSent) {
+      res.writeHead(500).end();
+    }
+  }
+}
+
+/**
+ * Serve Srcbook over Streamable HTTP at `/mcp`, apart from the Srcbook
+ * server, which also serves it at `/mcp`. Only this machine can connect,
+ * unless a token is given that clients send as a bearer token.
+ */
+export function serveSrcbookMcpOverHttp(
+  port: number,
+  { host = '127.0.0.1', token }: { host?: string; token?: string } = {},
+): Promise<http.Server> {
+  if (token === undefined && !LOOPBACK_HOSTS.includes(host)) {
+    return Promise.reject(new Error(`A token is required to serve MCP on ${host}`));
+  }
+
+  const httpServer = http.createServer((req, res) => {
+    if (new URL(req.url ?? '/', 'http://localhost').pathname !== '/mcp') {
+      res.writeHead(404).end();
+      return;
+    }
+    handleSrcbookMcpRequest(req, res, undefined, token);
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => resolve(httpServer));
+  });
+}
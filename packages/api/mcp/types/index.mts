@@ -1,3 +1,4 @@
+import path from 'node:path';
 import { z } from 'zod';
 
 // Core MCP Schemas
@@ -75,13 +76,125 @@ export const McpResourceTemplateSchema = z.object({
   mimeType: z.string().optional()
 });
 
+// A reference to a resource, either by URI or by a template plus the values
+// to expand it with. Used to pin resources as context for AI requests.
+export const McpResourceRefSchema = z.union([
+  z.object({
+    serverName: z.string(),
+    uri: z.string()
+  }),
+  z.object({
+    serverName: z.string(),
+    uriTemplate: z.string(),
+    params: z.record(z.string(), z.string())
+  })
+]);
+
+// An MCP prompt to resolve with `prompts/get`, e.g. from a chat slash command.
+export const McpPromptInvocationSchema = z.object({
+  serverName: z.string(),
+  name: z.string(),
+  arguments: z.record(z.string(), z.string()).default({})
+});
+
+// Timeout and retry settings for tool calls, in milliseconds. Set on a server
+// they apply to all of its tools, and can be overridden for individual tools.
+export const McpCallSettingsSchema = z.object({
+  // How long a call may run. Progress notifications from the server restart
+  // the clock. At the server level this also bounds listing its tools.
+  timeout: z.number().int().positive().optional(),
+  // How many more times to try a call that failed. Calls that timed out are
+  // not retried, since the tool may still be running on the server.
+  retries: z.number().int().nonnegative().optional(),
+  retryDelay: z.number().int().nonnegative().optional()
+});
+
+// Server names are used in tool references and websocket topics, so keep them simple.
+export const McpServerNameSchema = z
+  .string()
+  .regex(/^[a-zA-Z0-9_-]+$/, 'Server name may only contain letters, numbers, "-" and "_"');
+
+const McpServerBaseConfigSchema = McpCallSettingsSchema.extend({
+  // Disabled servers stay in the config but are never connected.
+  disabled: z.boolean().optional(),
+  // Shorter name to qualify the server's tools with, e.g. `gh/create_issue`.
+  alias: McpServerNameSchema.optional(),
+  // Fulfil the server's sampling requests without asking the user each time.
+  sampling: z.object({
+    alwaysAllow: z.boolean().optional()
+  }).optional(),
+  // How long to wait for the server to start and complete the handshake.
+  connectTimeout: z.number().int().positive().optional(),
+  // How many tool calls may run on the server at once, and how many more may
+  // wait in line before further calls are refused.
+  maxConcurrentCalls: z.number().int().positive().optional(),
+  maxQueuedCalls: z.number().int().nonnegative().optional(),
+  // Answer repeated calls of read-only tools, those the server marks with
+  // readOnlyHint, with the same arguments from a cache for this long, in
+  // milliseconds. Calls of any other tool on the server clear it. Off if not set.
+  cacheTtl: z.number().int().positive().optional(),
+  // Per-tool overrides of the server's call settings, by tool name.
+  tools: z.record(z.string(), McpCallSettingsSchema).optional()
+});
+
 // Server Configuration Schema
-export const McpServerConfigSchema = z.object({
+// Servers are either spawned locally and spoken to over stdio, or reached
+// over the network at a URL using Streamable HTTP or (legacy) SSE.
+export const McpStdioServerConfigSchema = McpServerBaseConfigSchema.extend({
   command: z.string(),
   args: z.array(z.string()).optional(),
-  env: z.record(z.string(), z.string()).optional()
+  env: z.record(z.string(), z.string()).optional(),
+  // Variables to pass on from Srcbook's own environment. Besides these the
+  // server only gets a few basics such as PATH and HOME.
+  inheritEnv: z.array(z.string()).optional(),
+  // Directory to start the server in, Srcbook's own if not set.
+  cwd: z.string().refine((cwd) => path.isAbsolute(cwd), 'Must be an absolute path').optional(),
+  // Start a node server with Node's permission model, so it can only read its
+  // script, its working directory and `allowRead`, and only write `allowWrite`.
+  nodePermissions: z.object({
+    allowRead: z.array(z.string()).optional(),
+    allowWrite: z.array(z.string()).optional(),
+    allowChildProcess: z.boolean().optional(),
+    allowWorker: z.boolean().optional()
+  }).optional()
+});
+
+export const McpHttpServerConfigSchema = McpServerBaseConfigSchema.extend({
+  url: z.string().url(),
+  transport: z.enum(['http', 'sse']).default('http'),
+  headers: z.record(z.string(), z.string()).optional()
 });
 
+export const McpServerConfigSchema = z.union([
+  McpStdioServerConfigSchema,
+  McpHttpServerConfigSchema
+]);
+
+export const McpServerCreateSchema = z.object({
+  name: McpServerNameSchema,
+  config: McpServerConfigSchema
+});
+
+export const McpServerUpdateSchema = z.object({
+  config: McpServerConfigSchema
+});
+
+// Filters and paging for the tool call audit log, read from a query string.
+// Times are milliseconds since the epoch.
+export const McpToolCallAuditQuerySchema = z.object({
+  serverName: z.string().optional(),
+  toolName: z.string().optional(),
+  status: z.enum(['completed', 'failed', 'cancelled']).optional(),
+  appId: z.string().optional(),
+  planId: z.string().optional(),
+  since: z.coerce.number().int().optional(),
+  until: z.coerce.number().int().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type McpToolCallAuditQuery = z.infer<typeof McpToolCallAuditQuerySchema>;
+
 // Runtime State Types
 export const McpServerStatusSchema = z.object({
   name: z.string(),
@@ -112,41 +225,31 @@ export const CallToolRequestSchema = z.object({
     method: z.literal('tools/call'),
 }); 
 
-export const McpToolCallResponseSchema = z.object({
-  _meta: z.record(z.any()).optional(),
-  content: z.array(
-    z.discriminatedUnion('type', [
-      z.object({
-        type: z.literal('text'),
-        text: z.string()
-      }),
-      z.object({
-        type: z.literal('image'),
-        data: z.string(),
-        mimeType: z.string()
-      }),
-      z.object({
-        type: z.literal('resource'),
-        resource: z.object({
-          uri: z.string(),
-          mimeType: z.string().optional(),
-          text: z.string().optional(),
-          blob: z.string().optional()
-        })
-      })
-    ])
-  ),
-  isError: z.boolean().optional()
-});
-
 // Export TypeScript types
 export type McpResource = z.infer<typeof McpResourceSchema>;
 export type McpResourceTemplate = z.infer<typeof McpResourceTemplateSchema>;
+export type McpResourceRef = z.infer<typeof McpResourceRefSchema>;
+export type McpPromptInvocation = z.infer<typeof McpPromptInvocationSchema>;
+export type McpStdioServerConfig = z.infer<typeof McpStdioServerConfigSchema>;
+export type McpHttpServerConfig = z.infer<typeof McpHttpServerConfigSchema>;
 export type McpServerConfig = z.infer<typeof McpServerConfigSchema>;
 export type McpServerStatus = z.infer<typeof McpServerStatusSchema>;
 export type McpError = z.infer<typeof McpErrorSchema>;
 export type McpToolCallRequest = z.infer<typeof CallToolRequestSchema>;
-export type McpToolCallResponse = z.infer<typeof McpToolCallResponseSchema>;
+
+export function isHttpServerConfig(config: McpServerConfig): config is McpHttpServerConfig {
+  return 'url' in config;
+}
+
+/**
+ * Human readable description of where a server lives, used in logs and prompts.
+ */
+export function describeServerConfig(config: McpServerConfig): string {
+  if (isHttpServerConfig(config)) {
+    return `${config.transport} ${config.url}`;
+  }
+  return [config.command, ...(config.args ?? [])].join(' ');
+}
 
 // WebSocket Event Payloads
 export const McpServerConnectionPayloadSchema = z.object({
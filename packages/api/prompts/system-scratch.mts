@@ -1,5 +1,6 @@
 import mcpHubInstance from "../mcp/mcphub.mjs";
 import { loadMcpConfig } from "../mcp/config.mjs";
+import { describeServerConfig } from "../mcp/types/index.mjs";
 
 export const SYSTEM_PROMPT = async (
   mcpHub: typeof mcpHubInstance,
@@ -21,7 +22,7 @@ export const SYSTEM_PROMPT = async (
         const schemaStr = tool.inputSchema
           ? `    Input Schema:\n    ${JSON.stringify(tool.inputSchema, null, 2).split("\n").join("\n    ")}`
           : "";
-        return `- ${tool.name}: ${tool.description}\n${schemaStr}`;
+        return `- ${tool.id}: ${tool.description}\n${schemaStr}`;
       }).join("\n\n");
 
       const templatesSection = templates
@@ -32,9 +33,8 @@ export const SYSTEM_PROMPT = async (
         .map(resource => `- ${resource.uri} (${resource.name}): ${resource.description}`)
         .join("\n");
 
-      return `## ${server.name} (\`${serverConfig!.command}${
-        serverConfig!.args && Array.isArray(serverConfig!.args) ? ` ${serverConfig!.args.join(" ")}` : ""
-      }\`)` +
+      const alias = serverConfig?.alias ? `, alias \`${serverConfig.alias}\`` : "";
+      return `## ${server.name} (\`${describeServerConfig(serverConfig!)}\`${alias})` +
         (toolsSection ? `\n\n### Available Tools\n${toolsSection}` : "") +
         (templatesSection ? `\n\n### Resource Templates\n${templatesSection}` : "") +
         (resourcesSection ? `\n\n### Direct Resources\n${resourcesSection}` : "");
@@ -196,6 +196,10 @@ MCP tools can be used for various operations including:
 - Development workflow optimization
 - Any task where MCP tools provide value
 
+Each tool is listed by its ID, \`server/tool\`. Different servers may have
+tools with the same name, so always name the server: put the part of the ID
+before the slash in <server_name> and the part after it in <tool_name>.
+
 Consider MCP tools when they:
 - Improve efficiency
 - Provide better functionality
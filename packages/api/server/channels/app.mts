@@ -21,119 +21,21 @@ import WebSocketServer, {
 import { loadApp } from '../../apps/app.mjs';
 import { fileUpdated, pathToApp } from '../../apps/disk.mjs';
 import { directoryExists } from '../../fs-utils.mjs';
-import {
-  getAppProcess,
-  setAppProcess,
-  deleteAppProcess,
-  npmInstall,
-  viteServer,
-} from '../../apps/processes.mjs';
-
-const VITE_PORT_REGEX = /Local:.*http:\/\/localhost:([0-9]{1,4})/;
+import { closeRoot, directoryRoot, openRoot } from '../../mcp/roots.mjs';
+import { getAppProcess, npmInstall } from '../../apps/processes.mjs';
+import { startPreview, stopPreview } from '../../apps/preview.mjs';
 
 type AppContextType = MessageContextType<'appId'>;
 
-async function previewStart(
-  _payload: PreviewStartPayloadType,
-  context: AppContextType,
-  wss: WebSocketServer,
-) {
+async function previewStart(_payload: PreviewStartPayloadType, context: AppContextType) {
   const app = await loadApp(context.params.appId);
 
   if (!app) {
     return;
   }
 
-  const existingProcess = getAppProcess(app.externalId, 'vite:server');
-
-  if (existingProcess) {
-    wss.broadcast(`app:${app.externalId}`, 'preview:status', {
-      status: 'running',
-      url: `http://localhost:${existingProcess.port}/`,
-    });
-    return;
-  }
-
-  wss.broadcast(`app:${app.externalId}`, 'preview:status', {
-    url: null,
-    status: 'booting',
-  });
-
-  const onChangePort = (newPort: number) => {
-    const process = getAppProcess(app.externalId, 'vite:server');
-
-    // This is not expected to happen
-    if (!process) {
-      wss.broadcast(`app:${app.externalId}`, 'preview:status', {
-        url: null,
-        status: 'stopped',
-        code: null,
-      });
-      return;
-    }
-
-    setAppProcess(app.externalId, { ...process, port: newPort });
-
-    wss.broadcast(`app:${app.externalId}`, 'preview:status', {
-      url: `http://localhost:${newPort}/`,
-      status: 'running',
-    });
-  };
-
-  viteServer(app.externalId, {
-    args: [],
-    stdout: (data) => {
-      const encodedData = data.toString('utf8');
-      console.log(encodedData);
-
-      wss.broadcast(`app:${app.externalId}`, 'preview:log', {
-        log: {
-          type: 'stdout',
-          data: encodedData,
-        },
-      });
-
-      const potentialPortMatch = VITE_PORT_REGEX.exec(encodedData);
-      if (potentialPortMatch) {
-        const portString = potentialPortMatch[1]!;
-        const port = parseInt(portString, 10);
-        onChangePort(port);
-      }
-    },
-    stderr: (data) => {
-      const encodedData = data.toString('utf8');
-      console.error(encodedData);
-
-      wss.broadcast(`app:${app.externalId}`, 'preview:log', {
-        log: {
-          type: 'stderr',
-          data: encodedData,
-        },
-      });
-    },
-    onExit: (code) => {
-      deleteAppProcess(app.externalId, 'vite:server');
-
-      wss.broadcast(`app:${app.externalId}`, 'preview:status', {
-        url: null,
-        status: 'stopped',
-        code: code,
-      });
-    },
-    onError: (_error) => {
-      // Errors happen when we try to run vite before node modules are installed.
-      // Make sure we clean up the app process and inform the client.
-      deleteAppProcess(app.externalId, 'vite:server');
-
-      // TODO: Use a different event to communicate to the client there was an error.
-      // If the error is ENOENT, for example, it means node_modules and/or vite is missing.
-      wss.broadcast(`app:${app.externalId}`, 'preview:status', {
-        url: null,
-        status: 'stopped',
-        code: null,
-      });
-    },
-  });
+  // Status updates are broadcast to the app's channel as the preview boots.
+  startPreview(app);
 }
 
 async function previewStop(
@@ -147,21 +49,13 @@ async function previewStop(
     return;
   }
 
-  const result = getAppProcess(app.externalId, 'vite:server');
-
-  if (!result) {
+  if (!stopPreview(app)) {
     conn.reply(`app:${app.externalId}`, 'preview:status', {
       url: null,
       status: 'stopped',
       code: null,
     });
-    return;
   }
-
-  // Killing the process should result in its onExit handler being called.
-  // The onExit handler will remove the process from the processMetadata map
-  // and send the `preview:status` event with a value of 'stopped'
-  result.process.kill('SIGTERM');
 }
 
 async function dependenciesInstall(payload: DepsInstallPayloadType, context: AppContextType) {
@@ -227,9 +121,7 @@ async function onFileUpdated(payload: FileUpdatedPayloadType, context: AppContex
 export function register(wss: WebSocketServer) {
   wss
     .channel('app:<appId>')
-    .on('preview:start', PreviewStartPayloadSchema, (payload, context) =>
-      previewStart(payload, context, wss),
-    )
+    .on('preview:start', PreviewStartPayloadSchema, previewStart)
     .on('preview:stop', PreviewStopPayloadSchema, previewStop)
     .on('deps:install', DepsInstallPayloadSchema, dependenciesInstall)
     .on('deps:clear', DepsInstallPayloadSchema, clearNodeModules)
@@ -243,5 +135,15 @@ export function register(wss: WebSocketServer) {
       if (npmInstallProcess) {
         conn.reply(`app:${appExternalId}`, 'deps:install:status', { status: 'installing' });
       }
-    });
+
+      // The open app is the directory MCP servers are allowed to work in.
+      loadApp(appExternalId)
+        .then((app) => {
+          if (app) {
+            openRoot(conn, context.topic, directoryRoot(pathToApp(appExternalId), app.name));
+          }
+        })
+        .catch((e) => console.error(`Could not set MCP roots for app ${appExternalId}:`, e));
+    })
+    .onLeave((context, conn) => closeRoot(conn, context.topic));
 }
@@ -4,6 +4,7 @@ import fs from 'node:fs/promises';
 import { SRCBOOKS_DIR } from '../constants.mjs';
 import express, { type Application, type Response } from 'express';
 import cors from 'cors';
+import z from 'zod';
 import {
   createSession,
   findSession,
@@ -64,7 +65,31 @@ import { AppGenerationFeedbackType } from '@srcbook/shared';
 import { createZipFromApp } from '../apps/disk.mjs';
 import { checkoutCommit, commitAllFiles, getCurrentCommitSha } from '../apps/git.mjs';
 import { streamJsonResponse } from './utils.mjs';
-import mcpHubInstance from '../mcp/mcphub.mjs';
+import mcpHubInstance, {
+  McpQueueFullError,
+  McpTimeoutError,
+  McpToolResolutionError,
+} from '../mcp/mcphub.mjs';
+import {
+  loadMcpConfig,
+  removeMcpServer,
+  saveMcpServer,
+  type McpServerConfig,
+} from '../mcp/config.mjs';
+import {
+  McpPromptInvocationSchema,
+  McpResourceRefSchema,
+  McpServerCreateSchema,
+  McpServerUpdateSchema,
+  McpToolCallAuditQuerySchema,
+} from '../mcp/types/index.mjs';
+import { resolveResourceUri } from '../mcp/resources.mjs';
+import { resolvePrompt } from '../mcp/prompts.mjs';
+import { auditToolCalls, queryToolCalls } from '../mcp/audit.mjs';
+import { handleSrcbookMcpRequest } from '../mcp/srcbook-server.mjs';
+
+// Every tool call, whatever made it, is kept in the audit log.
+auditToolCalls(mcpHubInstance);
 
 const app: Application = express();
 
@@ -447,7 +472,11 @@ router.post('/apps', cors(), async (req, res) => {
 
   try {
     if (typeof attrs.prompt === 'string') {
-      const app = await createAppWithAi({ name: attrs.name, prompt: attrs.prompt });
+      const app = await createAppWithAi({
+        name: attrs.name,
+        prompt: attrs.prompt,
+        resources: attrs.resources,
+      });
       return res.json({ data: serializeApp(app) });
     } else {
       // TODO do we really need to keep this?
@@ -547,7 +576,22 @@ router.get('/apps/:id/directories', cors(), async (req, res) => {
 router.options('/apps/:id/edit', cors());
 router.post('/apps/:id/edit', cors(), async (req, res) => {
   const { id } = req.params;
-  const { query, planId } = req.body;
+  const { planId } = req.body;
+
+  const result = z
+    .object({
+      resources: z.array(McpResourceRefSchema).optional(),
+      prompt: McpPromptInvocationSchema.optional(),
+    })
+    .safeParse(req.body);
+
+  if (result.success === false) {
+    const errors = result.error.errors.map((error) => error.message);
+    return res.status(400).json({ errors });
+  }
+
+  const { resources, prompt } = result.data;
+
   posthog.capture({ event: 'user edited app with ai' });
   try {
     const app = await loadApp(id);
@@ -555,10 +599,21 @@ router.post('/apps/:id/edit', cors(), async (req, res) => {
     if (!app) {
       return res.status(404).json({ error: 'App not found' });
     }
+
+    // A slash command runs an MCP prompt, whose messages become the user request.
+    const query: string = prompt ? await resolvePrompt(prompt) : req.body.query;
+
     const validName = toValidPackageName(app.name);
     const files = await getFlatFilesForApp(String(app.externalId));
-    const result = await streamEditApp(validName, files, query, app.externalId, planId);
-    const planStream = await streamParsePlan(result, app, query, planId);
+    const stream = await streamEditApp(
+      validName,
+      files,
+      query,
+      app.externalId,
+      planId,
+      resources,
+    );
+    const planStream = await streamParsePlan(stream, app, query, planId);
 
     return streamJsonResponse(planStream, res, { status: 200 });
   } catch (e) {
@@ -785,6 +840,12 @@ router.post('/apps/:id/export', cors(), async (req, res) => {
 
 app.use('/api', router);
 
+// Other agents can drive this Srcbook over MCP, see mcp/srcbook-server.mts.
+// Not open to other origins, and only to other machines with the token.
+app.all('/mcp', express.json(), (req, res) =>
+  handleSrcbookMcpRequest(req, res, req.body, process.env.SRCBOOK_MCP_TOKEN),
+);
+
 export default app;
 
 router.options('/apps/:id/history', cors());
@@ -803,28 +864,298 @@ router.post('/apps/:id/history', cors(), async (req, res) => {
 
 router.options('/mcp/tool', cors());
 router.post('/mcp/tool', cors(), async (req, res) => {
+  // toolName may be a fully qualified ID, `server/tool`, in which case serverName is optional.
   const { serverName, toolName, arguments: toolArgs } = req.body;
 
-  if (!serverName || !toolName) {
+  if (!toolName) {
     return res.status(400).json({ 
       error: true, 
-      message: 'serverName and toolName are required' 
+      message: 'toolName is required' 
     });
   }
 
   try {
     const mcpHub = mcpHubInstance;
-    const result = await mcpHub.callTool(serverName, toolName, toolArgs || {});
+    const tool = mcpHub.resolveTool(toolName, serverName);
+    const result = await mcpHub.callTool(tool.serverName, tool.name, toolArgs || {});
     return res.json({ error: false, result });
   } catch (error) {
     console.error('MCP tool call failed:', error);
-    return res.status(500).json({ 
+    // An ambiguous reference is a conflict, one that matches nothing is not found.
+    const status =
+      error instanceof McpToolResolutionError
+        ? error.candidates.length > 0
+          ? 409
+          : 404
+        : error instanceof McpTimeoutError
+          ? 504
+          : error instanceof McpQueueFullError
+            ? 503
+            : 500;
+    return res.status(status).json({ 
       error: true, 
+      type:
+        error instanceof McpToolResolutionError ||
+        error instanceof McpTimeoutError ||
+        error instanceof McpQueueFullError
+          ? error.type
+          : undefined,
+      candidates: error instanceof McpToolResolutionError ? error.candidates : undefined,
       message: error instanceof Error ? error.message : String(error)
     });
   }
 });
 
+router.options('/mcp/tool-calls', cors());
+router.get('/mcp/tool-calls', cors(), async (req, res) => {
+  const result = McpToolCallAuditQuerySchema.safeParse(req.query);
+
+  if (result.success === false) {
+    const errors = result.error.errors.map((error) => `${error.path.join('.')}: ${error.message}`);
+    return res.status(400).json({ errors });
+  }
+
+  try {
+    const { calls, total } = await queryToolCalls(result.data);
+    return res.json({ data: calls, total, limit: result.data.limit, offset: result.data.offset });
+  } catch (e) {
+    return error500(res, e as Error);
+  }
+});
+
+router.options('/mcp/servers', cors());
+router.get('/mcp/servers', cors(), async (_req, res) => {
+  try {
+    return res.json({ data: mcpHubInstance.listServers() });
+  } catch (e) {
+    return error500(res, e as Error);
+  }
+});
+
+router.post('/mcp/servers', cors(), async (req, res) => {
+  const result = McpServerCreateSchema.safeParse(req.body);
+
+  if (result.success === false) {
+    const errors = result.error.errors.map((error) => error.message);
+    return res.status(400).json({ errors });
+  }
+
+  const { name, config } = result.data;
+
+  try {
+    const existing = await loadMcpConfig();
+    if (existing.mcpServers[name]) {
+      return res.status(409).json({ errors: [`Server ${name} already exists`] });
+    }
+
+    await saveMcpServer(name, config);
+    await connectMcpServer(name, config);
+    return res.json({ data: findMcpServer(name) });
+  } catch (e) {
+    return error500(res, e as Error);
+  }
+});
+
+router.options('/mcp/servers/:name', cors());
+router.put('/mcp/servers/:name', cors(), async (req, res) => {
+  const { name } = req.params;
+  const result = McpServerUpdateSchema.safeParse(req.body);
+
+  if (result.success === false) {
+    const errors = result.error.errors.map((error) => error.message);
+    return res.status(400).json({ errors });
+  }
+
+  try {
+    const existing = await loadMcpConfig();
+    if (!existing.mcpServers[name]) {
+      return res.status(404).json({ error: `Server ${name} not found` });
+    }
+
+    await saveMcpServer(name, result.data.config);
+    await connectMcpServer(name, result.data.config);
+    return res.json({ data: findMcpServer(name) });
+  } catch (e) {
+    return error500(res, e as Error);
+  }
+});
+
+router.delete('/mcp/servers/:name', cors(), async (req, res) => {
+  const { name } = req.params;
+
+  try {
+    const removed = await removeMcpServer(name);
+    if (!removed) {
+      return res.status(404).json({ error: `Server ${name} not found` });
+    }
+
+    await mcpHubInstance.removeServer(name);
+    return res.json({ data: { deleted: true } });
+  } catch (e) {
+    return error500(res, e as Error);
+  }
+});
+
+router.options('/mcp/servers/:name/reconnect', cors());
+router.post('/mcp/servers/:name/reconnect', cors(), async (req, res) => {
+  const { name } = req.params;
+
+  const server = findMcpServer(name);
+  if (!server) {
+    return res.status(404).json({ error: `Server ${name} not found` });
+  }
+  if (server.config.disabled) {
+    return res.status(400).json({ errors: [`Server ${name} is disabled`] });
+  }
+
+  try {
+    await mcpHubInstance.reconnectServer(name);
+  } catch (e) {
+    // The failure is recorded on the connection and returned with the server below.
+    console.error(`Failed to reconnect to server ${name}:`, e);
+  }
+
+  return res.json({ data: findMcpServer(name) });
+});
+
+router.options('/mcp/servers/:name/cache', cors());
+router.get('/mcp/servers/:name/cache', cors(), async (req, res) => {
+  const { name } = req.params;
+
+  if (!findMcpServer(name)) {
+    return res.status(404).json({ error: `Server ${name} not found` });
+  }
+
+  return res.json({ data: mcpHubInstance.getCacheStats(name) });
+});
+
+router.delete('/mcp/servers/:name/cache', cors(), async (req, res) => {
+  const { name } = req.params;
+
+  if (!findMcpServer(name)) {
+    return res.status(404).json({ error: `Server ${name} not found` });
+  }
+
+  mcpHubInstance.clearCache(name);
+  return res.json({ data: mcpHubInstance.getCacheStats(name) });
+});
+
+for (const action of ['enable', 'disable'] as const) {
+  router.options(`/mcp/servers/:name/${action}`, cors());
+  router.post(`/mcp/servers/:name/${action}`, cors(), async (req, res) => {
+    const { name } = req.params;
+
+    try {
+      const existing = await loadMcpConfig();
+      const serverConfig = existing.mcpServers[name];
+      if (!serverConfig) {
+        return res.status(404).json({ error: `Server ${name} not found` });
+      }
+
+      const config = { ...serverConfig, disabled: action === 'disable' };
+      await saveMcpServer(name, config);
+      await connectMcpServer(name, config);
+      return res.json({ data: findMcpServer(name) });
+    } catch (e) {
+      return error500(res, e as Error);
+    }
+  });
+}
+
+router.options('/mcp/resources', cors());
+router.get('/mcp/resources', cors(), async (_req, res) => {
+  try {
+    const servers = mcpHubInstance
+      .listConnections()
+      .filter((conn) => conn.status === 'connected' && conn.capabilities.resources);
+
+    const data = await Promise.all(
+      servers.map(async ({ name }) => ({
+        serverName: name,
+        resources: await mcpHubInstance.listResources(name),
+        resourceTemplates: await mcpHubInstance.listResourceTemplates(name),
+      })),
+    );
+
+    return res.json({ data });
+  } catch (e) {
+    return error500(res, e as Error);
+  }
+});
+
+router.options('/mcp/resources/read', cors());
+router.post('/mcp/resources/read', cors(), async (req, res) => {
+  const result = McpResourceRefSchema.safeParse(req.body);
+
+  if (result.success === false) {
+    const errors = result.error.errors.map((error) => error.message);
+    return res.status(400).json({ errors });
+  }
+
+  const ref = result.data;
+
+  if (!findMcpServer(ref.serverName)) {
+    return res.status(404).json({ error: `Server ${ref.serverName} not found` });
+  }
+
+  let uri: string;
+  try {
+    uri = resolveResourceUri(ref);
+  } catch (e) {
+    return res.status(400).json({ errors: [(e as Error).message] });
+  }
+
+  try {
+    const contents = await mcpHubInstance.readResource(ref.serverName, uri);
+    return res.json({ data: { serverName: ref.serverName, uri, contents } });
+  } catch (e) {
+    return error500(res, e as Error);
+  }
+});
+
+router.options('/mcp/tools', cors());
+router.get('/mcp/tools', cors(), async (_req, res) => {
+  try {
+    return res.json({ data: mcpHubInstance.getAllTools() });
+  } catch (e) {
+    return error500(res, e as Error);
+  }
+});
+
+router.options('/mcp/prompts', cors());
+router.get('/mcp/prompts', cors(), async (_req, res) => {
+  try {
+    const servers = mcpHubInstance
+      .listConnections()
+      .filter((conn) => conn.status === 'connected' && conn.capabilities.prompts);
+
+    const data = await Promise.all(
+      servers.map(async ({ name }) => ({
+        serverName: name,
+        prompts: await mcpHubInstance.listPrompts(name),
+      })),
+    );
+
+    return res.json({ data });
+  } catch (e) {
+    return error500(res, e as Error);
+  }
+});
+
+function findMcpServer(name: string) {
+  return mcpHubInstance.listServers().find((server) => server.name === name);
+}
+
+// Applies a saved config to the running hub. Connection failures are not request
+// failures: the server is saved either way and its error is reported in its status.
+async function connectMcpServer(name: string, config: McpServerConfig) {
+  try {
+    await mcpHubInstance.upsertServer(name, config);
+  } catch (e) {
+    console.error(`Failed to connect to server ${name}:`, e);
+  }
+}
+
 router.options('/apps/:id/feedback', cors());
 router.post('/apps/:id/feedback', cors(), async (req, res) => {
   const { id } = req.params;
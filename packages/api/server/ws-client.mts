@@ -64,6 +64,8 @@ export class Channel {
 
   onJoinCallback: HandlerType = () => {};
 
+  onLeaveCallback: (context: TopicMatch, conn: ConnectionContextType) => void = () => {};
+
   constructor(topic: string) {
     this.topic = topic;
     this.parts = this.splitIntoParts(topic);
@@ -136,6 +138,12 @@ export class Channel {
     this.onJoinCallback = callback;
     return this;
   }
+
+  // Called when a connection unsubscribes from the topic or goes away while subscribed.
+  onLeave(callback: (context: TopicMatch, conn: ConnectionContextType) => void) {
+    this.onLeaveCallback = callback;
+    return this;
+  }
 }
 
 type ConnectionType = {
@@ -162,7 +170,7 @@ export default class WebSocketServer {
       return;
     }
 
-    const connection = {
+    const connection: ConnectionType = {
       socket,
       subscriptions: [],
       reply: (topic: string, event: string, payload: Record<string, any>) => {
@@ -178,6 +186,9 @@ export default class WebSocketServer {
     });
 
     socket.on('close', () => {
+      for (const topic of connection.subscriptions) {
+        this.leave(connection, topic);
+      }
       this.removeConnection(socket);
     });
 
@@ -192,6 +203,10 @@ export default class WebSocketServer {
     return channel;
   }
 
+  hasSubscribers(topic: string) {
+    return this.connections.some((conn) => conn.subscriptions.includes(topic));
+  }
+
   broadcast(topic: string, event: string, payload: Record<string, any>) {
     for (const conn of this.connections) {
       if (conn.subscriptions.includes(topic)) {
@@ -226,6 +241,7 @@ export default class WebSocketServer {
 
     if (event === 'unsubscribe') {
       conn.subscriptions = conn.subscriptions.filter((t) => t !== topic);
+      channel.onLeaveCallback(match, conn);
       return;
     }
 
@@ -262,6 +278,13 @@ export default class WebSocketServer {
     return null;
   }
 
+  private leave(conn: ConnectionType, topic: string) {
+    const channelMatch = this.findChannelMatch(topic);
+    if (channelMatch !== null) {
+      channelMatch.channel.onLeaveCallback(channelMatch.match, conn);
+    }
+  }
+
   private removeConnection(socket: WebSocket) {
     this.connections = this.connections.filter((conn) => {
       return conn.socket !== socket;
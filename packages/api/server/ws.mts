@@ -66,7 +66,14 @@ import { removeCodeCellFromDisk } from '../srcbook/index.mjs';
 import { register as registerAppChannel } from './channels/app.mjs';
 import { register as registerServersChannel } from '../mcp/channels/servers.mjs';
 import { register as registerToolsChannel } from '../mcp/channels/tools.mjs';
+import { register as registerResourcesChannel } from '../mcp/channels/resources.mjs';
+import { register as registerSamplingChannel } from '../mcp/channels/sampling.mjs';
+import { register as registerElicitationChannel } from '../mcp/channels/elicitation.mjs';
+import { register as registerCallsChannel } from '../mcp/channels/calls.mjs';
+import { register as registerLogsChannel } from '../mcp/channels/logs.mjs';
+import { register as registerCompletionsChannel } from '../mcp/channels/completions.mjs';
 import mcpHubInstance from '../mcp/mcphub.mjs';
+import { closeRoot, directoryRoot, openRoot } from '../mcp/roots.mjs';
 
 type SessionsContextType = MessageContextType<'sessionId'>;
 
@@ -74,6 +81,12 @@ const wss = new WebSocketServer();
 
 registerServersChannel(wss, mcpHubInstance);
 registerToolsChannel(wss, mcpHubInstance);
+registerResourcesChannel(wss, mcpHubInstance);
+registerSamplingChannel(wss, mcpHubInstance);
+registerElicitationChannel(wss, mcpHubInstance);
+registerCallsChannel(wss, mcpHubInstance);
+registerLogsChannel(wss, mcpHubInstance);
+registerCompletionsChannel(wss, mcpHubInstance);
 
 function addRunningProcess(
   session: SessionType,
@@ -895,7 +908,18 @@ wss
     'tsserver:cell:completions:request',
     TsServerDefinitionLocationRequestPayloadSchema,
     getCompletions,
-  );
+  )
+  .onJoin(async (_payload, context, conn) => {
+    // The open srcbook is the directory MCP servers are allowed to work in.
+    try {
+      const session = await findSession(context.params.sessionId!);
+      const title = session.cells.find((cell) => cell.type === 'title');
+      openRoot(conn, context.topic, directoryRoot(session.dir, title?.text));
+    } catch (e) {
+      console.error(`Could not set MCP roots for srcbook ${context.params.sessionId}:`, e);
+    }
+  })
+  .onLeave((context, conn) => closeRoot(conn, context.topic));
 
 registerAppChannel(wss);
 
@@ -0,0 +1,85 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { vi } from 'vitest';
+import type { App } from '../db/schema.mjs';
+
+// Apps are kept in a temporary directory instead of ~/.srcbook/apps.
+const mockDirs = vi.hoisted(() => {
+  const os = require('node:os') as typeof import('node:os');
+  const path = require('node:path') as typeof import('node:path');
+  const fs = require('node:fs') as typeof import('node:fs');
+  const appsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'apps-git-'));
+  return { appsDir };
+});
+
+const mockBroadcast = vi.hoisted(() => vi.fn());
+
+vi.mock('../constants.mjs', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../constants.mjs')>()),
+  APPS_DIR: mockDirs.appsDir,
+}));
+
+// What browsers with the app open would be sent.
+vi.mock('../index.mjs', () => ({
+  wss: { broadcast: mockBroadcast },
+}));
+
+describe('App versions', () => {
+  const app: App = {
+    id: 1,
+    name: 'Todo',
+    externalId: 'todo-app',
+    history: '[]',
+    historyVersion: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  const appDir = path.join(mockDirs.appsDir, app.externalId);
+  let git: typeof import('../apps/git.mjs');
+
+  beforeAll(async () => {
+    // Commits need an identity, which the machine running the tests may not have.
+    for (const name of ['GIT_AUTHOR_NAME', 'GIT_COMMITTER_NAME']) process.env[name] = 'Test';
+    for (const name of ['GIT_AUTHOR_EMAIL', 'GIT_COMMITTER_EMAIL']) {
+      process.env[name] = 'test@srcbook.com';
+    }
+
+    await fs.mkdir(path.join(appDir, 'src'), { recursive: true });
+    await fs.writeFile(path.join(appDir, 'src', 'App.tsx'), 'export default function App() {}');
+    git = await import('../apps/git.mjs');
+    await git.initRepo(app);
+  });
+
+  afterAll(async () => {
+    await fs.rm(mockDirs.appsDir, { recursive: true, force: true });
+  });
+
+  it('tells browsers about the files a checkout brings back or changes', async () => {
+    const [initial] = await git.getCommitHistory(app);
+    await fs.writeFile(path.join(appDir, 'src', 'Old.tsx'), 'export const Old = 1;');
+    const old = await git.commitAllFiles(app, 'Add Old');
+    await fs.rm(path.join(appDir, 'src', 'Old.tsx'));
+    await fs.writeFile(path.join(appDir, 'src', 'App.tsx'), 'export default function App() { }');
+    await fs.writeFile(path.join(appDir, 'src', 'New.tsx'), 'export const New = 1;');
+    await git.commitAllFiles(app, 'Replace Old with New');
+
+    await git.checkoutCommit(app, old);
+    expect(mockBroadcast.mock.calls.map(([, , { file }]) => file.path).sort()).toEqual([
+      'src/App.tsx',
+      'src/Old.tsx',
+    ]);
+    expect(mockBroadcast).toHaveBeenCalledWith(`app:${app.externalId}`, 'file:updated', {
+      file: {
+        path: 'src/Old.tsx',
+        name: 'Old.tsx',
+        source: 'export const Old = 1;',
+        binary: false,
+      },
+    });
+
+    // Files the checkout removed have nothing to send.
+    mockBroadcast.mockClear();
+    await git.checkoutCommit(app, initial!.hash);
+    expect(mockBroadcast).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,231 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+// Apps are kept in a temporary directory instead of ~/.srcbook/apps.
+const mockDirs = vi.hoisted(() => {
+  const os = require('node:os') as typeof import('node:os');
+  const path = require('node:path') as typeof import('node:path');
+  const fs = require('node:fs') as typeof import('node:fs');
+  const appsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'apps-mcp-'));
+  return { appsDir };
+});
+
+const mockBroadcast = vi.hoisted(() => vi.fn());
+
+vi.mock('../constants.mjs', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../constants.mjs')>()),
+  APPS_DIR: mockDirs.appsDir,
+}));
+
+// What browsers with the app open would be sent.
+vi.mock('../index.mjs', () => ({
+  wss: { broadcast: mockBroadcast },
+}));
+
+// An empty database with every migration applied, in place of ~/.srcbook/srcbook.db.
+vi.mock('../db/index.mjs', async () => {
+  const { drizzle } = await import('drizzle-orm/better-sqlite3');
+  const { migrate } = await import('drizzle-orm/better-sqlite3/migrator');
+  const { default: Database } = await import('better-sqlite3');
+  const schema = await import('../db/schema.mjs');
+  const db = drizzle(new Database(':memory:'), { schema });
+  migrate(db, { migrationsFolder: path.join(__dirname, '..', 'drizzle') });
+  return { db };
+});
+
+vi.mock('../ai/config.mjs', () => ({
+  getModel: vi.fn(),
+}));
+
+// Stands in for vite: says where it serves the app, then waits to be stopped.
+const FAKE_VITE = `#!/bin/sh
+echo "  Local:   http://localhost:5199/"
+echo "warming up" >&2
+exec sleep 30
+`;
+
+describe('App tools over MCP', () => {
+  const client = new Client({ name: 'agent', version: '1.0.0' });
+  const appId = 'todo-app';
+  const appDir = path.join(mockDirs.appsDir, appId);
+
+  async function call(name: string, args: Record<string, unknown> = {}) {
+    const result = await client.callTool({ name, arguments: { appId, ...args } });
+    const text = (result.content as { text: string }[])[0]!.text;
+    if (result.isError) {
+      throw new Error(text);
+    }
+    return JSON.parse(text);
+  }
+
+  beforeAll(async () => {
+    // Commits need an identity, which the machine running the tests may not have.
+    for (const name of ['GIT_AUTHOR_NAME', 'GIT_COMMITTER_NAME']) process.env[name] = 'Test';
+    for (const name of ['GIT_AUTHOR_EMAIL', 'GIT_COMMITTER_EMAIL']) {
+      process.env[name] = 'test@srcbook.com';
+    }
+
+    await fs.mkdir(path.join(appDir, 'src'), { recursive: true });
+    await fs.mkdir(path.join(appDir, 'node_modules', '.bin'), { recursive: true });
+    await fs.writeFile(path.join(appDir, 'src', 'App.tsx'), 'export default function App() {}');
+    await fs.writeFile(path.join(appDir, 'node_modules', '.bin', 'vite'), FAKE_VITE, {
+      mode: 0o755,
+    });
+    await fs.writeFile(path.join(appDir, '.gitignore'), 'node_modules\n');
+
+    const { db } = await import('../db/index.mjs');
+    const { apps } = await import('../db/schema.mjs');
+    await db.insert(apps).values({ name: 'Todo', externalId: appId });
+    const { loadApp } = await import('../apps/app.mjs');
+    const { initRepo } = await import('../apps/git.mjs');
+    await initRepo((await loadApp(appId))!);
+
+    const { registerAppTools } = await import('../mcp/apps-tools.mjs');
+    const server = new McpServer({ name: 'srcbook', version: '1.0.0' });
+    registerAppTools(server);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await client.close();
+    await fs.rm(mockDirs.appsDir, { recursive: true, force: true });
+  });
+
+  it('lists apps and their files', async () => {
+    expect(await call('list_apps')).toEqual([expect.objectContaining({ id: appId, name: 'Todo' })]);
+    expect(await call('list_directory', { path: 'src' })).toEqual([
+      { type: 'file', path: 'src/App.tsx', dirname: 'src', basename: 'App.tsx' },
+    ]);
+    expect(await call('read_file', { path: 'src/App.tsx' })).toMatchObject({
+      source: 'export default function App() {}',
+    });
+  });
+
+  it('writes files and tells browsers with the app open', async () => {
+    mockBroadcast.mockClear();
+    await call('write_file', { path: 'src/Todo.tsx', source: 'export const Todo = 1;' });
+
+    expect(await fs.readFile(path.join(appDir, 'src', 'Todo.tsx'), 'utf8')).toBe(
+      'export const Todo = 1;',
+    );
+    expect(mockBroadcast).toHaveBeenCalledWith(`app:${appId}`, 'file:updated', {
+      file: {
+        path: 'src/Todo.tsx',
+        name: 'Todo.tsx',
+        source: 'export const Todo = 1;',
+        binary: false,
+      },
+    });
+
+    expect(await call('rename_file', { path: 'src/Todo.tsx', name: 'Todos.tsx' })).toMatchObject({
+      path: 'src/Todos.tsx',
+    });
+    expect(mockBroadcast).toHaveBeenCalledWith(`app:${appId}`, 'file:renamed', {
+      oldPath: 'src/Todo.tsx',
+      newPath: 'src/Todos.tsx',
+    });
+  });
+
+  it('refuses paths outside of the app', async () => {
+    await expect(call('read_file', { path: '../../etc/passwd' })).rejects.toThrow(
+      `Path ../../etc/passwd is outside of app ${appId}`,
+    );
+    await expect(call('write_file', { path: '/tmp/evil.js', source: '' })).rejects.toThrow(
+      'is outside of app',
+    );
+    await expect(call('write_file', { path: '.git/hooks/pre-commit', source: '' })).rejects.toThrow(
+      'is outside of app',
+    );
+    await expect(call('rename_file', { path: 'src/App.tsx', name: '../App.tsx' })).rejects.toThrow(
+      '../App.tsx is not a valid file name',
+    );
+  });
+
+  it('refuses paths that leave the app through a symlink', async () => {
+    const otherDir = path.join(mockDirs.appsDir, 'other-app');
+    await fs.mkdir(otherDir);
+    await fs.writeFile(path.join(otherDir, '.env'), 'SECRET=1');
+    await fs.symlink(otherDir, path.join(appDir, 'other'));
+
+    await expect(call('read_file', { path: 'other/.env' })).rejects.toThrow(
+      `Path other/.env is outside of app ${appId}`,
+    );
+    await expect(call('write_file', { path: 'other/evil.js', source: '' })).rejects.toThrow(
+      'is outside of app',
+    );
+    await expect(fs.access(path.join(otherDir, 'evil.js'))).rejects.toThrow();
+
+    await fs.rm(path.join(appDir, 'other'));
+  });
+
+  it('commits versions and checks them out again', async () => {
+    const [initial] = await call('list_versions');
+    await call('write_file', { path: 'src/App.tsx', source: 'export default function App() { }' });
+    const { sha } = await call('commit', { message: 'Reformat App' });
+
+    const versions = await call('list_versions');
+    expect(versions.map((version: { message: string }) => version.message)).toEqual([
+      'Reformat App',
+      'Initial commit',
+    ]);
+    expect(versions[0].sha).toBe(sha);
+
+    mockBroadcast.mockClear();
+    await call('checkout_version', { sha: initial.sha });
+    expect(await fs.readFile(path.join(appDir, 'src', 'App.tsx'), 'utf8')).toBe(
+      'export default function App() {}',
+    );
+    expect(mockBroadcast).toHaveBeenCalledWith(
+      `app:${appId}`,
+      'file:updated',
+      expect.objectContaining({ file: expect.objectContaining({ path: 'src/App.tsx' }) }),
+    );
+
+    await expect(call('checkout_version', { sha: '--orphan=main' })).rejects.toThrow(
+      'Expected a commit hash',
+    );
+    await expect(call('checkout_version', { sha: 'HEAD~1' })).rejects.toThrow(
+      'Expected a commit hash',
+    );
+  });
+
+  it('starts and stops the preview and keeps its logs', async () => {
+    expect(await call('start_preview')).toEqual({
+      status: 'running',
+      url: 'http://localhost:5199/',
+    });
+    expect(await call('start_preview')).toEqual({
+      status: 'running',
+      url: 'http://localhost:5199/',
+    });
+
+    await vi.waitFor(async () =>
+      expect(await call('read_preview_logs')).toEqual(
+        expect.arrayContaining([
+          { type: 'stdout', data: expect.stringContaining('Local:') },
+          { type: 'stderr', data: 'warming up\n' },
+        ]),
+      ),
+    );
+
+    expect(await call('stop_preview')).toEqual({ stopped: true });
+    await vi.waitFor(() =>
+      expect(mockBroadcast).toHaveBeenCalledWith(`app:${appId}`, 'preview:status', {
+        url: null,
+        status: 'stopped',
+        code: null,
+      }),
+    );
+    expect(await call('stop_preview')).toEqual({ stopped: false });
+  });
+});
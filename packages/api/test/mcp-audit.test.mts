@@ -0,0 +1,182 @@
+import path from 'node:path';
+import { vi } from 'vitest';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { mockConfig, serveInMemory } from './mock-mcp.mjs';
+
+// An empty database with every migration applied, in place of ~/.srcbook/srcbook.db.
+vi.mock('../db/index.mjs', async () => {
+  const { drizzle } = await import('drizzle-orm/better-sqlite3');
+  const { migrate } = await import('drizzle-orm/better-sqlite3/migrator');
+  const { default: Database } = await import('better-sqlite3');
+  const schema = await import('../db/schema.mjs');
+  const db = drizzle(new Database(':memory:'), { schema });
+  migrate(db, { migrationsFolder: path.join(__dirname, '..', 'drizzle') });
+  return { db };
+});
+
+function createServer() {
+  const server = new McpServer({ name: 'github', version: '1.0.0' });
+  server.tool(
+    'create_issue',
+    { title: z.string(), auth: z.object({ token: z.string() }).optional() },
+    async ({ title }) => ({ content: [{ type: 'text', text: `Created ${title}` }] }),
+  );
+  return server;
+}
+
+describe('MCP tool call audit log', () => {
+  serveInMemory('github', createServer);
+
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+  let DEFAULT_SENSITIVE_FIELDS: string[];
+  let audit: typeof import('../mcp/audit.mjs');
+
+  function query(filters: Record<string, unknown> = {}) {
+    return audit.queryToolCalls({ limit: 50, offset: 0, ...filters });
+  }
+
+  beforeAll(async () => {
+    mockConfig.mcpServers = { github: { command: 'github' } };
+
+    ({ default: mcpHub, DEFAULT_SENSITIVE_FIELDS } = await import('../mcp/mcphub.mjs'));
+    audit = await import('../mcp/audit.mjs');
+    audit.auditToolCalls(mcpHub);
+    await mcpHub.initialize();
+  });
+
+  it('records completed calls with their origin and a summary of the result', async () => {
+    await mcpHub.callTool(
+      'github',
+      'create_issue',
+      { title: 'Bug' },
+      { origin: { appId: 'app-1', planId: 'plan-1', source: 'plan' } },
+    );
+
+    await vi.waitFor(async () => expect((await query()).total).toBe(1));
+    const { calls } = await query();
+    expect(calls[0]).toMatchObject({
+      serverName: 'github',
+      toolName: 'create_issue',
+      args: { title: 'Bug' },
+      status: 'completed',
+      cached: false,
+      resultSummary: 'Created Bug',
+      error: null,
+      appId: 'app-1',
+      planId: 'plan-1',
+      source: 'plan',
+    });
+    expect(calls[0]!.durationMs).toBeGreaterThanOrEqual(0);
+    expect(calls[0]!.startedAt).toBeInstanceOf(Date);
+  });
+
+  it('records failed calls with their error', async () => {
+    await expect(mcpHub.callTool('github', 'delete_repo', {})).rejects.toThrow();
+
+    await vi.waitFor(async () =>
+      expect((await query({ status: 'failed' })).calls).toMatchObject([
+        {
+          toolName: 'delete_repo',
+          resultSummary: null,
+          error: expect.stringContaining("Tool 'delete_repo' not found on server github"),
+        },
+      ]),
+    );
+  });
+
+  it('redacts sensitive fields before storing arguments', async () => {
+    await mcpHub.callTool('github', 'create_issue', {
+      title: 'Leak',
+      auth: { token: 'ghp_secret' },
+    });
+    await vi.waitFor(async () =>
+      expect((await query({ toolName: 'create_issue' })).calls[0]!.args).toEqual({
+        title: 'Leak',
+        auth: { token: '[redacted]' },
+      }),
+    );
+
+    mcpHub.setSensitiveFields(['title']);
+    await mcpHub.callTool('github', 'create_issue', { title: 'Secret', auth: { token: 't' } });
+    await vi.waitFor(async () =>
+      expect((await query({ toolName: 'create_issue' })).calls[0]!.args).toEqual({
+        title: '[redacted]',
+        auth: { token: 't' },
+      }),
+    );
+    mcpHub.setSensitiveFields(DEFAULT_SENSITIVE_FIELDS);
+  });
+
+  it("redacts the tool executor's sensitive fields", async () => {
+    const { BaseToolExecutor } = await import('../ai/tool-executor-base.mjs');
+    const executor = new BaseToolExecutor(mcpHub, undefined, { sensitiveFields: ['title'] });
+    await executor.executeTool({
+      serverName: 'github',
+      toolName: 'create_issue',
+      arguments: { title: 'Hidden', auth: { token: 't' } },
+    });
+    await vi.waitFor(async () =>
+      expect((await query({ toolName: 'create_issue' })).calls[0]!.args).toEqual({
+        title: '[redacted]',
+        auth: { token: 't' },
+      }),
+    );
+
+    new BaseToolExecutor(mcpHub);
+    await mcpHub.callTool('github', 'create_issue', { title: 'Shown', auth: { token: 't' } });
+    await vi.waitFor(async () =>
+      expect((await query({ toolName: 'create_issue' })).calls[0]!.args).toEqual({
+        title: 'Shown',
+        auth: { token: '[redacted]' },
+      }),
+    );
+  });
+
+  it('filters and pages through recorded calls, newest first', async () => {
+    const startedAt = Date.parse('2030-01-01T00:00:00Z');
+    for (let i = 0; i < 5; i++) {
+      await audit.recordToolCall({
+        callId: `paged-${i}`,
+        serverName: 'linear',
+        toolName: 'list_issues',
+        args: {},
+        status: 'completed',
+        startedAt: startedAt + i * 1000,
+        finishedAt: startedAt + i * 1000 + 20,
+        origin: { planId: i % 2 === 0 ? 'even' : 'odd' },
+      });
+    }
+
+    const firstPage = await query({ serverName: 'linear', limit: 2 });
+    expect(firstPage.total).toBe(5);
+    expect(firstPage.calls.map((call) => call.callId)).toEqual(['paged-4', 'paged-3']);
+
+    const lastPage = await query({ serverName: 'linear', limit: 2, offset: 4 });
+    expect(lastPage.calls.map((call) => call.callId)).toEqual(['paged-0']);
+
+    const odd = await query({ planId: 'odd' });
+    expect(odd.calls.map((call) => call.callId)).toEqual(['paged-3', 'paged-1']);
+
+    const window = await query({ since: startedAt + 1000, until: startedAt + 3000 });
+    expect(window.calls.map((call) => call.callId)).toEqual(['paged-2', 'paged-1']);
+    expect(window.calls[0]!.durationMs).toBe(20);
+  });
+
+  it('summarizes results as their text, cut down when long', () => {
+    expect(
+      audit.summarizeResult({
+        content: [
+          { type: 'text', text: 'first' },
+          { type: 'image', data: '', mimeType: 'image/png' },
+        ],
+      }),
+    ).toBe('first\n[image]');
+    expect(audit.summarizeResult({ ok: true })).toBe('{"ok":true}');
+    expect(audit.summarizeResult(undefined)).toBeNull();
+
+    const summary = audit.summarizeResult({ content: [{ type: 'text', text: 'x'.repeat(600) }] });
+    expect(summary).toHaveLength(501);
+    expect(summary!.endsWith('…')).toBe(true);
+  });
+});
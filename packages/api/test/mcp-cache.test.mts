@@ -0,0 +1,171 @@
+import { vi } from 'vitest';
+import { mockConfig, mockServer } from './mock-mcp.mjs';
+
+describe('MCP tool result cache', () => {
+  const repos = mockServer('repos', {
+    tools: [
+      {
+        name: 'search_repositories',
+        inputSchema: {
+          type: 'object',
+          properties: { query: { type: 'string' }, page: { type: 'number' } },
+        },
+        annotations: { readOnlyHint: true },
+        responses: [{ text: 'srcbook' }, { text: 'srcbook, srcbook-mcp' }],
+      },
+      {
+        name: 'get_status',
+        annotations: { readOnlyHint: true },
+        responses: [
+          { result: { isError: true, content: [{ type: 'text', text: 'Rate limited' }] } },
+          { text: 'ok' },
+        ],
+      },
+      { name: 'create_repository', responses: [{ text: 'created' }] },
+      // Nothing in the name gives away that it writes.
+      { name: 'update_issue', responses: [{ text: 'updated' }] },
+      {
+        name: 'merge_pull_request',
+        annotations: { readOnlyHint: false },
+        responses: [{ text: 'merged' }],
+      },
+    ],
+  });
+  const uncached = mockServer('uncached', {
+    tools: [{ name: 'list_commits', responses: [{ text: 'abc123' }] }],
+  });
+
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+
+  async function call(serverName: string, toolName: string, args: Record<string, unknown> = {}) {
+    const { content } = await mcpHub.callTool(serverName, toolName, args);
+    return content[0].text;
+  }
+
+  beforeAll(async () => {
+    mockConfig.mcpServers = {
+      repos: { command: 'repos', cacheTtl: 60000, retries: 0 },
+      uncached: { command: 'uncached' },
+    };
+    // Keep later imports of the dev server from racing.
+    await import('../dev-server.mjs');
+    ({ default: mcpHub } = await import('../mcp/mcphub.mjs'));
+    await mcpHub.initialize();
+
+    // The executor judges which tools are read-only.
+    const { BaseToolExecutor } = await import('../ai/tool-executor-base.mjs');
+    new BaseToolExecutor(mcpHub);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    mcpHub.clearCache('repos');
+    repos.calls.length = 0;
+    uncached.calls.length = 0;
+  });
+
+  it('answers repeated calls of read-only tools from the cache', async () => {
+    const stats = mcpHub.getCacheStats('repos');
+
+    expect(await call('repos', 'search_repositories', { query: 'srcbook', page: 1 })).toBe(
+      'srcbook',
+    );
+    // The same arguments in another order.
+    expect(await call('repos', 'search_repositories', { page: 1, query: 'srcbook' })).toBe(
+      'srcbook',
+    );
+    expect(repos.calls).toHaveLength(1);
+
+    // Other arguments are another entry.
+    await call('repos', 'search_repositories', { query: 'mcp', page: 1 });
+    expect(repos.calls).toHaveLength(2);
+
+    expect(mcpHub.getCacheStats('repos')).toEqual({
+      hits: stats.hits + 1,
+      misses: stats.misses + 2,
+      entries: 2,
+    });
+  });
+
+  it('records calls answered from the cache for the audit log', async () => {
+    const records: import('../mcp/mcphub.mjs').ToolCallRecord[] = [];
+    mcpHub.onToolCallRecord((record) => records.push(record));
+
+    const args = { query: 'audited', token: 'secret' };
+    await call('repos', 'search_repositories', args);
+    const result = await mcpHub.callTool('repos', 'search_repositories', args, {
+      origin: { appId: 'app-1' },
+    });
+
+    expect(repos.calls).toHaveLength(1);
+    expect(records).toHaveLength(2);
+    expect(records[0]).not.toHaveProperty('cached');
+    expect(records[1]).toMatchObject({
+      serverName: 'repos',
+      toolName: 'search_repositories',
+      args: { query: 'audited', token: '[redacted]' },
+      status: 'completed',
+      cached: true,
+      result,
+      origin: { appId: 'app-1' },
+    });
+    expect(records[1]!.callId).not.toBe(records[0]!.callId);
+  });
+
+  it('forgets results once they expire', async () => {
+    await call('repos', 'search_repositories', { query: 'expiring' });
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 60001);
+    expect(mcpHub.getCacheStats('repos').entries).toBe(0);
+    await call('repos', 'search_repositories', { query: 'expiring' });
+    expect(repos.calls).toHaveLength(2);
+  });
+
+  it('clears the cache when a write tool on the server succeeds', async () => {
+    await call('repos', 'search_repositories', { query: 'srcbook' });
+    await call('repos', 'create_repository', { name: 'srcbook-mcp' });
+    expect(mcpHub.getCacheStats('repos').entries).toBe(0);
+
+    expect(await call('repos', 'search_repositories', { query: 'srcbook' })).toBe(
+      'srcbook, srcbook-mcp',
+    );
+    expect(repos.calls.map((call) => call.name)).toEqual([
+      'search_repositories',
+      'create_repository',
+      'search_repositories',
+    ]);
+  });
+
+  it("doesn't cache tools the server doesn't say are read-only", async () => {
+    await call('repos', 'search_repositories', { query: 'srcbook' });
+    await call('repos', 'update_issue', { title: 'Fix' });
+    await call('repos', 'update_issue', { title: 'Fix' });
+    expect(mcpHub.getCacheStats('repos').entries).toBe(0);
+
+    await call('repos', 'merge_pull_request', { number: 1 });
+    await call('repos', 'merge_pull_request', { number: 1 });
+    expect(repos.calls.map((call) => call.name)).toEqual([
+      'search_repositories',
+      'update_issue',
+      'update_issue',
+      'merge_pull_request',
+      'merge_pull_request',
+    ]);
+  });
+
+  it("doesn't cache results that are errors", async () => {
+    await expect(mcpHub.callTool('repos', 'get_status', {})).resolves.toMatchObject({
+      isError: true,
+    });
+    expect(await call('repos', 'get_status')).toBe('ok');
+    expect(repos.calls).toHaveLength(2);
+  });
+
+  it("doesn't cache servers without a cacheTtl", async () => {
+    await call('uncached', 'list_commits');
+    await call('uncached', 'list_commits');
+    expect(uncached.calls).toHaveLength(2);
+    expect(mcpHub.getCacheStats('uncached')).toEqual({ hits: 0, misses: 0, entries: 0 });
+  });
+});
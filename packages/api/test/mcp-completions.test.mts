@@ -0,0 +1,147 @@
+import { vi } from 'vitest';
+import { z } from 'zod';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { mockConfig, mockServer, serveInMemory } from './mock-mcp.mjs';
+import { createBrowser } from './utils.mjs';
+
+const REPOS: Record<string, string[]> = {
+  srcbookdev: ['srcbook', 'srcbook-examples'],
+  modelcontextprotocol: ['servers', 'typescript-sdk'],
+};
+
+function createGitHubServer() {
+  const server = new McpServer({ name: 'github', version: '1.0.0' });
+
+  server.prompt(
+    'review-pr',
+    'Review a pull request',
+    {
+      owner: completable(z.string(), (value) =>
+        Object.keys(REPOS).filter((owner) => owner.startsWith(value)),
+      ),
+      repo: completable(z.string(), (value, context) =>
+        (REPOS[context?.arguments?.owner ?? ''] ?? []).filter((repo) => repo.startsWith(value)),
+      ),
+    },
+    ({ owner, repo }) => ({
+      messages: [{ role: 'user', content: { type: 'text', text: `Review ${owner}/${repo}` } }],
+    }),
+  );
+
+  server.resource(
+    'repository',
+    new ResourceTemplate('repo://{owner}', {
+      list: undefined,
+      complete: { owner: (value) => Object.keys(REPOS).filter((owner) => owner.startsWith(value)) },
+    }),
+    (uri) => ({ contents: [{ uri: uri.href, text: '' }] }),
+  );
+
+  return server;
+}
+
+describe('MCP argument completion', () => {
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+  const browser = createBrowser();
+  const TOPIC = 'mcp:completions';
+
+  serveInMemory('github', createGitHubServer);
+  mockServer('deploy', {
+    tools: [
+      {
+        name: 'deploy',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            environment: { type: 'string', enum: ['staging', 'production', 'preview'] },
+            branch: { type: 'string', examples: ['main', 'release/1.0'] },
+          },
+        },
+        responses: [{}],
+      },
+    ],
+  });
+
+  beforeAll(async () => {
+    mockConfig.mcpServers = { github: { command: 'github' }, deploy: { command: 'deploy' } };
+    mcpHub = (await import('../mcp/mcphub.mjs')).default;
+    await mcpHub.initialize();
+
+    const { default: WebSocketServer } = await import('../server/ws-client.mjs');
+    const { register } = await import('../mcp/channels/completions.mjs');
+    const wss = new WebSocketServer();
+    register(wss, mcpHub);
+    browser.connect(wss);
+    browser.push(TOPIC, 'subscribe', { id: 'tab' });
+  });
+
+  it('completes prompt arguments, using the ones filled in so far', async () => {
+    const ref = { type: 'ref/prompt', name: 'review-pr' } as const;
+
+    expect(await mcpHub.complete('github', ref, { name: 'owner', value: 'src' })).toMatchObject({
+      values: ['srcbookdev'],
+    });
+    expect(
+      await mcpHub.complete(
+        'github',
+        ref,
+        { name: 'repo', value: '' },
+        { owner: 'modelcontextprotocol' },
+      ),
+    ).toMatchObject({ values: ['servers', 'typescript-sdk'] });
+  });
+
+  it('completes resource template variables', async () => {
+    const ref = { type: 'ref/resource', uri: 'repo://{owner}' } as const;
+    expect(await mcpHub.complete('github', ref, { name: 'owner', value: 'm' })).toMatchObject({
+      values: ['modelcontextprotocol'],
+    });
+  });
+
+  it('completes tool arguments from the values their schema allows', async () => {
+    const ref = { type: 'ref/tool', name: 'deploy' } as const;
+    expect(await mcpHub.complete('deploy', ref, { name: 'environment', value: 'P' })).toEqual({
+      values: ['production', 'preview'],
+      total: 2,
+      hasMore: false,
+    });
+    expect(await mcpHub.complete('deploy', ref, { name: 'branch', value: 'r' })).toEqual({
+      values: ['release/1.0'],
+      total: 1,
+      hasMore: false,
+    });
+  });
+
+  it("suggests nothing when the server doesn't support completion", async () => {
+    const ref = { type: 'ref/prompt', name: 'anything' } as const;
+    expect(await mcpHub.complete('deploy', ref, { name: 'x', value: '' })).toEqual({ values: [] });
+  });
+
+  it('answers the browser over the websocket', async () => {
+    browser.push(TOPIC, 'completion:request', {
+      requestId: 'r1',
+      serverName: 'github',
+      ref: { type: 'ref/prompt', name: 'review-pr' },
+      argument: { name: 'repo', value: 'srcbook-' },
+      context: { owner: 'srcbookdev' },
+    });
+    browser.push(TOPIC, 'completion:request', {
+      requestId: 'r2',
+      serverName: 'gitlab',
+      ref: { type: 'ref/prompt', name: 'review-pr' },
+      argument: { name: 'owner', value: '' },
+    });
+
+    await vi.waitFor(() =>
+      expect(browser.received('completion:result')).toEqual([
+        expect.objectContaining({ requestId: 'r1', values: ['srcbook-examples'] }),
+      ]),
+    );
+    await vi.waitFor(() =>
+      expect(browser.received('completion:error')).toEqual([
+        { requestId: 'r2', error: 'Server gitlab is not connected' },
+      ]),
+    );
+  });
+});
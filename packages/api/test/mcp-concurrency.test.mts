@@ -0,0 +1,216 @@
+import { vi } from 'vitest';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { mockConfig, serveInMemory } from './mock-mcp.mjs';
+
+describe('MCP tool call concurrency', () => {
+  // Labels of the calls that reached a server, in order, and how to finish them.
+  const started: string[] = [];
+  const finishers = new Map<string, () => void>();
+
+  function createWorkerServer() {
+    const server = new McpServer({ name: 'worker', version: '1.0.0' });
+    server.tool('work', 'Work until told to stop', { label: z.string() }, async ({ label }) => {
+      started.push(label);
+      await new Promise<void>((resolve) => finishers.set(label, resolve));
+      return { content: [{ type: 'text', text: label }] };
+    });
+    return server;
+  }
+
+  serveInMemory('worker', createWorkerServer);
+
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+  let McpQueueFullError: typeof import('../mcp/mcphub.mjs').McpQueueFullError;
+  const events: import('../mcp/mcphub.mjs').ToolCallEvent[] = [];
+
+  // Start a call and wait until it has been handed to the queue. Calls that
+  // race to import the dev server don't all get the mock, so go one by one.
+  async function start(serverName: string, label: string) {
+    const { trackOperation } = await import('../dev-server.mjs');
+    const calls = vi.mocked(trackOperation).mock.calls.length;
+    const result = mcpHub.callTool(serverName, 'work', { label });
+    // Failures are for the test to check, not unhandled while we wait.
+    result.catch(() => {});
+    await vi.waitFor(() => expect(trackOperation).toHaveBeenCalledTimes(calls + 1));
+    return { result };
+  }
+
+  async function startAll(serverName: string, labels: string[]) {
+    const results = [];
+    for (const label of labels) {
+      results.push((await start(serverName, label)).result);
+    }
+    return results;
+  }
+
+  async function finish(...labels: string[]) {
+    for (const label of labels) {
+      await vi.waitFor(() => expect(finishers.has(label)).toBe(true));
+      finishers.get(label)!();
+      finishers.delete(label);
+    }
+  }
+
+  function queuePositions(serverName: string) {
+    return mcpHub
+      .listToolCalls()
+      .filter((call) => call.serverName === serverName && call.queuePosition !== undefined)
+      .map((call) => call.queuePosition);
+  }
+
+  async function setConfig(
+    serverName: string,
+    settings: { maxConcurrentCalls?: number; maxQueuedCalls?: number },
+  ) {
+    await mcpHub.upsertServer(serverName, { ...mockConfig.mcpServers[serverName]!, ...settings });
+  }
+
+  beforeAll(async () => {
+    mockConfig.mcpServers = {
+      alpha: { command: 'worker', maxConcurrentCalls: 2 },
+      beta: { command: 'worker' },
+    };
+
+    ({ default: mcpHub, McpQueueFullError } = await import('../mcp/mcphub.mjs'));
+    mcpHub.onToolCall((event) => events.push(event));
+    await mcpHub.initialize();
+  });
+
+  afterEach(() => {
+    started.length = 0;
+    events.length = 0;
+  });
+
+  it('runs calls one at a time on servers without a limit', async () => {
+    const [first, second] = await startAll('beta', ['b1', 'b2']);
+
+    await vi.waitFor(() => expect(queuePositions('beta')).toEqual([1]));
+    expect(started).toEqual(['b1']);
+
+    await finish('b1');
+    expect(await first).toEqual({ content: [{ type: 'text', text: 'b1' }] });
+    await vi.waitFor(() => expect(started).toEqual(['b1', 'b2']));
+    expect(queuePositions('beta')).toEqual([]);
+
+    await finish('b2');
+    await second;
+  });
+
+  it('runs up to maxConcurrentCalls at once and reports queue positions', async () => {
+    const calls = await startAll('alpha', ['a1', 'a2', 'a3', 'a4']);
+
+    await vi.waitFor(() => expect(queuePositions('alpha')).toEqual([1, 2]));
+    await vi.waitFor(() => expect(started).toEqual(['a1', 'a2']));
+
+    await finish('a2');
+    await vi.waitFor(() => expect(started).toEqual(['a1', 'a2', 'a3']));
+    expect(queuePositions('alpha')).toEqual([1]);
+
+    const a4 = mcpHub.listToolCalls().find((call) => call.queuePosition === 1)!;
+    expect(events.filter((e) => e.type === 'queued' && e.callId === a4.callId)).toEqual([
+      { type: 'queued', callId: a4.callId, position: 2 },
+      { type: 'queued', callId: a4.callId, position: 1 },
+    ]);
+
+    await finish('a1', 'a3', 'a4');
+    await Promise.all(calls);
+    expect(events.filter((e) => e.type === 'queued' && e.callId === a4.callId).at(-1)).toEqual({
+      type: 'queued',
+      callId: a4.callId,
+      position: undefined,
+    });
+  });
+
+  it('lets the server context cap parallel calls below the config', async () => {
+    mcpHub.setMaxConcurrentCalls('alpha', 1);
+    expect(mcpHub.getMaxConcurrentCalls('alpha')).toBe(1);
+
+    const calls = await startAll('alpha', ['a1', 'a2']);
+    await vi.waitFor(() => expect(queuePositions('alpha')).toEqual([1]));
+    expect(started).toEqual(['a1']);
+
+    // Lifting the cap starts the waiting call straight away.
+    mcpHub.setMaxConcurrentCalls('alpha', undefined);
+    await vi.waitFor(() => expect(started).toEqual(['a1', 'a2']));
+
+    await finish('a1', 'a2');
+    await Promise.all(calls);
+  });
+
+  it("caps parallel calls at the tool executor's server context", async () => {
+    const { initializeToolExecutor, getToolExecutor } = await import(
+      '../ai/tool-executor-singleton.mjs'
+    );
+    await initializeToolExecutor(mcpHub);
+    const executor = await getToolExecutor();
+
+    executor.updateServerContext('alpha', {
+      capabilities: { supportsRollback: false, maxConcurrentCalls: 1, supportedOperations: [] },
+    });
+    expect(mcpHub.getMaxConcurrentCalls('alpha')).toBe(1);
+
+    const calls = await startAll('alpha', ['a1', 'a2']);
+    await vi.waitFor(() => expect(queuePositions('alpha')).toEqual([1]));
+    expect(started).toEqual(['a1']);
+
+    executor.updateServerContext('alpha', { capabilities: undefined });
+    expect(mcpHub.getMaxConcurrentCalls('alpha')).toBe(2);
+    await vi.waitFor(() => expect(started).toEqual(['a1', 'a2']));
+
+    await finish('a1', 'a2');
+    await Promise.all(calls);
+  });
+
+  it('refuses calls once the queue is full', async () => {
+    await setConfig('beta', { maxQueuedCalls: 1 });
+
+    const [running, waiting] = await startAll('beta', ['b1', 'b2']);
+    await vi.waitFor(() => expect(queuePositions('beta')).toEqual([1]));
+
+    const error = await (await start('beta', 'b3')).result.catch((e) => e);
+    expect(error).toBeInstanceOf(McpQueueFullError);
+    expect(error.message).toContain("Too many calls are waiting for server 'beta' (at most 1)");
+
+    await finish('b1', 'b2');
+    await Promise.all([running, waiting]);
+    await setConfig('beta', {});
+  });
+
+  it('still runs calls that need not wait when no calls may queue', async () => {
+    await setConfig('beta', { maxQueuedCalls: 0 });
+
+    const { result: running } = await start('beta', 'b1');
+    await vi.waitFor(() => expect(started).toEqual(['b1']));
+
+    const error = await (await start('beta', 'b2')).result.catch((e) => e);
+    expect(error).toBeInstanceOf(McpQueueFullError);
+    expect(queuePositions('beta')).toEqual([]);
+
+    await finish('b1');
+    await running;
+    await setConfig('beta', {});
+  });
+
+  it('takes turns between servers when every slot is taken', async () => {
+    await setConfig('alpha', { maxConcurrentCalls: 5 });
+
+    const alphaCalls = await startAll('alpha', ['a1', 'a2', 'a3', 'a4', 'a5', 'a6', 'a7']);
+    await vi.waitFor(() => expect(queuePositions('alpha')).toEqual([1, 2]));
+    await vi.waitFor(() => expect(started).toHaveLength(5));
+
+    const { result: betaCall } = await start('beta', 'b1');
+    await vi.waitFor(() => expect(queuePositions('beta')).toEqual([1]));
+
+    // The freed slot goes to beta, even though alpha's calls waited longer.
+    await finish('a1');
+    await vi.waitFor(() => expect(started).toHaveLength(6));
+    expect(started.at(-1)).toBe('b1');
+
+    await finish('a2');
+    await vi.waitFor(() => expect(started.at(-1)).toBe('a6'));
+
+    await finish('b1', 'a3', 'a4', 'a5', 'a6', 'a7');
+    await Promise.all([...alphaCalls, betaCall]);
+  });
+});
@@ -0,0 +1,93 @@
+import fs from 'node:fs/promises';
+import { vi } from 'vitest';
+
+// The config file is kept in a temporary directory instead of the dist directory.
+const mockDirs = vi.hoisted(() => {
+  const os = require('node:os') as typeof import('node:os');
+  const path = require('node:path') as typeof import('node:path');
+  const fs = require('node:fs') as typeof import('node:fs');
+  const distDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-config-'));
+  return { distDir };
+});
+
+vi.mock('../constants.mjs', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../constants.mjs')>()),
+  DIST_DIR: mockDirs.distDir,
+}));
+
+vi.mock('../config.mjs', () => ({
+  getConfig: vi.fn().mockResolvedValue({ mcpServers: {} }),
+  getSecrets: vi.fn().mockResolvedValue([]),
+  updateConfig: vi.fn().mockResolvedValue(undefined),
+}));
+
+describe('Watching the MCP config file', () => {
+  let config: typeof import('../mcp/config.mjs');
+  let stop: () => void;
+  const onChange = vi.fn();
+
+  function write(content: unknown) {
+    const text = typeof content === 'string' ? content : JSON.stringify(content, null, 2);
+    return fs.writeFile(config.CONFIG_PATH, text);
+  }
+
+  // Longer than the watcher waits for a save to settle.
+  function settle() {
+    return new Promise((resolve) => setTimeout(resolve, 400));
+  }
+
+  beforeAll(async () => {
+    config = await import('../mcp/config.mjs');
+    // Writes the file from the (empty) database config.
+    await config.loadMcpConfig();
+    stop = config.watchMcpConfig(onChange);
+  });
+
+  afterEach(() => {
+    onChange.mockClear();
+  });
+
+  afterAll(async () => {
+    stop();
+    await fs.rm(mockDirs.distDir, { recursive: true, force: true });
+  });
+
+  it('reloads edits made outside of Srcbook, once per save', async () => {
+    const edited = { mcpServers: { github: { command: 'npx', args: ['github-mcp'] } } };
+    // Editors often write a file in several steps.
+    await write('{');
+    await write(edited);
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalled());
+    await settle();
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith(
+      expect.objectContaining({
+        mcpServers: { github: expect.objectContaining(edited.mcpServers.github) },
+      }),
+    );
+    expect(await config.loadMcpConfig()).toBe(onChange.mock.calls[0]![0]);
+  });
+
+  it("ignores Srcbook's own writes", async () => {
+    await config.saveMcpServer('gitlab', { command: 'gitlab-mcp' });
+    await settle();
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('ignores files that are not valid JSON or not a valid config', async () => {
+    await write('{ "mcpServers": ');
+    await settle();
+    await write({ mcpServers: { github: { args: ['no command or url'] } } });
+    await settle();
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('stops when asked to', async () => {
+    const watch = vi.fn();
+    config.watchMcpConfig(watch)();
+    await write({ mcpServers: {} });
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(1));
+    expect(watch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,130 @@
+import { vi } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { mockConfig, serveInMemory } from './mock-mcp.mjs';
+import { createBrowser } from './utils.mjs';
+
+function createBookingServer() {
+  const server = new McpServer({ name: 'bookings', version: '1.0.0' });
+
+  server.tool('book_table', async () => {
+    const result = await server.server.elicitInput({
+      message: 'When would you like to come?',
+      requestedSchema: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', format: 'date', title: 'Date' },
+          guests: { type: 'integer', minimum: 1, maximum: 8 },
+          seating: { type: 'string', enum: ['inside', 'terrace'] },
+          highChair: { type: 'boolean', default: false },
+        },
+        required: ['date', 'guests'],
+      },
+    });
+    return { content: [{ type: 'text', text: JSON.stringify(result) }] };
+  });
+
+  return server;
+}
+
+describe('MCP elicitation', () => {
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+  let wss: import('../server/ws-client.mjs').default;
+  const TOPIC = 'mcp:elicitation';
+
+  serveInMemory('bookings', createBookingServer);
+
+  function openTab() {
+    const browser = createBrowser();
+    browser.connect(wss);
+    browser.push(TOPIC, 'subscribe', { id: 'tab' });
+    return browser;
+  }
+
+  async function waitForRequest(browser: ReturnType<typeof createBrowser>) {
+    await vi.waitFor(() => expect(browser.received('elicitation:request')).toHaveLength(1));
+    return browser.received('elicitation:request')[0]!;
+  }
+
+  async function book() {
+    const { content } = await mcpHub.callTool('bookings', 'book_table', {});
+    return JSON.parse(content[0].text);
+  }
+
+  beforeAll(async () => {
+    mockConfig.mcpServers = { bookings: { command: 'bookings' } };
+    mcpHub = (await import('../mcp/mcphub.mjs')).default;
+    await mcpHub.initialize();
+
+    const { default: WebSocketServer } = await import('../server/ws-client.mjs');
+    const { register } = await import('../mcp/channels/elicitation.mjs');
+    wss = new WebSocketServer();
+    register(wss, mcpHub);
+  });
+
+  it('fails the request when no browser is open', async () => {
+    await expect(mcpHub.callTool('bookings', 'book_table', {})).resolves.toMatchObject({
+      isError: true,
+      content: [{ text: expect.stringContaining('No user is available to answer') }],
+    });
+  });
+
+  it('returns what the user entered in the form', async () => {
+    const browser = openTab();
+    const booking = book();
+
+    const request = await waitForRequest(browser);
+    expect(request).toEqual({
+      requestId: expect.any(String),
+      serverName: 'bookings',
+      message: 'When would you like to come?',
+      requestedSchema: {
+        properties: {
+          date: { type: 'string', format: 'date', title: 'Date' },
+          guests: { type: 'integer', minimum: 1, maximum: 8 },
+          seating: { type: 'string', enum: ['inside', 'terrace'] },
+          highChair: { type: 'boolean', default: false },
+        },
+        required: ['date', 'guests'],
+      },
+    });
+
+    const content = { date: '2026-10-24', guests: 4, seating: 'terrace', highChair: true };
+    browser.push(TOPIC, 'elicitation:respond', {
+      requestId: request.requestId,
+      action: 'accept',
+      content,
+    });
+
+    expect(await booking).toEqual({ action: 'accept', content });
+    expect(browser.received('elicitation:resolved')).toEqual([{ requestId: request.requestId }]);
+  });
+
+  it('returns no content when the user declines, even if some was sent', async () => {
+    const browser = openTab();
+    const booking = book();
+
+    const { requestId } = await waitForRequest(browser);
+    browser.push(TOPIC, 'elicitation:respond', {
+      requestId,
+      action: 'decline',
+      content: { guests: 2 },
+    });
+
+    expect(await booking).toEqual({ action: 'decline' });
+  });
+
+  it('shows waiting requests to tabs opened later, and closes them in every tab', async () => {
+    const first = openTab();
+    const booking = book();
+    const { requestId } = await waitForRequest(first);
+
+    const second = openTab();
+    expect(second.received('elicitation:request')).toEqual([
+      expect.objectContaining({ requestId }),
+    ]);
+
+    second.push(TOPIC, 'elicitation:respond', { requestId, action: 'cancel' });
+    expect(await booking).toEqual({ action: 'cancel' });
+    expect(first.received('elicitation:resolved')).toEqual([{ requestId }]);
+  });
+});
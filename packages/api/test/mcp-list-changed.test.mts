@@ -0,0 +1,141 @@
+import { vi } from 'vitest';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { mockConfig, serveInMemory } from './mock-mcp.mjs';
+import { createBrowser } from './utils.mjs';
+import { BaseToolExecutor } from '../ai/tool-executor-base.mjs';
+
+// Exposes the schemas the executor holds, which are otherwise protected.
+class InspectableExecutor extends BaseToolExecutor {
+  toolNames(serverName: string) {
+    return [...(this.toolSchemas.get(serverName)?.keys() ?? [])];
+  }
+}
+
+describe('MCP list_changed notifications', () => {
+  let server: McpServer;
+
+  function createGrowingServer() {
+    server = new McpServer({ name: 'growing', version: '1.0.0' });
+    server.tool('first', 'The first tool', async () => ({ content: [] }));
+    server.resource('first', 'test://first', async (uri) => ({
+      contents: [{ uri: uri.href, text: 'first' }],
+    }));
+    server.prompt('first', 'The first prompt', () => ({ messages: [] }));
+    return server;
+  }
+
+  serveInMemory('growing', createGrowingServer);
+
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+  let executor: InspectableExecutor;
+  const browser = createBrowser();
+
+  function latestStatus() {
+    return browser.received('server:status:changed').at(-1)?.status;
+  }
+
+  beforeAll(async () => {
+    mockConfig.mcpServers = { growing: { command: 'growing' } };
+
+    mcpHub = (await import('../mcp/mcphub.mjs')).default;
+    await mcpHub.initialize();
+
+    executor = new InspectableExecutor(mcpHub);
+    await executor.initializeServerTools('growing');
+
+    const { default: WebSocketServer } = await import('../server/ws-client.mjs');
+    const { register } = await import('../mcp/channels/servers.mjs');
+    const wss = new WebSocketServer();
+    register(wss, mcpHub);
+
+    browser.connect(wss);
+    browser.push('mcp:servers', 'subscribe', { id: 'tab' });
+  });
+
+  it('re-lists tools when a server adds one', async () => {
+    expect(mcpHub.getToolsByServer('growing').map((tool) => tool.name)).toEqual(['first']);
+    expect(executor.toolNames('growing')).toEqual(['first']);
+
+    server.tool('second', 'The second tool', { n: z.number() }, async () => ({ content: [] }));
+
+    await vi.waitFor(() =>
+      expect(mcpHub.getToolsByServer('growing').map((tool) => tool.name)).toEqual([
+        'first',
+        'second',
+      ]),
+    );
+    expect(mcpHub.getToolsByServer('growing')[1]).toMatchObject({ serverName: 'growing' });
+    expect(executor.toolNames('growing')).toEqual(['first', 'second']);
+
+    await vi.waitFor(() =>
+      expect(latestStatus()?.tools.map((tool: { name: string }) => tool.name)).toEqual([
+        'first',
+        'second',
+      ]),
+    );
+    expect(latestStatus()).toMatchObject({ name: 'growing', status: 'connected' });
+  });
+
+  it('re-lists tools when a server removes one', async () => {
+    const registered = server.tool('third', async () => ({ content: [] }));
+    await vi.waitFor(() => expect(executor.toolNames('growing')).toContain('third'));
+
+    registered.remove();
+
+    await vi.waitFor(() => expect(executor.toolNames('growing')).toEqual(['first', 'second']));
+    expect(mcpHub.findTool('growing', 'third')).toBeUndefined();
+  });
+
+  it('sends the browser the new resources', async () => {
+    browser.socket.sent = [];
+    server.resource('second', 'test://second', async (uri) => ({
+      contents: [{ uri: uri.href, text: 'second' }],
+    }));
+
+    await vi.waitFor(() =>
+      expect(latestStatus()?.resources.map((resource: { uri: string }) => resource.uri)).toEqual([
+        'test://first',
+        'test://second',
+      ]),
+    );
+  });
+
+  it('sends the browser the new prompts', async () => {
+    browser.socket.sent = [];
+    server.prompt('second', 'The second prompt', () => ({ messages: [] }));
+
+    await vi.waitFor(() =>
+      expect(latestStatus()?.prompts).toEqual([
+        { name: 'first', description: 'The first prompt' },
+        { name: 'second', description: 'The second prompt' },
+      ]),
+    );
+  });
+
+  // Last, as the server can't list its tools after this.
+  it('keeps the tools it has when listing them again fails', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      server.server.setRequestHandler(ListToolsRequestSchema, () => {
+        throw new Error('Index unavailable');
+      });
+      await server.server.sendToolListChanged();
+
+      await vi.waitFor(() =>
+        expect(error).toHaveBeenCalledWith(
+          'Keeping the tools listed before on server growing:',
+          expect.anything(),
+        ),
+      );
+      expect(mcpHub.getToolsByServer('growing').map((tool) => tool.name)).toEqual([
+        'first',
+        'second',
+      ]);
+      expect(executor.toolNames('growing')).toEqual(['first', 'second']);
+    } finally {
+      error.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,129 @@
+import path from 'node:path';
+import { vi } from 'vitest';
+import { mockConfig } from './mock-mcp.mjs';
+import { createBrowser } from './utils.mjs';
+
+describe('MCP server logs', () => {
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+  const browser = createBrowser();
+  const TOPIC = 'mcp:logs:chatty';
+
+  function messages() {
+    return mcpHub.getServerLogs('chatty').map((entry) => entry.message);
+  }
+
+  beforeAll(async () => {
+    mockConfig.mcpServers = {
+      chatty: {
+        command: process.execPath,
+        args: [path.join(__dirname, 'mcp_servers', 'chatty.mjs')],
+      },
+    };
+
+    mcpHub = (await import('../mcp/mcphub.mjs')).default;
+    await mcpHub.initialize();
+
+    const { default: WebSocketServer } = await import('../server/ws-client.mjs');
+    const { register } = await import('../mcp/channels/logs.mjs');
+    const wss = new WebSocketServer();
+    register(wss, mcpHub);
+
+    browser.connect(wss);
+  });
+
+  afterAll(async () => {
+    await mcpHub.removeServer('chatty');
+  });
+
+  it('captures stderr line by line', async () => {
+    await vi.waitFor(() => expect(messages()).toContain('chatty starting'));
+
+    await mcpHub.callTool('chatty', 'stderr', { lines: ['first line', 'second line'] });
+
+    await vi.waitFor(() => expect(messages()).toContain('second line'));
+    expect(mcpHub.getServerLogs('chatty').slice(-2)).toEqual([
+      { timestamp: expect.any(Number), source: 'stderr', message: 'first line' },
+      { timestamp: expect.any(Number), source: 'stderr', message: 'second line' },
+    ]);
+  });
+
+  it('captures log messages the server sends', async () => {
+    await mcpHub.callTool('chatty', 'log', { level: 'warning', message: 'careful' });
+
+    await vi.waitFor(() =>
+      expect(mcpHub.getServerLogs('chatty').at(-1)).toEqual({
+        timestamp: expect.any(Number),
+        source: 'server',
+        level: 'warning',
+        logger: 'chatty',
+        message: 'careful',
+      }),
+    );
+  });
+
+  it('sends the browser what was captured so far, then new entries', async () => {
+    browser.push(TOPIC, 'subscribe', { id: 'tab' });
+
+    const [history] = browser.received('logs:history');
+    expect(history).toEqual({
+      entries: mcpHub.getServerLogs('chatty'),
+      supportsLevel: true,
+    });
+
+    await mcpHub.callTool('chatty', 'log', { level: 'info', message: 'hello browser' });
+    await vi.waitFor(() =>
+      expect(browser.received('logs:entry').at(-1)?.entry).toMatchObject({
+        source: 'server',
+        message: 'hello browser',
+      }),
+    );
+  });
+
+  it('sets the log level from the browser', async () => {
+    browser.push(TOPIC, 'logs:level', { level: 'error' });
+    await vi.waitFor(() => expect(browser.received('logs:level')).toEqual([{ level: 'error' }]));
+    expect(mcpHub.getLogLevel('chatty')).toBe('error');
+    expect(await mcpHub.callTool('chatty', 'level', {})).toEqual({
+      content: [{ type: 'text', text: 'error' }],
+    });
+
+    await mcpHub.callTool('chatty', 'log', { level: 'info', message: 'too quiet' });
+    await mcpHub.callTool('chatty', 'log', { level: 'error', message: 'loud enough' });
+    await vi.waitFor(() => expect(messages()).toContain('loud enough'));
+    expect(messages()).not.toContain('too quiet');
+  });
+
+  it('keeps the log level across reconnects', async () => {
+    await mcpHub.reconnectServer('chatty');
+    expect(await mcpHub.callTool('chatty', 'level', {})).toEqual({
+      content: [{ type: 'text', text: 'error' }],
+    });
+
+    await mcpHub.callTool('chatty', 'log', { level: 'info', message: 'still too quiet' });
+    await mcpHub.callTool('chatty', 'log', { level: 'error', message: 'still loud enough' });
+    await vi.waitFor(() => expect(messages()).toContain('still loud enough'));
+    expect(messages()).not.toContain('still too quiet');
+  });
+
+  it('clears the captured logs', async () => {
+    browser.socket.sent = [];
+    browser.push(TOPIC, 'logs:clear', {});
+
+    expect(mcpHub.getServerLogs('chatty')).toEqual([]);
+    expect(browser.received('logs:history')).toEqual([
+      { entries: [], level: 'error', supportsLevel: true },
+    ]);
+  });
+
+  it('reports servers that cannot change their log level', async () => {
+    browser.socket.sent = [];
+    browser.push('mcp:logs:missing', 'subscribe', { id: 'tab' });
+    browser.push('mcp:logs:missing', 'logs:level', { level: 'debug' });
+
+    await vi.waitFor(() =>
+      expect(browser.received('logs:error')).toEqual([
+        { error: 'Server missing is not connected' },
+      ]),
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { mockConfig, useFixture, type MockScript } from './mock-mcp.mjs';
+
+const MOCK_SERVER = path.join(__dirname, 'mcp_servers', 'mock.mjs');
+
+describe('Scripted servers over stdio and recorded fixtures', () => {
+  const script: MockScript = {
+    tools: [{ name: 'roll', responses: [{ text: '4' }, { exit: true }, { text: '6' }] }],
+  };
+
+  // Replayed from mcp_fixtures/env.json. Run with MCP_RECORD=1 to record it
+  // again from the real server.
+  const env = useFixture('env-server', 'env', {
+    command: process.execPath,
+    args: [path.join(__dirname, 'mcp_servers', 'env.mjs')],
+    env: { GREETING: 'hello' },
+  });
+
+  let dir: string;
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+
+  async function call(serverName: string, toolName: string, args: Record<string, unknown> = {}) {
+    const { content } = await mcpHub.callTool(serverName, toolName, args);
+    return content[0].text;
+  }
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-mock-'));
+    await fs.writeFile(path.join(dir, 'dice.json'), JSON.stringify(script));
+    mockConfig.mcpServers = {
+      dice: {
+        command: process.execPath,
+        args: [MOCK_SERVER, path.join(dir, 'dice.json')],
+        retries: 1,
+        retryDelay: 0,
+      },
+      env: { command: 'env-server' },
+    };
+
+    // Keep the dev server import from racing between the two calls below.
+    await import('../dev-server.mjs');
+    ({ default: mcpHub } = await import('../mcp/mcphub.mjs'));
+    mcpHub.configureSupervisor({ baseRestartDelay: 10 });
+    await mcpHub.initialize();
+  });
+
+  afterAll(async () => {
+    await mcpHub.removeServer('dice');
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('runs the scripted server as a process, restarting it when it exits', async () => {
+    expect(await call('dice', 'roll')).toBe('4');
+    // The server restarts with its script from the top.
+    expect(await call('dice', 'roll')).toBe('4');
+  });
+
+  it('replays fixtures recorded from real servers', async () => {
+    expect(await call('env', 'env', { name: 'GREETING' })).toBe('hello');
+    if (env) {
+      expect(env.calls).toEqual([{ name: 'env', arguments: { name: 'GREETING' } }]);
+    }
+  });
+});
@@ -0,0 +1,147 @@
+import { vi } from 'vitest';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { mockConfig, serveInMemory } from './mock-mcp.mjs';
+import { createBrowser } from './utils.mjs';
+
+describe('MCP tool call progress and cancellation', () => {
+  // Steps the slow tool waits on before reporting each unit of progress, and
+  // once more before returning.
+  const steps: (() => void)[] = [];
+  const aborted: string[] = [];
+
+  function step(signal: AbortSignal) {
+    return new Promise<boolean>((resolve) => steps.push(() => resolve(!signal.aborted)));
+  }
+
+  function createWorkerServer() {
+    const server = new McpServer({ name: 'worker', version: '1.0.0' });
+    server.tool('work', 'Do some slow work', { label: z.string() }, async ({ label }, extra) => {
+      extra.signal.addEventListener('abort', () => aborted.push(label));
+      for (let progress = 1; progress <= 2; progress++) {
+        if (!(await step(extra.signal))) {
+          return { content: [], isError: true };
+        }
+        await extra.sendNotification({
+          method: 'notifications/progress',
+          params: {
+            progressToken: extra._meta!.progressToken!,
+            progress,
+            total: 2,
+            message: `step ${progress}`,
+          },
+        });
+      }
+      // Progress is handled asynchronously by the client, so give it a moment
+      // to arrive before the result does.
+      await step(extra.signal);
+      return { content: [{ type: 'text', text: `done: ${label}` }] };
+    });
+    return server;
+  }
+
+  serveInMemory('worker', createWorkerServer);
+
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+  const browser = createBrowser();
+
+  async function nextStep() {
+    await vi.waitFor(() => expect(steps.length).toBeGreaterThan(0));
+    steps.shift()!();
+  }
+
+  beforeAll(async () => {
+    mockConfig.mcpServers = { worker: { command: 'worker' } };
+
+    mcpHub = (await import('../mcp/mcphub.mjs')).default;
+    await mcpHub.initialize();
+
+    const { default: WebSocketServer } = await import('../server/ws-client.mjs');
+    const { register } = await import('../mcp/channels/calls.mjs');
+    const wss = new WebSocketServer();
+    register(wss, mcpHub);
+
+    browser.connect(wss);
+    browser.push('mcp:calls', 'subscribe', { id: 'tab' });
+  });
+
+  it('reports progress to the caller and the browser', async () => {
+    const onProgress = vi.fn();
+    const result = mcpHub.callTool('worker', 'work', { label: 'a' }, { onProgress });
+
+    await vi.waitFor(() => expect(browser.received('call:started')).toHaveLength(1));
+    const { call } = browser.received('call:started')[0]!;
+    expect(call).toMatchObject({ serverName: 'worker', toolName: 'work' });
+    expect(mcpHub.listToolCalls()).toEqual([call]);
+
+    await nextStep();
+    await vi.waitFor(() => expect(onProgress).toHaveBeenCalledTimes(1));
+    expect(onProgress).toHaveBeenCalledWith({ progress: 1, total: 2, message: 'step 1' });
+    expect(mcpHub.listToolCalls()[0]!.progress).toEqual({
+      progress: 1,
+      total: 2,
+      message: 'step 1',
+    });
+
+    await nextStep();
+    await vi.waitFor(() => expect(onProgress).toHaveBeenCalledTimes(2));
+    await nextStep();
+    expect(await result).toEqual({ content: [{ type: 'text', text: 'done: a' }] });
+
+    expect(browser.received('call:progress').map((p) => p.progress.progress)).toEqual([1, 2]);
+    expect(browser.received('call:finished')).toEqual([
+      { callId: call.callId, status: 'completed' },
+    ]);
+    expect(mcpHub.listToolCalls()).toEqual([]);
+  });
+
+  it('cancels a running call from the browser and lets queued calls proceed', async () => {
+    browser.socket.sent = [];
+    const running = mcpHub.callTool('worker', 'work', { label: 'b' });
+    await vi.waitFor(() => expect(steps).toHaveLength(1));
+    const queued = mcpHub.callTool('worker', 'work', { label: 'c' });
+    const { call } = browser.received('call:started')[0]!;
+    browser.push('mcp:calls', 'call:cancel', { callId: call.callId });
+
+    await expect(running).rejects.toThrow("Tool call 'work' was cancelled");
+    await vi.waitFor(() => expect(aborted).toEqual(['b']));
+    expect(browser.received('call:finished')).toContainEqual({
+      callId: call.callId,
+      status: 'cancelled',
+      error: "Tool call 'work' was cancelled",
+    });
+
+    // Unblock the cancelled call on the server, then run the queued one.
+    await nextStep();
+    await nextStep();
+    await nextStep();
+    await nextStep();
+    expect(await queued).toEqual({ content: [{ type: 'text', text: 'done: c' }] });
+  });
+
+  it('drops a waiting call aborted by the caller before it reaches the server', async () => {
+    const { trackOperation } = await import('../dev-server.mjs');
+    const calls = vi.mocked(trackOperation).mock.calls.length;
+    const controller = new AbortController();
+    const running = mcpHub.callTool('worker', 'work', { label: 'd' });
+    await vi.waitFor(() => expect(steps).toHaveLength(1));
+    const waiting = mcpHub.callTool(
+      'worker',
+      'work',
+      { label: 'e' },
+      { signal: controller.signal },
+    );
+
+    // Wait until both calls are under way before aborting the second.
+    await vi.waitFor(() => expect(trackOperation).toHaveBeenCalledTimes(calls + 2));
+    controller.abort();
+    await expect(waiting).rejects.toThrow("Tool call 'work' was cancelled");
+
+    await nextStep();
+    await nextStep();
+    await nextStep();
+    expect(await running).toEqual({ content: [{ type: 'text', text: 'done: d' }] });
+    expect(aborted).toEqual(['b']);
+    expect(mcpHub.listToolCalls()).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { mockConfig, serveInMemory } from './mock-mcp.mjs';
+
+function createPromptServer() {
+  const server = new McpServer({ name: 'prompts', version: '1.0.0' });
+  server.prompt(
+    'add-page',
+    'Add a new page to the app',
+    { page: z.string().describe('Name of the page'), style: z.string().optional() },
+    ({ page, style }) => ({
+      messages: [
+        {
+          role: 'user',
+          content: {
+            type: 'text',
+            text: `Add a ${page} page${style ? ` in a ${style} style` : ''}.`,
+          },
+        },
+      ],
+    }),
+  );
+  server.prompt('review', () => ({
+    messages: [
+      { role: 'user', content: { type: 'text', text: 'Review my app.' } },
+      { role: 'assistant', content: { type: 'text', text: 'What should I focus on?' } },
+      {
+        role: 'user',
+        content: {
+          type: 'resource',
+          resource: { uri: 'docs://guidelines', text: 'Accessibility first.' },
+        },
+      },
+    ],
+  }));
+  return server;
+}
+
+describe('MCP prompts', () => {
+  serveInMemory('prompts', createPromptServer);
+
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+  let prompts: typeof import('../mcp/prompts.mjs');
+
+  beforeAll(async () => {
+    mockConfig.mcpServers = { prompts: { command: 'prompts' } };
+
+    mcpHub = (await import('../mcp/mcphub.mjs')).default;
+    prompts = await import('../mcp/prompts.mjs');
+    await mcpHub.initialize();
+  });
+
+  it('lists prompts with their arguments', async () => {
+    const list = await mcpHub.listPrompts('prompts');
+    expect(list.map((prompt) => prompt.name)).toEqual(['add-page', 'review']);
+    expect(list[0]!.arguments).toEqual([
+      { name: 'page', description: 'Name of the page', required: true },
+      { name: 'style', required: false },
+    ]);
+  });
+
+  it('resolves a prompt into a user request', async () => {
+    const query = await prompts.resolvePrompt({
+      serverName: 'prompts',
+      name: 'add-page',
+      arguments: { page: 'pricing', style: 'minimal' },
+    });
+    expect(query).toBe('Add a pricing page in a minimal style.');
+  });
+
+  it('keeps roles when a prompt has several turns', async () => {
+    const query = await prompts.resolvePrompt({
+      serverName: 'prompts',
+      name: 'review',
+      arguments: {},
+    });
+    expect(query).toBe(
+      'User: Review my app.\n\nAssistant: What should I focus on?\n\nUser: Accessibility first.',
+    );
+  });
+
+  it('rejects prompts on servers that are not connected', async () => {
+    await expect(mcpHub.getPrompt('missing', 'add-page')).rejects.toThrow(
+      'Server missing is not connected',
+    );
+  });
+});
@@ -0,0 +1,162 @@
+import { vi } from 'vitest';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { mockConfig, serveInMemory } from './mock-mcp.mjs';
+
+function createDocsServer() {
+  const server = new McpServer({ name: 'docs', version: '1.0.0' });
+  server.resource('readme', 'docs://readme', { mimeType: 'text/markdown' }, (uri) => ({
+    contents: [{ uri: uri.href, mimeType: 'text/markdown', text: '# Readme' }],
+  }));
+  server.resource('logo', 'docs://logo', { mimeType: 'image/png' }, (uri) => ({
+    contents: [{ uri: uri.href, mimeType: 'image/png', blob: 'aGVsbG8=' }],
+  }));
+  server.resource(
+    'page',
+    new ResourceTemplate('docs://pages/{slug}', { list: undefined }),
+    (uri, { slug }) => ({
+      contents: [{ uri: uri.href, text: `Page ${slug}` }],
+    }),
+  );
+  return server;
+}
+
+// A server whose `ticket` resource changes over time and which supports subscriptions.
+function createTicketServer(state: { status: string; subscribed: string[] }) {
+  const server = new McpServer({ name: 'tickets', version: '1.0.0' });
+  server.resource('ticket', 'tickets://1', (uri) => ({
+    contents: [{ uri: uri.href, text: `status: ${state.status}` }],
+  }));
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    state.subscribed.push(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    state.subscribed = state.subscribed.filter((uri) => uri !== request.params.uri);
+    return {};
+  });
+  return server;
+}
+
+describe('MCP resources', () => {
+  const ticketState = { status: 'open', subscribed: [] as string[] };
+  let ticketServer: McpServer | null = null;
+
+  serveInMemory('docs', createDocsServer);
+  serveInMemory('tickets', () => (ticketServer = createTicketServer(ticketState)));
+
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+  let resources: typeof import('../mcp/resources.mjs');
+
+  beforeAll(async () => {
+    mockConfig.mcpServers = { docs: { command: 'docs' }, tickets: { command: 'tickets' } };
+
+    mcpHub = (await import('../mcp/mcphub.mjs')).default;
+    resources = await import('../mcp/resources.mjs');
+    await mcpHub.initialize();
+  });
+
+  it('reads a resource by uri', async () => {
+    const contents = await mcpHub.readResource('docs', 'docs://readme');
+    expect(contents).toEqual([
+      { uri: 'docs://readme', mimeType: 'text/markdown', text: '# Readme' },
+    ]);
+  });
+
+  it('rejects reads from unknown servers', async () => {
+    await expect(mcpHub.readResource('missing', 'docs://readme')).rejects.toThrow(
+      'Server missing is not connected',
+    );
+  });
+
+  it('expands resource templates', () => {
+    expect(
+      resources.resolveResourceUri({
+        serverName: 'docs',
+        uriTemplate: 'docs://pages/{slug}',
+        params: { slug: 'getting-started' },
+      }),
+    ).toBe('docs://pages/getting-started');
+  });
+
+  it('loads pinned resources as prompt context', async () => {
+    const pinned = await resources.loadPinnedResources([
+      { serverName: 'docs', uri: 'docs://readme' },
+      { serverName: 'docs', uri: 'docs://logo' },
+      { serverName: 'docs', uriTemplate: 'docs://pages/{slug}', params: { slug: 'intro' } },
+    ]);
+
+    expect(pinned).toEqual([
+      { serverName: 'docs', uri: 'docs://readme', mimeType: 'text/markdown', text: '# Readme' },
+      {
+        serverName: 'docs',
+        uri: 'docs://logo',
+        mimeType: 'image/png',
+        text: '[binary content omitted, image/png]',
+      },
+      { serverName: 'docs', uri: 'docs://pages/intro', mimeType: undefined, text: 'Page intro' },
+    ]);
+
+    const xml = resources.buildResourcesXml(pinned.slice(0, 1));
+    expect(xml).toContain('<resource server="docs" uri="docs://readme" mimeType="text/markdown">');
+    expect(xml).toContain('# Readme');
+  });
+
+  it('leaves pinned resources that fail to load out, and warns about them', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      const pinned = await resources.loadPinnedResources([
+        { serverName: 'docs', uri: 'docs://readme' },
+        { serverName: 'docs', uri: 'docs://missing' },
+        { serverName: 'wiki', uri: 'wiki://home' },
+      ]);
+
+      expect(pinned.map((resource) => resource.uri)).toEqual(['docs://readme']);
+      expect(warn.mock.calls.map(([message]) => message)).toEqual([
+        'Leaving pinned resource docs://missing from server docs out of the prompt:',
+        'Leaving pinned resource wiki://home from server wiki out of the prompt:',
+      ]);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('escapes attributes and CDATA terminators in resources pinned as context', () => {
+    const xml = resources.buildResourcesXml([
+      { serverName: 'docs', uri: 'docs://search?q="a"&b=<c>', text: 'if (a[b[0]]> 1) {}' },
+    ]);
+    expect(xml).toContain('uri="docs://search?q=&quot;a&quot;&amp;b=&lt;c&gt;"');
+    expect(xml).toContain('if (a[b[0]]]]><![CDATA[> 1) {}');
+    expect(xml.match(/]]>/g)).toHaveLength(2);
+  });
+
+  it('shares one server-side subscription and forwards update notifications', async () => {
+    const updates: string[] = [];
+    mcpHub.onResourceUpdated((serverName, uri) => updates.push(`${serverName} ${uri}`));
+
+    expect(await mcpHub.subscribeResource('tickets', 'tickets://1')).toBe(true);
+    expect(await mcpHub.subscribeResource('tickets', 'tickets://1')).toBe(true);
+    expect(ticketState.subscribed).toEqual(['tickets://1']);
+
+    ticketState.status = 'closed';
+    await ticketServer!.server.sendResourceUpdated({ uri: 'tickets://1' });
+    await vi.waitFor(() => expect(updates).toEqual(['tickets tickets://1']));
+    expect(await mcpHub.readResource('tickets', 'tickets://1')).toEqual([
+      { uri: 'tickets://1', text: 'status: closed' },
+    ]);
+
+    await mcpHub.unsubscribeResource('tickets', 'tickets://1');
+    expect(ticketState.subscribed).toEqual(['tickets://1']);
+    await mcpHub.unsubscribeResource('tickets', 'tickets://1');
+    expect(ticketState.subscribed).toEqual([]);
+  });
+
+  it('tracks subscriptions on servers without subscription support', async () => {
+    expect(await mcpHub.subscribeResource('docs', 'docs://readme')).toBe(false);
+    await mcpHub.unsubscribeResource('docs', 'docs://readme');
+  });
+});
@@ -0,0 +1,86 @@
+import { vi } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { RootsListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { mockConfig, serveInMemory } from './mock-mcp.mjs';
+
+describe('MCP roots', () => {
+  let server: McpServer | null = null;
+  let listChanged = 0;
+
+  serveInMemory('files', () => {
+    server = new McpServer({ name: 'files', version: '1.0.0' });
+    server.server.setNotificationHandler(RootsListChangedNotificationSchema, () => {
+      listChanged++;
+    });
+    return server;
+  });
+
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+  let roots: typeof import('../mcp/roots.mjs');
+
+  // Stand-ins for two browser tabs.
+  const tab1 = { reply: vi.fn() };
+  const tab2 = { reply: vi.fn() };
+
+  async function serverRoots() {
+    return (await server!.server.listRoots()).roots;
+  }
+
+  beforeAll(async () => {
+    mockConfig.mcpServers = { files: { command: 'files' } };
+
+    mcpHub = (await import('../mcp/mcphub.mjs')).default;
+    roots = await import('../mcp/roots.mjs');
+    await mcpHub.initialize();
+  });
+
+  it('advertises no roots until an app or srcbook is opened', async () => {
+    expect(server!.server.getClientCapabilities()?.roots).toEqual({ listChanged: true });
+    expect(await serverRoots()).toEqual([]);
+  });
+
+  it('advertises the most recently opened app or srcbook', async () => {
+    roots.openRoot(tab1, 'app:abc', roots.directoryRoot('/home/me/.srcbook/apps/abc', 'Todo'));
+    await vi.waitFor(() => expect(listChanged).toBe(1));
+    expect(await serverRoots()).toEqual([
+      { uri: 'file:///home/me/.srcbook/apps/abc', name: 'Todo' },
+    ]);
+
+    roots.openRoot(tab2, 'session:xyz', roots.directoryRoot('/home/me/.srcbook/srcbooks/xyz'));
+    await vi.waitFor(() => expect(listChanged).toBe(2));
+    expect(await serverRoots()).toEqual([{ uri: 'file:///home/me/.srcbook/srcbooks/xyz' }]);
+  });
+
+  it('falls back to what is still open when the current root is closed', async () => {
+    // Leaving a topic the tab isn't using for its root changes nothing.
+    roots.closeRoot(tab2, 'app:other');
+    expect(mcpHub.getRoots()).toHaveLength(1);
+
+    roots.closeRoot(tab2, 'session:xyz');
+    await vi.waitFor(() => expect(listChanged).toBe(3));
+    expect(roots.rootPaths(await serverRoots())).toEqual(['/home/me/.srcbook/apps/abc']);
+
+    roots.closeRoot(tab1, 'app:abc');
+    await vi.waitFor(() => expect(listChanged).toBe(4));
+    expect(await serverRoots()).toEqual([]);
+  });
+
+  it('limits filesystem servers to the current roots', async () => {
+    const { initializeToolExecutor, getToolExecutor } = await import(
+      '../ai/tool-executor-singleton.mjs'
+    );
+    await initializeToolExecutor(mcpHub);
+    const executor = await getToolExecutor();
+
+    roots.openRoot(tab1, 'app:abc', roots.directoryRoot('/home/me/.srcbook/apps/abc'));
+    executor.updateServerContext('files', { type: 'filesystem', config: {} });
+
+    const allowedPaths = () => executor.getServerContext('files')?.config.allowedPaths;
+    expect(allowedPaths()).toEqual(['/home/me/.srcbook/apps/abc']);
+    await vi.waitFor(() => expect(listChanged).toBe(5));
+
+    roots.closeRoot(tab1, 'app:abc');
+    expect(allowedPaths()).toEqual([]);
+    await vi.waitFor(() => expect(listChanged).toBe(6));
+  });
+});
@@ -0,0 +1,155 @@
+import { vi } from 'vitest';
+import { MockLanguageModelV1 } from 'ai/test';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { mockConfig, serveInMemory } from './mock-mcp.mjs';
+import { createBrowser } from './utils.mjs';
+
+vi.mock('../config.mjs', () => ({
+  getConfig: vi.fn().mockResolvedValue({ aiProvider: 'anthropic', aiModel: null }),
+}));
+
+describe('MCP sampling', () => {
+  let server: McpServer | null = null;
+  const prompts: unknown[] = [];
+
+  serveInMemory('sampler', () => (server = new McpServer({ name: 'sampler', version: '1.0.0' })));
+
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+  let sampling: typeof import('../mcp/sampling.mjs');
+  let saveMcpServer: typeof import('../mcp/config.mjs').saveMcpServer;
+  const browser = createBrowser();
+
+  function requestSample() {
+    return server!.server.createMessage({
+      messages: [{ role: 'user', content: { type: 'text', text: 'Summarize the changelog.' } }],
+      systemPrompt: 'Be brief.',
+      maxTokens: 100,
+    });
+  }
+
+  beforeAll(async () => {
+    mockConfig.mcpServers = { sampler: { command: 'sampler' } };
+
+    const { getModel } = await import('../ai/config.mjs');
+    vi.mocked(getModel).mockImplementation(
+      async (modelId?: string) =>
+        new MockLanguageModelV1({
+          modelId,
+          doGenerate: async ({ prompt }) => {
+            prompts.push(prompt);
+            return {
+              rawCall: { rawPrompt: null, rawSettings: {} },
+              finishReason: 'stop',
+              usage: { promptTokens: 10, completionTokens: 2 },
+              text: 'A short summary.',
+            };
+          },
+        }),
+    );
+
+    mcpHub = (await import('../mcp/mcphub.mjs')).default;
+    sampling = await import('../mcp/sampling.mjs');
+    saveMcpServer = (await import('../mcp/config.mjs')).saveMcpServer;
+    await mcpHub.initialize();
+
+    const { default: WebSocketServer } = await import('../server/ws-client.mjs');
+    const { register } = await import('../mcp/channels/sampling.mjs');
+    const wss = new WebSocketServer();
+    register(wss, mcpHub);
+    browser.connect(wss);
+    browser.push('mcp:sampling', 'subscribe', { id: 'tab' });
+  });
+
+  it('maps model preferences onto the configured provider', () => {
+    const configured = 'claude-3-5-sonnet-latest';
+    expect(sampling.selectModel(undefined, 'anthropic', configured)).toBe(configured);
+    expect(sampling.selectModel({ hints: [{ name: 'haiku' }] }, 'anthropic', configured)).toBe(
+      'claude-3-5-haiku-latest',
+    );
+    expect(
+      sampling.selectModel(
+        { hints: [{ name: 'gpt-4' }, { name: 'sonnet' }] },
+        'anthropic',
+        configured,
+      ),
+    ).toBe(configured);
+    expect(
+      sampling.selectModel(
+        { speedPriority: 0.9, intelligencePriority: 0.2 },
+        'anthropic',
+        configured,
+      ),
+    ).toBe('claude-3-5-haiku-latest');
+    expect(sampling.selectModel({ costPriority: 1 }, 'Xai', 'grok-beta')).toBe('grok-beta');
+  });
+
+  it('asks the user before sampling with the configured model', async () => {
+    const result = requestSample();
+
+    await vi.waitFor(() => expect(browser.received('sampling:request')).toHaveLength(1));
+    const [request] = browser.received('sampling:request');
+    expect(request).toMatchObject({
+      serverName: 'sampler',
+      messages: [{ role: 'user', type: 'text', text: 'Summarize the changelog.' }],
+      systemPrompt: 'Be brief.',
+      maxTokens: 100,
+      model: 'claude-3-5-sonnet-latest',
+    });
+
+    browser.push('mcp:sampling', 'sampling:respond', {
+      requestId: request!.requestId,
+      approved: true,
+    });
+
+    expect(await result).toEqual({
+      role: 'assistant',
+      content: { type: 'text', text: 'A short summary.' },
+      model: 'claude-3-5-sonnet-latest',
+      stopReason: 'endTurn',
+    });
+    expect(prompts.at(-1)).toEqual([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: [{ type: 'text', text: 'Summarize the changelog.' }] },
+    ]);
+    expect(browser.received('sampling:resolved')).toEqual([{ requestId: request!.requestId }]);
+  });
+
+  it('rejects the request when the user declines', async () => {
+    browser.socket.sent = [];
+    const result = requestSample();
+
+    await vi.waitFor(() => expect(browser.received('sampling:request')).toHaveLength(1));
+    const [request] = browser.received('sampling:request');
+    browser.push('mcp:sampling', 'sampling:respond', {
+      requestId: request!.requestId,
+      approved: false,
+    });
+
+    await expect(result).rejects.toThrow('User rejected sampling request');
+  });
+
+  it('stops asking once the user always allows a server', async () => {
+    browser.socket.sent = [];
+    const client = mcpHub.getConnection('sampler')!.client;
+    const first = requestSample();
+
+    await vi.waitFor(() => expect(browser.received('sampling:request')).toHaveLength(1));
+    const [request] = browser.received('sampling:request');
+    browser.push('mcp:sampling', 'sampling:respond', {
+      requestId: request!.requestId,
+      approved: true,
+      alwaysAllow: true,
+    });
+    await first;
+
+    expect(saveMcpServer).toHaveBeenCalledWith(
+      'sampler',
+      expect.objectContaining({ sampling: { alwaysAllow: true } }),
+    );
+    // Changing the setting doesn't restart the connection.
+    expect(mcpHub.getConnection('sampler')!.client).toBe(client);
+
+    await expect(requestSample()).resolves.toMatchObject({ model: 'claude-3-5-sonnet-latest' });
+    expect(browser.received('sampling:request')).toHaveLength(1);
+  });
+});
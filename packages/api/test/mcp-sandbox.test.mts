@@ -0,0 +1,107 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { vi } from 'vitest';
+import './mock-mcp.mjs';
+import { McpStdioServerConfigSchema } from '../mcp/types/index.mjs';
+
+const SERVER_PATH = path.join(__dirname, 'mcp_servers', 'env.mjs');
+// The server's dependencies are installed at the root of the workspace.
+const WORKSPACE_ROOT = path.resolve(__dirname, '..', '..', '..');
+// Set in Srcbook's own environment for the duration of the test.
+const API_KEY = 'SRCBOOK_TEST_API_KEY';
+const SHARED = 'SRCBOOK_TEST_SHARED';
+
+describe('Sandboxed stdio servers', () => {
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+  let workDir: string;
+  let otherDir: string;
+
+  async function call(tool: string, args: Record<string, unknown> = {}) {
+    const result = await mcpHub.callTool('sandboxed', tool, args);
+    return result.content[0].text;
+  }
+
+  function start(config: Record<string, unknown>) {
+    return mcpHub.upsertServer('sandboxed', {
+      command: process.execPath,
+      args: [SERVER_PATH],
+      ...config,
+    });
+  }
+
+  beforeAll(async () => {
+    process.env[API_KEY] = 'sk-provider-key';
+    process.env[SHARED] = 'shared';
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-sandbox-'));
+    otherDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-sandbox-other-'));
+    await fs.writeFile(path.join(workDir, 'notes.txt'), 'inside');
+    await fs.writeFile(path.join(otherDir, 'credentials.txt'), 'outside');
+
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    mcpHub = (await import('../mcp/mcphub.mjs')).default;
+    await mcpHub.initialize();
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    delete process.env[API_KEY];
+    delete process.env[SHARED];
+    await mcpHub.removeServer('sandboxed');
+    await fs.rm(workDir, { recursive: true, force: true });
+    await fs.rm(otherDir, { recursive: true, force: true });
+  });
+
+  it("passes on only the basics and the variables it's allowed to inherit", async () => {
+    await start({ env: { OWN: 'own' } });
+    expect(await call('env', { name: API_KEY })).toBe('');
+    expect(await call('env', { name: SHARED })).toBe('');
+    expect(await call('env', { name: 'OWN' })).toBe('own');
+    expect(await call('env', { name: 'PATH' })).not.toBe('');
+
+    await start({ env: { OWN: 'own' }, inheritEnv: [SHARED, 'UNSET'] });
+    expect(await call('env', { name: SHARED })).toBe('shared');
+    expect(await call('env', { name: API_KEY })).toBe('');
+  });
+
+  it('starts the server in its working directory', async () => {
+    await start({ cwd: workDir });
+    expect(await call('cwd')).toBe(workDir);
+
+    await expect(start({ cwd: path.join(workDir, 'missing') })).rejects.toThrow(
+      `Working directory of server sandboxed doesn't exist: ${path.join(workDir, 'missing')}`,
+    );
+  });
+
+  it("limits what the server can read with Node's permission model", async () => {
+    await start({ cwd: workDir });
+    expect(await call('read_file', { path: path.join(otherDir, 'credentials.txt') })).toBe(
+      'outside',
+    );
+
+    await start({ cwd: workDir, nodePermissions: { allowRead: [WORKSPACE_ROOT] } });
+    expect(await call('read_file', { path: 'notes.txt' })).toBe('inside');
+    expect(await call('read_file', { path: path.join(otherDir, 'credentials.txt') })).toBe(
+      'ERR_ACCESS_DENIED',
+    );
+  });
+
+  it("refuses to use Node's permission model for servers not started with node", async () => {
+    await expect(
+      start({ command: 'npx', args: ['some-server'], nodePermissions: {} }),
+    ).rejects.toThrow("Server sandboxed must be started with node to use Node's permission model");
+    expect(mcpHub.listServers()[0]).toMatchObject({ status: 'disconnected' });
+  });
+
+  it('requires an absolute working directory', () => {
+    expect(McpStdioServerConfigSchema.safeParse({ command: 'node', cwd: 'servers' }).success).toBe(
+      false,
+    );
+    expect(McpStdioServerConfigSchema.safeParse({ command: 'node', cwd: '/srv' }).success).toBe(
+      true,
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import path from 'node:path';
+import { vi } from 'vitest';
+import { mockConfig } from './mock-mcp.mjs';
+import { findSecretReferences, resolveSecretReferences } from '../mcp/secrets.mjs';
+
+// Stands in for the secrets table.
+const mockSecrets: Record<string, string> = {};
+
+describe('Secret references in server env', () => {
+  it('finds each secret an env refers to once', () => {
+    expect(
+      findSecretReferences({
+        GITHUB_TOKEN: '${secret:GITHUB_TOKEN}',
+        AUTH: 'Bearer ${secret:API_KEY}',
+        BOTH: '${secret:GITHUB_TOKEN}:${secret:API_KEY}',
+        PLAIN: 'value',
+        LOWER: '${secret:lower}',
+      }),
+    ).toEqual(['GITHUB_TOKEN', 'API_KEY']);
+  });
+
+  it('replaces references with the values of the secrets', () => {
+    expect(
+      resolveSecretReferences(
+        'github',
+        { AUTH: 'Bearer ${secret:API_KEY}', PLAIN: 'value' },
+        { API_KEY: 'k3y' },
+      ),
+    ).toEqual({ AUTH: 'Bearer k3y', PLAIN: 'value' });
+  });
+
+  it('refuses to resolve references to secrets that do not exist', () => {
+    expect(() =>
+      resolveSecretReferences('github', { A: '${secret:ONE}', B: '${secret:TWO}' }, { ONE: '1' }),
+    ).toThrow("Server github uses secrets that don't exist: TWO");
+  });
+});
+
+describe('Starting servers with secrets', () => {
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+  const logged: string[] = [];
+
+  async function env(name: string) {
+    const result = await mcpHub.callTool('github', 'env', { name });
+    return result.content[0].text;
+  }
+
+  beforeAll(async () => {
+    const { loadSecrets } = await import('../mcp/config.mjs');
+    vi.mocked(loadSecrets).mockImplementation(async (names: string[]) =>
+      Object.fromEntries(
+        names.filter((name) => name in mockSecrets).map((name) => [name, mockSecrets[name]!]),
+      ),
+    );
+    mockSecrets.GITHUB_TOKEN = 'ghp_first';
+    mockConfig.mcpServers = {
+      github: {
+        command: process.execPath,
+        args: [path.join(__dirname, 'mcp_servers', 'env.mjs')],
+        env: { GITHUB_TOKEN: '${secret:GITHUB_TOKEN}', GITHUB_OWNER: 'srcbook' },
+      },
+    };
+
+    for (const method of ['log', 'warn', 'error'] as const) {
+      vi.spyOn(console, method).mockImplementation((...args) => {
+        logged.push(
+          args.map((arg) => (typeof arg === 'string' ? arg : JSON.stringify(arg))).join(' '),
+        );
+      });
+    }
+
+    mcpHub = (await import('../mcp/mcphub.mjs')).default;
+    await mcpHub.initialize();
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await mcpHub.removeServer('github');
+  });
+
+  it('passes the secret to the server without keeping it in the config', async () => {
+    expect(await env('GITHUB_TOKEN')).toBe('ghp_first');
+    expect(await env('GITHUB_OWNER')).toBe('srcbook');
+    expect(mcpHub.listServers()[0]!.config).toMatchObject({
+      env: { GITHUB_TOKEN: '${secret:GITHUB_TOKEN}' },
+    });
+  });
+
+  it('reads the secret again whenever the server starts', async () => {
+    mockSecrets.GITHUB_TOKEN = 'ghp_second';
+    await mcpHub.reconnectServer('github');
+    expect(await env('GITHUB_TOKEN')).toBe('ghp_second');
+  });
+
+  it('does not start a server whose secrets are missing', async () => {
+    delete mockSecrets.GITHUB_TOKEN;
+    await expect(mcpHub.reconnectServer('github')).rejects.toThrow(
+      "Server github uses secrets that don't exist: GITHUB_TOKEN",
+    );
+    expect(mcpHub.listServers()[0]).toMatchObject({
+      status: 'disconnected',
+      error: "Server github uses secrets that don't exist: GITHUB_TOKEN",
+    });
+
+    mockSecrets.GITHUB_TOKEN = 'ghp_third';
+    await mcpHub.reconnectServer('github');
+    expect(await env('GITHUB_TOKEN')).toBe('ghp_third');
+  });
+
+  it('never logs the values of secrets', () => {
+    expect(logged.some((line) => line.includes('GITHUB_TOKEN'))).toBe(true);
+    expect(logged.filter((line) => line.includes('ghp_'))).toEqual([
+      // The test tool echoes the secret back, and results are logged.
+      expect.stringContaining('Tool call completed'),
+      expect.stringContaining('Tool call completed'),
+      expect.stringContaining('Tool call completed'),
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+import { vi } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { PingRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { mockConfig, serveInMemory } from './mock-mcp.mjs';
+
+describe('MCP connection supervisor', () => {
+  const servers = new Set<Server>();
+  // While down, the server refuses new connections.
+  let down = false;
+  // While hung, the current server stops answering pings.
+  let hung = false;
+  let sessions = 0;
+
+  serveInMemory('flaky', () => {
+    if (down) {
+      throw new Error('Connection refused');
+    }
+    sessions++;
+    const server = new Server({ name: 'flaky', version: '1.0.0' }, { capabilities: {} });
+    server.setRequestHandler(PingRequestSchema, async () => {
+      if (hung) {
+        await new Promise(() => {});
+      }
+      return {};
+    });
+    servers.add(server);
+    return server;
+  });
+
+  async function dropConnections() {
+    for (const server of servers) {
+      await server.close();
+    }
+    servers.clear();
+  }
+
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+
+  function connection() {
+    return mcpHub.listConnections().find((conn) => conn.name === 'flaky')!;
+  }
+
+  beforeAll(async () => {
+    mockConfig.mcpServers = { flaky: { command: 'flaky' } };
+
+    mcpHub = (await import('../mcp/mcphub.mjs')).default;
+    mcpHub.configureSupervisor({
+      baseRestartDelay: 20,
+      maxRestartDelay: 200,
+      healthCheckInterval: 50,
+      healthCheckTimeout: 50,
+      healthyInterval: 300,
+    });
+    await mcpHub.initialize();
+  });
+
+  afterAll(async () => {
+    down = true;
+    await dropConnections();
+  });
+
+  it('health checks connected servers', async () => {
+    expect(connection().status).toBe('connected');
+    await vi.waitFor(() => expect(connection().supervisor.lastPingAt).toBeDefined());
+    expect(connection().supervisor).toMatchObject({
+      restarts: 0,
+      lastPingLatency: expect.any(Number),
+    });
+  });
+
+  it('restarts a server whose connection dropped', async () => {
+    await dropConnections();
+
+    await vi.waitFor(() => expect(sessions).toBe(2));
+    await vi.waitFor(() => expect(connection().status).toBe('connected'));
+    expect(connection().supervisor.restarts).toBe(1);
+  });
+
+  it('forgets past restarts once the server has been healthy for a while', async () => {
+    await vi.waitFor(() => expect(connection().supervisor.restarts).toBe(0), { timeout: 2000 });
+  });
+
+  it('keeps restarting a dead server with growing delays', async () => {
+    down = true;
+    await dropConnections();
+
+    const delays: number[] = [];
+    await vi.waitFor(
+      () => {
+        const { nextRestartAt, restarts } = connection().supervisor;
+        if (nextRestartAt && delays.length === restarts) {
+          delays.push(nextRestartAt - Date.now());
+        }
+        expect(restarts).toBeGreaterThanOrEqual(4);
+      },
+      { timeout: 3000, interval: 5 },
+    );
+    expect(connection().status).not.toBe('connected');
+    // Backoff doubles from 20ms, with up to half of it taken off as jitter.
+    expect(delays.at(-1)!).toBeGreaterThan(delays[0]!);
+
+    down = false;
+    await vi.waitFor(() => expect(connection().status).toBe('connected'), { timeout: 3000 });
+  });
+
+  it('restarts a server that stops answering health checks', async () => {
+    const before = sessions;
+    hung = true;
+    await vi.waitFor(() => expect(connection().status).toBe('disconnected'));
+    expect(connection().error).toMatch(/^Health check failed/);
+
+    hung = false;
+    await vi.waitFor(() => expect(connection().status).toBe('connected'), { timeout: 3000 });
+    expect(sessions).toBeGreaterThan(before);
+  });
+});
@@ -0,0 +1,133 @@
+import { vi } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListToolsRequestSchema,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import { mockConfig, serveInMemory } from './mock-mcp.mjs';
+
+describe('MCP timeouts and retries', () => {
+  const aborted: string[] = [];
+  let toolCalls = 0;
+  let slowListing = false;
+
+  function createSlowServer() {
+    const server = new Server({ name: 'slow', version: '1.0.0' }, { capabilities: { tools: {} } });
+
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      if (slowListing) {
+        await new Promise((resolve) => setTimeout(resolve, 500));
+      }
+      return {
+        tools: [
+          {
+            name: 'sleep',
+            description: 'Sleep for a while',
+            inputSchema: { type: 'object', properties: { ms: { type: 'number' } } },
+          },
+        ],
+      };
+    });
+
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      toolCalls++;
+      const ms = request.params.arguments?.ms;
+      if (typeof ms !== 'number') {
+        throw new McpError(ErrorCode.InvalidParams, 'ms must be a number');
+      }
+      extra.signal.addEventListener('abort', () => aborted.push('sleep'));
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      return { content: [{ type: 'text', text: `slept ${ms}ms` }] };
+    });
+
+    return server;
+  }
+
+  serveInMemory('slow', createSlowServer);
+
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+  let McpTimeoutError: typeof import('../mcp/mcphub.mjs').McpTimeoutError;
+
+  beforeAll(async () => {
+    mockConfig.mcpServers = {
+      slow: {
+        command: 'slow',
+        timeout: 200,
+        retries: 1,
+        retryDelay: 0,
+        tools: { sleep: { timeout: 100 } },
+      },
+    };
+
+    ({ default: mcpHub, McpTimeoutError } = await import('../mcp/mcphub.mjs'));
+    await mcpHub.initialize();
+  });
+
+  it('prefers tool settings over server settings over defaults', () => {
+    expect(mcpHub.getCallSettings('slow', 'sleep')).toEqual({
+      timeout: 100,
+      retries: 1,
+      retryDelay: 0,
+    });
+    expect(mcpHub.getCallSettings('slow', 'other')).toEqual({
+      timeout: 200,
+      retries: 1,
+      retryDelay: 0,
+    });
+    expect(mcpHub.getCallSettings('unknown')).toEqual({
+      timeout: 60000,
+      retries: 2,
+      retryDelay: 1000,
+    });
+  });
+
+  it('completes calls that finish within the timeout', async () => {
+    await expect(mcpHub.callTool('slow', 'sleep', { ms: 10 })).resolves.toEqual({
+      content: [{ type: 'text', text: 'slept 10ms' }],
+    });
+  });
+
+  it('fails calls that run too long with a timeout error, without retrying', async () => {
+    toolCalls = 0;
+    const error = await mcpHub.callTool('slow', 'sleep', { ms: 1000 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(McpTimeoutError);
+    expect(error).toMatchObject({
+      type: 'timeout_error',
+      serverName: 'slow',
+      toolName: 'sleep',
+      operation: 'call_tool',
+      timeout: 100,
+    });
+    expect(error.message).toBe("Tool 'sleep' on server 'slow' timed out after 100ms");
+    expect(toolCalls).toBe(1);
+    // The server is told to stop working on the call.
+    await vi.waitFor(() => expect(aborted).toEqual(['sleep']));
+  });
+
+  it('retries calls that fail for other reasons', async () => {
+    toolCalls = 0;
+    const error = await mcpHub.callTool('slow', 'sleep', { ms: 'soon' }).catch((e) => e);
+
+    expect(error).not.toBeInstanceOf(McpTimeoutError);
+    expect(error.message).toContain(
+      "Failed to execute tool 'sleep' on server 'slow' after 2 attempts",
+    );
+    expect(toolCalls).toBe(2);
+  });
+
+  it('reports a slow tools listing as a timeout rather than an empty list', async () => {
+    slowListing = true;
+    try {
+      await expect(mcpHub.listTools('slow')).rejects.toMatchObject({
+        type: 'timeout_error',
+        operation: 'list_tools',
+        timeout: 200,
+      });
+    } finally {
+      slowListing = false;
+    }
+  });
+});
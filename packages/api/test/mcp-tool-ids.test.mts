@@ -0,0 +1,89 @@
+import { mockConfig, mockServer } from './mock-mcp.mjs';
+
+// Every server has a `search` tool, and one of its own.
+function serveTools(command: string, tools: string[]) {
+  mockServer(command, {
+    tools: ['search', ...tools].map((name) => ({ name, responses: [] })),
+  });
+}
+
+describe('Fully qualified MCP tool IDs', () => {
+  serveTools('github', ['create_issue']);
+  serveTools('gitlab', ['create_merge_request']);
+
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+  let McpToolResolutionError: typeof import('../mcp/mcphub.mjs').McpToolResolutionError;
+
+  function resolutionError(reference: string, serverName?: string) {
+    try {
+      mcpHub.resolveTool(reference, serverName);
+    } catch (error) {
+      expect(error).toBeInstanceOf(McpToolResolutionError);
+      return error as InstanceType<typeof McpToolResolutionError>;
+    }
+    throw new Error(`Expected '${reference}' not to resolve`);
+  }
+
+  beforeAll(async () => {
+    mockConfig.mcpServers = {
+      github: { command: 'github', alias: 'gh' },
+      gitlab: { command: 'gitlab' },
+    };
+
+    ({ default: mcpHub, McpToolResolutionError } = await import('../mcp/mcphub.mjs'));
+    await mcpHub.initialize();
+  });
+
+  it('gives every tool an ID qualified by its server alias or name', () => {
+    expect(mcpHub.getAllTools().map((tool) => tool.id)).toEqual([
+      'gh/search',
+      'gh/create_issue',
+      'gitlab/search',
+      'gitlab/create_merge_request',
+    ]);
+  });
+
+  it('resolves qualified IDs by server name or alias', () => {
+    expect(mcpHub.resolveTool('gh/search')).toMatchObject({ serverName: 'github', name: 'search' });
+    expect(mcpHub.resolveTool('github/search')).toMatchObject({ serverName: 'github' });
+    expect(mcpHub.resolveTool('gitlab/search')).toMatchObject({ serverName: 'gitlab' });
+  });
+
+  it('resolves a tool name together with its server', () => {
+    expect(mcpHub.resolveTool('search', 'gitlab')).toMatchObject({ id: 'gitlab/search' });
+    expect(mcpHub.resolveTool('search', 'gh')).toMatchObject({ id: 'gh/search' });
+    expect(mcpHub.resolveTool('gh/search', 'github')).toMatchObject({ id: 'gh/search' });
+  });
+
+  it('resolves bare tool names only one server has', () => {
+    expect(mcpHub.resolveTool('create_issue')).toMatchObject({ id: 'gh/create_issue' });
+  });
+
+  it('refuses to guess between servers with the same tool', () => {
+    expect(resolutionError('search')).toMatchObject({
+      type: 'tool_resolution_error',
+      candidates: ['gh/search', 'gitlab/search'],
+      message: "MCP tool 'search' is ambiguous, use one of: gh/search, gitlab/search",
+    });
+  });
+
+  it('reports references that match no tool', () => {
+    expect(resolutionError('gitlab/create_issue')).toMatchObject({
+      candidates: [],
+      message: "Unknown MCP tool 'gitlab/create_issue'",
+    });
+    expect(resolutionError('search', 'bitbucket').message).toBe(
+      "Unknown MCP tool 'bitbucket/search'",
+    );
+    expect(resolutionError('gh/search', 'gitlab').candidates).toEqual([]);
+  });
+
+  it('follows alias changes without reconnecting', async () => {
+    const config = mockConfig.mcpServers.gitlab!;
+    await mcpHub.upsertServer('gitlab', { ...config, alias: 'gl' });
+
+    expect(mcpHub.getConnection('gitlab')?.status).toBe('connected');
+    expect(mcpHub.resolveTool('gl/search')).toMatchObject({ id: 'gl/search' });
+    expect(resolutionError('search').candidates).toEqual(['gh/search', 'gl/search']);
+  });
+});
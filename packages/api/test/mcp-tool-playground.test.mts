@@ -0,0 +1,120 @@
+import { vi } from 'vitest';
+import { mockConfig, mockServer } from './mock-mcp.mjs';
+import { createBrowser } from './utils.mjs';
+
+const SEARCH_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    query: { type: 'string', minLength: 1 },
+    state: { type: 'string', enum: ['open', 'closed'] },
+    limit: { type: 'integer', minimum: 1, maximum: 100 },
+    labels: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['query'],
+};
+
+describe('MCP tool playground', () => {
+  const TOPIC = 'tool:playground';
+  const browser = createBrowser();
+  const issues = mockServer('issues', {
+    tools: [
+      {
+        name: 'search_issues',
+        inputSchema: SEARCH_SCHEMA,
+        responses: [
+          {
+            result: {
+              content: [
+                { type: 'text', text: '2 issues' },
+                { type: 'image', data: 'iVBORw0KGgo=', mimeType: 'image/png' },
+                {
+                  type: 'resource',
+                  resource: { uri: 'issue://42', mimeType: 'text/markdown', text: '# Crash' },
+                },
+              ],
+            },
+          },
+          { error: 'Invalid arguments for tool search_issues: query is required' },
+        ],
+      },
+    ],
+  });
+
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+
+  async function execute(params: Record<string, unknown>, toolName = 'search_issues') {
+    const before = browser.socket.sent.length;
+    browser.push(TOPIC, 'tool:execute', { serverName: 'issues', toolName, params });
+    await vi.waitFor(() => expect(browser.socket.sent.length).toBeGreaterThan(before));
+    const [, event, payload] = browser.socket.sent[browser.socket.sent.length - 1]!;
+    return { event, payload };
+  }
+
+  beforeAll(async () => {
+    mockConfig.mcpServers = { issues: { command: 'issues', retries: 0 } };
+    mcpHub = (await import('../mcp/mcphub.mjs')).default;
+    await mcpHub.initialize();
+    const { initializeToolExecutor } = await import('../ai/tool-executor-singleton.mjs');
+    await initializeToolExecutor(mcpHub);
+
+    const { default: WebSocketServer } = await import('../server/ws-client.mjs');
+    const { register } = await import('../mcp/channels/tools.mjs');
+    const wss = new WebSocketServer();
+    register(wss, mcpHub);
+    browser.connect(wss);
+    browser.push(TOPIC, 'subscribe', { id: 'tab' });
+  });
+
+  afterEach(() => {
+    issues.calls.length = 0;
+  });
+
+  it('runs the tool with the arguments entered and returns its content', async () => {
+    const records: import('../mcp/mcphub.mjs').ToolCallRecord[] = [];
+    mcpHub.onToolCallRecord((record) => records.push(record));
+
+    expect(await execute({ query: 'crash', state: 'open' })).toEqual({
+      event: 'tool:result',
+      payload: {
+        result: {
+          content: [
+            { type: 'text', text: '2 issues' },
+            { type: 'image', data: 'iVBORw0KGgo=', mimeType: 'image/png' },
+            {
+              type: 'resource',
+              resource: { uri: 'issue://42', mimeType: 'text/markdown', text: '# Crash' },
+            },
+          ],
+        },
+      },
+    });
+    expect(issues.calls).toEqual([
+      { name: 'search_issues', arguments: { query: 'crash', state: 'open' } },
+    ]);
+    // Calls made by hand can be told apart in the audit log.
+    expect(records).toMatchObject([
+      { toolName: 'search_issues', origin: { source: 'playground' } },
+    ]);
+  });
+
+  it("shows the server's objections to the arguments", async () => {
+    expect(await execute({ state: 'merged', limit: 0 })).toEqual({
+      event: 'tool:error',
+      payload: {
+        error: expect.stringContaining(
+          'Invalid arguments for tool search_issues: query is required',
+        ),
+      },
+    });
+    expect(issues.calls).toEqual([
+      { name: 'search_issues', arguments: { state: 'merged', limit: 0 } },
+    ]);
+  });
+
+  it('reports tools that do not exist', async () => {
+    expect(await execute({}, 'close_issue')).toEqual({
+      event: 'tool:error',
+      payload: { error: 'Tool close_issue not found on server issues' },
+    });
+  });
+});
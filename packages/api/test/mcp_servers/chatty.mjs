@@ -0,0 +1,52 @@
+// A stdio MCP server that logs a lot, for testing log capture.
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+const server = new McpServer(
+  { name: 'chatty', version: '1.0.0' },
+  { capabilities: { logging: {} } },
+);
+
+server.tool(
+  'log',
+  'Log a message at the given level',
+  {
+    level: z.enum(['debug', 'info', 'warning', 'error']),
+    message: z.string(),
+  },
+  async ({ level, message }) => {
+    await server.server.sendLoggingMessage({ level, logger: 'chatty', data: message });
+    return { content: [] };
+  },
+);
+
+server.tool(
+  'stderr',
+  'Write to stderr in pieces',
+  { lines: z.array(z.string()) },
+  async ({ lines }) => {
+    // Split each line across writes to check they are put back together.
+    for (const line of lines) {
+      process.stderr.write(line.slice(0, 2));
+      process.stderr.write(line.slice(2) + '\n');
+    }
+    return { content: [] };
+  },
+);
+
+// The level the client asked for. Messages below it are still sent, the
+// client is expected to drop them.
+let level = 'unset';
+server.server.setRequestHandler(SetLevelRequestSchema, (request) => {
+  level = request.params.level;
+  return {};
+});
+
+server.tool('level', 'The log level the client asked for', async () => ({
+  content: [{ type: 'text', text: level }],
+}));
+
+process.stderr.write('chatty starting\n');
+await server.connect(new StdioServerTransport());
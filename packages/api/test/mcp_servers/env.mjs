@@ -0,0 +1,31 @@
+// A stdio MCP server that reports its environment, for testing what it was started with.
+import fs from 'node:fs/promises';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { z } from 'zod';
+
+const server = new McpServer({ name: 'env', version: '1.0.0' });
+
+server.tool(
+  'env',
+  'The value of an environment variable',
+  { name: z.string() },
+  async ({ name }) => ({
+    content: [{ type: 'text', text: process.env[name] ?? '' }],
+  }),
+);
+
+server.tool('cwd', 'The working directory', {}, async () => ({
+  content: [{ type: 'text', text: process.cwd() }],
+}));
+
+server.tool(
+  'read_file',
+  'The contents of a file, or the code of the error reading it',
+  { path: z.string() },
+  async ({ path }) => ({
+    content: [{ type: 'text', text: await fs.readFile(path, 'utf8').catch((error) => error.code) }],
+  }),
+);
+
+await server.connect(new StdioServerTransport());
@@ -0,0 +1,39 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export interface MockResponse {
+  // When given, calls with other arguments fail.
+  arguments?: Record<string, unknown>;
+  result?: CallToolResult;
+  text?: string;
+  // Answered as a JSON-RPC error.
+  error?: string;
+  delay?: number;
+  // The server goes away instead of answering.
+  exit?: boolean;
+}
+
+export interface MockTool {
+  name: string;
+  description?: string;
+  inputSchema?: Tool['inputSchema'];
+  annotations?: Tool['annotations'];
+  responses: MockResponse[];
+}
+
+export interface MockScript {
+  name?: string;
+  tools: MockTool[];
+}
+
+export interface MockServer {
+  calls: { name: string; arguments: Record<string, unknown> }[];
+  connections: number;
+  connect(transport: Transport): Promise<Server>;
+}
+
+export function createMockServer(
+  script: MockScript,
+  options?: { onExit?: () => unknown },
+): MockServer;
@@ -0,0 +1,94 @@
+// A scripted MCP server for tests. Each tool answers with the responses it
+// was given, in order, repeating the last one. Run it with the path of a JSON
+// script to serve it over stdio, or import createMockServer to serve it in memory.
+import fs from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { isDeepStrictEqual } from 'node:util';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListToolsRequestSchema,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+
+const EMPTY_SCHEMA = { type: 'object', properties: {} };
+
+function toResult(response, args) {
+  if (response.result) {
+    return response.result;
+  }
+  if (response.text !== undefined) {
+    return { content: [{ type: 'text', text: response.text }] };
+  }
+  // Without a scripted answer the tool echoes its arguments.
+  return { content: [{ type: 'text', text: JSON.stringify(args) }] };
+}
+
+/** @type {import('./mock.d.mts').createMockServer} */
+export function createMockServer(script, options = {}) {
+  // Shared by every connection, so a server that is restarted picks up where it left off.
+  const next = new Map(script.tools.map((tool) => [tool.name, 0]));
+  const mock = { calls: [], connections: 0, connect };
+
+  async function answer(server, name, args) {
+    const tool = script.tools.find((tool) => tool.name === name);
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `Tool ${name} not found`);
+    }
+    mock.calls.push({ name, arguments: args });
+
+    const index = next.get(name);
+    next.set(name, Math.min(index + 1, tool.responses.length - 1));
+    const response = tool.responses[index] ?? {};
+
+    if (response.arguments && !isDeepStrictEqual(response.arguments, args)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unexpected arguments for ${name}: ${JSON.stringify(args)}`,
+      );
+    }
+    if (response.delay) {
+      await new Promise((resolve) => setTimeout(resolve, response.delay));
+    }
+    if (response.exit) {
+      await (options.onExit ?? (() => server.close()))();
+      return new Promise(() => {});
+    }
+    if (response.error) {
+      throw new McpError(ErrorCode.InternalError, response.error);
+    }
+    return toResult(response, args);
+  }
+
+  async function connect(transport) {
+    const server = new Server(
+      { name: script.name ?? 'mock', version: '1.0.0' },
+      { capabilities: { tools: {} } },
+    );
+    server.setRequestHandler(ListToolsRequestSchema, () => ({
+      tools: script.tools.map(({ name, description, inputSchema, annotations }) => ({
+        name,
+        description,
+        inputSchema: inputSchema ?? EMPTY_SCHEMA,
+        annotations,
+      })),
+    }));
+    server.setRequestHandler(CallToolRequestSchema, (request) =>
+      answer(server, request.params.name, request.params.arguments ?? {}),
+    );
+    mock.connections++;
+    await server.connect(transport);
+    return server;
+  }
+
+  return mock;
+}
+
+// Only when run, not when imported.
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const script = JSON.parse(fs.readFileSync(process.argv[2], 'utf8'));
+  const mock = createMockServer(script, { onExit: () => process.exit(1) });
+  await mock.connect(new StdioServerTransport());
+}
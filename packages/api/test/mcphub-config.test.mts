@@ -0,0 +1,60 @@
+import { mockConfig, mockServer } from './mock-mcp.mjs';
+
+describe('Applying MCP config changes', () => {
+  const servers = {
+    github: mockServer('github', { tools: [{ name: 'create_issue', responses: [] }] }),
+    gitlab: mockServer('gitlab', { tools: [{ name: 'create_merge_request', responses: [] }] }),
+    jira: mockServer('jira', { tools: [{ name: 'create_ticket', responses: [] }] }),
+  };
+
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+
+  function connections() {
+    return Object.fromEntries(
+      Object.entries(servers).map(([name, server]) => [name, server.connections]),
+    );
+  }
+
+  beforeAll(async () => {
+    mockConfig.mcpServers = { github: { command: 'github' }, gitlab: { command: 'gitlab' } };
+    ({ default: mcpHub } = await import('../mcp/mcphub.mjs'));
+    await mcpHub.initialize();
+  });
+
+  it('connects servers that were added', async () => {
+    await mcpHub.applyConfig({
+      mcpServers: { ...mockConfig.mcpServers, jira: { command: 'jira' } },
+    });
+
+    expect(mcpHub.getConnection('jira')?.status).toBe('connected');
+    expect(mcpHub.getToolsByServer('jira').map((tool) => tool.name)).toEqual(['create_ticket']);
+    expect(connections()).toEqual({ github: 1, gitlab: 1, jira: 1 });
+  });
+
+  it('disconnects servers that were removed', async () => {
+    await mcpHub.applyConfig({
+      mcpServers: { gitlab: { command: 'gitlab' }, jira: { command: 'jira' } },
+    });
+
+    expect(mcpHub.getConnection('github')).toBeUndefined();
+    expect(mcpHub.getToolsByServer('github')).toEqual([]);
+    expect(mcpHub.listServers().map((server) => server.name)).toEqual(['gitlab', 'jira']);
+  });
+
+  it('restarts only the servers that were edited', async () => {
+    const gitlab = mcpHub.getConnection('gitlab')!.client;
+    const jira = mcpHub.getConnection('jira')!.client;
+
+    await mcpHub.applyConfig({
+      mcpServers: {
+        gitlab: { command: 'gitlab', env: { GITLAB_HOST: 'gitlab.example.com' } },
+        jira: { command: 'jira' },
+      },
+    });
+
+    expect(connections()).toEqual({ github: 1, gitlab: 2, jira: 1 });
+    expect(mcpHub.getConnection('gitlab')?.status).toBe('connected');
+    expect(mcpHub.getConnection('gitlab')!.client).not.toBe(gitlab);
+    expect(mcpHub.getConnection('jira')!.client).toBe(jira);
+  });
+});
@@ -0,0 +1,175 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { mockConfig } from './mock-mcp.mjs';
+
+function createEchoServer() {
+  const server = new McpServer({ name: 'echo', version: '1.0.0' });
+  server.tool('echo', 'Echo back the given message', { message: z.string() }, ({ message }) => ({
+    content: [{ type: 'text', text: `echo: ${message}` }],
+  }));
+  return server;
+}
+
+function listen(server: http.Server): Promise<string> {
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve(`http://127.0.0.1:${port}`);
+    });
+  });
+}
+
+describe('MCPHub over HTTP transports', () => {
+  const receivedHeaders: http.IncomingHttpHeaders[] = [];
+  const sseTransports = new Map<string, SSEServerTransport>();
+
+  // Stateless Streamable HTTP: every request gets a fresh server and transport.
+  const httpServer = http.createServer(async (req, res) => {
+    receivedHeaders.push(req.headers);
+    const server = createEchoServer();
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    res.on('close', () => {
+      transport.close();
+      server.close();
+    });
+    await server.connect(transport);
+    await transport.handleRequest(req, res);
+  });
+
+  const sseServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url!, 'http://localhost');
+
+    if (req.method === 'GET' && url.pathname === '/sse') {
+      const transport = new SSEServerTransport('/messages', res);
+      sseTransports.set(transport.sessionId, transport);
+      res.on('close', () => sseTransports.delete(transport.sessionId));
+      await createEchoServer().connect(transport);
+      return;
+    }
+
+    const transport = sseTransports.get(url.searchParams.get('sessionId') ?? '');
+    if (req.method === 'POST' && url.pathname === '/messages' && transport) {
+      await transport.handlePostMessage(req, res);
+      return;
+    }
+
+    res.writeHead(404).end();
+  });
+
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+
+  beforeAll(async () => {
+    const httpUrl = await listen(httpServer);
+    const sseUrl = await listen(sseServer);
+
+    mockConfig.mcpServers = {
+      'http-echo': {
+        url: `${httpUrl}/mcp`,
+        transport: 'http',
+        headers: { 'x-srcbook-test': 'streamable' },
+      },
+      'sse-echo': { url: `${sseUrl}/sse`, transport: 'sse' },
+    };
+
+    mcpHub = (await import('../mcp/mcphub.mjs')).default;
+    await mcpHub.initialize();
+  });
+
+  afterAll(() => {
+    httpServer.closeAllConnections();
+    httpServer.close();
+    sseServer.closeAllConnections();
+    sseServer.close();
+  });
+
+  it('connects to Streamable HTTP and SSE servers', () => {
+    const connections = mcpHub.listConnections();
+    expect(connections.map((conn) => [conn.name, conn.status])).toEqual([
+      ['http-echo', 'connected'],
+      ['sse-echo', 'connected'],
+    ]);
+  });
+
+  it('sends configured headers to HTTP servers', () => {
+    expect(receivedHeaders.length).toBeGreaterThan(0);
+    expect(receivedHeaders.every((headers) => headers['x-srcbook-test'] === 'streamable')).toBe(
+      true,
+    );
+  });
+
+  it('lists tools like a stdio server', async () => {
+    for (const name of ['http-echo', 'sse-echo']) {
+      const tools = await mcpHub.listTools(name);
+      expect(tools.map((tool) => tool.name)).toEqual(['echo']);
+      expect(mcpHub.findTool(name, 'echo')?.serverName).toBe(name);
+    }
+  });
+
+  it('calls tools like a stdio server', async () => {
+    for (const name of ['http-echo', 'sse-echo']) {
+      const result = await mcpHub.callTool(name, 'echo', { message: name });
+      expect(result.content).toEqual([{ type: 'text', text: `echo: ${name}` }]);
+    }
+  });
+
+  it('disables, re-enables and removes servers at runtime', async () => {
+    const removed: string[] = [];
+    mcpHub.onServerRemoved((name) => removed.push(name));
+
+    const config = mockConfig.mcpServers['sse-echo'] as { url: string; transport: 'sse' };
+
+    await mcpHub.upsertServer('sse-echo', { ...config, disabled: true });
+    expect(mcpHub.listConnections().map((conn) => conn.name)).toEqual(['http-echo']);
+    expect(mcpHub.getToolsByServer('sse-echo')).toEqual([]);
+    expect(mcpHub.listServers().find((server) => server.name === 'sse-echo')).toMatchObject({
+      status: 'disconnected',
+      config: { disabled: true },
+    });
+    await expect(mcpHub.reconnectServer('sse-echo')).rejects.toThrow('disabled');
+
+    await mcpHub.upsertServer('sse-echo', config);
+    expect(mcpHub.getConnection('sse-echo')?.status).toBe('connected');
+    const result = await mcpHub.callTool('sse-echo', 'echo', { message: 'again' });
+    expect(result.content).toEqual([{ type: 'text', text: 'echo: again' }]);
+
+    await mcpHub.removeServer('sse-echo');
+    expect(removed).toEqual(['sse-echo']);
+    expect(mcpHub.listServers().map((server) => server.name)).toEqual(['http-echo']);
+    expect(mcpHub.getConnection('sse-echo')).toBeUndefined();
+  });
+
+  it('applies config changes by connecting, restarting and removing only what changed', async () => {
+    const transitions: string[] = [];
+    mcpHub.onStatusChange((name, { status }) => transitions.push(`${name}:${status}`));
+
+    const httpConfig = mockConfig.mcpServers['http-echo'] as { url: string; transport: 'http' };
+    const sseUrl = (mockConfig.mcpServers['sse-echo'] as { url: string }).url;
+
+    // Re-adding a server with an unchanged config leaves the existing connection alone.
+    await mcpHub.applyConfig({
+      mcpServers: {
+        'http-echo': httpConfig,
+        'sse-echo': { url: sseUrl, transport: 'sse' },
+      },
+    });
+    expect(transitions).toEqual(['sse-echo:connecting', 'sse-echo:connected']);
+
+    transitions.length = 0;
+    await mcpHub.applyConfig({
+      mcpServers: {
+        'http-echo': { ...httpConfig, headers: { 'x-srcbook-test': 'reloaded' } },
+      },
+    });
+    expect(transitions.sort()).toEqual([
+      'http-echo:connected',
+      'http-echo:connecting',
+      'sse-echo:disconnected',
+    ]);
+    expect(mcpHub.listServers().map((server) => server.name)).toEqual(['http-echo']);
+    expect(receivedHeaders.at(-1)?.['x-srcbook-test']).toBe('reloaded');
+  });
+});
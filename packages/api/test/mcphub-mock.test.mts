@@ -0,0 +1,97 @@
+import { vi } from 'vitest';
+import { mockConfig, mockServer } from './mock-mcp.mjs';
+
+// Servers are scripted and served in memory instead of being started.
+describe('MCPHub against scripted servers', () => {
+  const weather = mockServer('weather', {
+    tools: [
+      {
+        name: 'forecast',
+        inputSchema: { type: 'object', properties: { city: { type: 'string' } } },
+        responses: [{ text: 'sunny' }, { text: 'rainy' }],
+      },
+      { name: 'flaky', responses: [{ error: 'busy' }, { text: 'done' }] },
+      { name: 'slow', responses: [{ delay: 100 }] },
+      { name: 'crash', responses: [{ exit: true }, { text: 'back' }] },
+    ],
+  });
+
+  let mcpHub: typeof import('../mcp/mcphub.mjs').default;
+
+  // Calls that race to import the dev server don't all get the mock, so start
+  // them one by one.
+  async function start(toolName: string, args: Record<string, unknown> = {}) {
+    const { trackOperation } = await import('../dev-server.mjs');
+    const calls = vi.mocked(trackOperation).mock.calls.length;
+    const result = mcpHub.callTool('weather', toolName, args);
+    result.catch(() => {});
+    await vi.waitFor(() => expect(trackOperation).toHaveBeenCalledTimes(calls + 1));
+    return { result };
+  }
+
+  async function call(toolName: string, args: Record<string, unknown> = {}) {
+    return (await start(toolName, args)).result;
+  }
+
+  beforeAll(async () => {
+    mockConfig.mcpServers = { weather: { command: 'weather', retries: 1, retryDelay: 0 } };
+    ({ default: mcpHub } = await import('../mcp/mcphub.mjs'));
+    mcpHub.configureSupervisor({ baseRestartDelay: 10 });
+    await mcpHub.initialize();
+  });
+
+  afterEach(() => {
+    weather.calls.length = 0;
+  });
+
+  it('connects and lists the scripted tools', () => {
+    expect(mcpHub.getConnection('weather')?.status).toBe('connected');
+    expect(mcpHub.getToolsByServer('weather').map((tool) => tool.name)).toEqual([
+      'forecast',
+      'flaky',
+      'slow',
+      'crash',
+    ]);
+  });
+
+  it('answers calls in the order scripted', async () => {
+    expect(await call('forecast', { city: 'Paris' })).toEqual({
+      content: [{ type: 'text', text: 'sunny' }],
+    });
+    expect(await call('forecast', { city: 'Oslo' })).toEqual({
+      content: [{ type: 'text', text: 'rainy' }],
+    });
+    expect(weather.calls).toEqual([
+      { name: 'forecast', arguments: { city: 'Paris' } },
+      { name: 'forecast', arguments: { city: 'Oslo' } },
+    ]);
+  });
+
+  it('retries calls that failed', async () => {
+    expect(await call('flaky')).toEqual({ content: [{ type: 'text', text: 'done' }] });
+    expect(weather.calls.map((call) => call.name)).toEqual(['flaky', 'flaky']);
+  });
+
+  it('queues calls behind the one running', async () => {
+    const events: import('../mcp/mcphub.mjs').ToolCallEvent[] = [];
+    mcpHub.onToolCall((event) => events.push(event));
+
+    const first = await start('slow', { n: 1 });
+    const second = await start('slow', { n: 2 });
+    await Promise.all([first.result, second.result]);
+    expect(weather.calls.map((call) => call.arguments)).toEqual([{ n: 1 }, { n: 2 }]);
+    expect(events.filter((event) => event.type === 'queued')).toEqual([
+      { type: 'queued', callId: expect.any(String), position: 1 },
+      { type: 'queued', callId: expect.any(String), position: undefined },
+    ]);
+  });
+
+  it('restarts servers that went away', async () => {
+    const connections = weather.connections;
+
+    // The call is retried once the supervisor has brought the server back.
+    expect(await call('crash')).toEqual({ content: [{ type: 'text', text: 'back' }] });
+    expect(weather.connections).toBe(connections + 1);
+    expect(mcpHub.getConnection('weather')?.status).toBe('connected');
+  });
+});
@@ -0,0 +1,226 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { PassThrough } from 'node:stream';
+import { fileURLToPath } from 'node:url';
+import { vi } from 'vitest';
+import type { StdioServerParameters } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage, Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { McpServerConfig } from '../mcp/types/index.mjs';
+import { createMockServer, type MockScript, type MockServer } from './mcp_servers/mock.mjs';
+
+export type { MockResponse, MockScript, MockServer, MockTool } from './mcp_servers/mock.mjs';
+
+/*
+ * Stands in for the SDK's stdio transport, so the hub talks to scripted
+ * servers in memory instead of starting processes. Import it before anything
+ * from Srcbook in a test file:
+ *
+ *   import { mockConfig, mockServer } from './mock-mcp.mjs';
+ *
+ * Servers configured with a command registered through mockServer,
+ * serveInMemory or useFixture are served in memory, any other command is
+ * started as usual. Importing it also mocks what the hub needs from the rest
+ * of Srcbook: the MCP config is `mockConfig`, and there is no model or dev
+ * server. Tests adjust these mocks with vi.mocked.
+ *
+ * Only stdio is replaced, so tests of the HTTP and SSE transports run their
+ * own servers.
+ */
+
+export const mockConfig = { mcpServers: {} as Record<string, McpServerConfig> };
+
+vi.mock('../mcp/config.mjs', () => ({
+  loadMcpConfig: vi.fn().mockImplementation(() => Promise.resolve(mockConfig)),
+  watchMcpConfig: vi.fn().mockReturnValue(() => {}),
+  saveMcpServer: vi.fn().mockResolvedValue({}),
+  loadSecrets: vi.fn().mockResolvedValue({}),
+}));
+
+vi.mock('../ai/config.mjs', () => ({
+  getModel: vi.fn(),
+}));
+
+// callTool tracks in-flight operations on the dev server, which we don't want to boot here.
+vi.mock('../dev-server.mjs', () => ({
+  trackOperation: vi.fn(),
+}));
+
+vi.mock('@modelcontextprotocol/sdk/client/stdio.js', () => import('./mock-mcp.mjs'));
+
+// Set to record fixtures from the real servers instead of replaying them.
+const RECORD_ENV = 'MCP_RECORD';
+const FIXTURES_DIR = fileURLToPath(new URL('mcp_fixtures', import.meta.url));
+
+export interface McpFixture {
+  tools: Tool[];
+  calls: { name: string; arguments: Record<string, unknown>; result?: any; error?: string }[];
+}
+
+const mocks = new Map<string, { connect(transport: Transport): Promise<unknown> }>();
+const recordings = new Map<string, { params: StdioServerParameters; file: string }>();
+
+/**
+ * Serve the script to servers configured with the command.
+ */
+export function mockServer(command: string, script: MockScript): MockServer {
+  const mock = createMockServer(script);
+  mocks.set(command, mock);
+  return mock;
+}
+
+/**
+ * Serve a new server from the factory on every connection of servers
+ * configured with the command, for what scripts can't express.
+ */
+export function serveInMemory(
+  command: string,
+  createServer: () => { connect(transport: Transport): Promise<void> },
+) {
+  mocks.set(command, { connect: (transport) => createServer().connect(transport) });
+}
+
+/**
+ * Replay a fixture to servers configured with the command. With MCP_RECORD
+ * set, the real server is started with params instead and what it's asked and
+ * answers is written to the fixture, replacing it.
+ */
+export function useFixture(
+  command: string,
+  name: string,
+  params: StdioServerParameters,
+): MockServer | undefined {
+  const file = path.join(FIXTURES_DIR, `${name}.json`);
+  if (process.env[RECORD_ENV]) {
+    fs.mkdirSync(FIXTURES_DIR, { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({ tools: [], calls: [] }, null, 2) + '\n');
+    recordings.set(command, { params, file });
+    return undefined;
+  }
+  const fixture: McpFixture = JSON.parse(fs.readFileSync(file, 'utf8'));
+  return mockServer(command, fixtureScript(fixture));
+}
+
+/**
+ * A script answering the recorded calls in order, failing calls whose
+ * arguments differ from the recording.
+ */
+export function fixtureScript(fixture: McpFixture): MockScript {
+  return {
+    tools: fixture.tools.map((tool) => ({
+      ...tool,
+      responses: fixture.calls
+        .filter((call) => call.name === tool.name)
+        .map(({ arguments: args, result, error }) =>
+          error === undefined ? { arguments: args, result } : { arguments: args, error },
+        ),
+    })),
+  };
+}
+
+/**
+ * Wrap a transport to write the tools listed and called through it to the
+ * fixture file.
+ */
+function recordTraffic(transport: Transport, file: string): Transport {
+  const fixture: McpFixture = JSON.parse(fs.readFileSync(file, 'utf8'));
+  const pending = new Map<string | number, { method: string; params?: any }>();
+
+  function save(message: JSONRPCMessage) {
+    if (!('id' in message) || !pending.has(message.id)) {
+      return;
+    }
+    const request = pending.get(message.id)!;
+    pending.delete(message.id);
+
+    if (request.method === 'tools/list' && 'result' in message) {
+      fixture.tools = message.result.tools as Tool[];
+    } else if (request.method === 'tools/call') {
+      const { name, arguments: args = {} } = request.params;
+      if ('error' in message) {
+        fixture.calls.push({ name, arguments: args, error: message.error.message });
+      } else if ('result' in message) {
+        fixture.calls.push({ name, arguments: args, result: message.result });
+      }
+    }
+    fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + '\n');
+  }
+
+  return {
+    start: () => transport.start(),
+    close: () => transport.close(),
+    send: (message, options) => {
+      if ('method' in message && 'id' in message) {
+        pending.set(message.id, { method: message.method, params: message.params });
+      }
+      return transport.send(message, options);
+    },
+    set onmessage(handler: Transport['onmessage']) {
+      transport.onmessage = (message, extra) => {
+        save(message);
+        handler?.(message, extra);
+      };
+    },
+    set onclose(handler: Transport['onclose']) {
+      transport.onclose = handler;
+    },
+    set onerror(handler: Transport['onerror']) {
+      transport.onerror = handler;
+    },
+  };
+}
+
+export class StdioClientTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+  // Servers started as usual write to it, mocked and recorded ones don't.
+  readonly stderr: PassThrough | null;
+  private transport: Transport | undefined;
+
+  constructor(private params: StdioServerParameters) {
+    this.stderr = params.stderr === 'pipe' ? new PassThrough() : null;
+  }
+
+  async start() {
+    this.transport = await this.open();
+    this.transport.onmessage = (message) => this.onmessage?.(message);
+    this.transport.onclose = () => this.onclose?.();
+    this.transport.onerror = (error) => this.onerror?.(error);
+    await this.transport.start();
+  }
+
+  private async open(): Promise<Transport> {
+    const mock = mocks.get(this.params.command);
+    if (mock) {
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await mock.connect(serverTransport);
+      return clientTransport;
+    }
+
+    const actual = await vi.importActual<
+      typeof import('@modelcontextprotocol/sdk/client/stdio.js')
+    >('@modelcontextprotocol/sdk/client/stdio.js');
+    const recording = recordings.get(this.params.command);
+    if (recording) {
+      return recordTraffic(new actual.StdioClientTransport(recording.params), recording.file);
+    }
+    const transport = new actual.StdioClientTransport(this.params);
+    if (this.stderr) {
+      transport.stderr?.pipe(this.stderr);
+    }
+    return transport;
+  }
+
+  async send(message: JSONRPCMessage) {
+    if (!this.transport) {
+      throw new Error('Not connected');
+    }
+    await this.transport.send(message);
+  }
+
+  async close() {
+    await this.transport?.close();
+  }
+}
@@ -0,0 +1,94 @@
+import { mockConfig, mockServer } from './mock-mcp.mjs';
+
+function plan(...calls: string[]) {
+  return `<plan>\n${calls.join('\n')}\n</plan>`;
+}
+
+function useTool(toolName: string, args: Record<string, unknown>, serverName?: string) {
+  const server = serverName ? `<server_name>${serverName}</server_name>` : '';
+  return `<use_mcp_tool>${server}<tool_name>${toolName}</tool_name><arguments>${JSON.stringify(args)}</arguments></use_mcp_tool>`;
+}
+
+describe('Plan execution', () => {
+  const notes = mockServer('notes', {
+    tools: [
+      {
+        name: 'write_note',
+        inputSchema: {
+          type: 'object',
+          properties: { title: { type: 'string' }, body: { type: 'string' } },
+        },
+        responses: [{ text: 'saved' }],
+      },
+      {
+        name: 'publish',
+        inputSchema: { type: 'object', properties: { title: { type: 'string' } } },
+        responses: [
+          { text: 'published' },
+          { result: { isError: true, content: [{ type: 'text', text: 'Quota exceeded' }] } },
+        ],
+      },
+    ],
+  });
+
+  let executeToolCalls: typeof import('../ai/generate.mjs').executeToolCalls;
+  let parseOutToolTags: typeof import('../ai/generate.mjs').parseOutToolTags;
+  const records: import('../mcp/mcphub.mjs').ToolCallRecord[] = [];
+
+  beforeAll(async () => {
+    mockConfig.mcpServers = { notes: { command: 'notes', retries: 0 } };
+    const { default: mcpHub } = await import('../mcp/mcphub.mjs');
+    mcpHub.onToolCallRecord((record) => records.push(record));
+    await mcpHub.initialize();
+
+    const { initializeToolExecutor } = await import('../ai/tool-executor-singleton.mjs');
+    await initializeToolExecutor(mcpHub);
+    ({ executeToolCalls, parseOutToolTags } = await import('../ai/generate.mjs'));
+  });
+
+  afterEach(() => {
+    notes.calls.length = 0;
+    records.length = 0;
+  });
+
+  it('runs the tools of a plan in order', async () => {
+    const usages = parseOutToolTags(
+      plan(
+        useTool('write_note', { title: 'Ideas', body: 'Ship it' }, 'notes'),
+        useTool('notes/publish', { title: 'Ideas' }),
+      ),
+    );
+
+    await executeToolCalls(usages, { appId: 'app-1', planId: 'plan-1' });
+
+    expect(notes.calls).toEqual([
+      { name: 'write_note', arguments: { title: 'Ideas', body: 'Ship it' } },
+      { name: 'publish', arguments: { title: 'Ideas' } },
+    ]);
+    expect(records.map(({ toolName, status, origin }) => ({ toolName, status, origin }))).toEqual([
+      { toolName: 'write_note', status: 'completed', origin: { appId: 'app-1', planId: 'plan-1' } },
+      { toolName: 'publish', status: 'completed', origin: { appId: 'app-1', planId: 'plan-1' } },
+    ]);
+  });
+
+  it('stops at the first tool that fails', async () => {
+    const usages = parseOutToolTags(
+      plan(
+        useTool('publish', { title: 'Ideas' }, 'notes'),
+        useTool('write_note', { title: 'Done', body: '' }, 'notes'),
+      ),
+    );
+
+    await expect(executeToolCalls(usages, {})).rejects.toThrow(
+      'Tool execution failed: Quota exceeded',
+    );
+    expect(notes.calls.map((call) => call.name)).toEqual(['publish']);
+  });
+
+  it('refuses tools that no server has', async () => {
+    const usages = parseOutToolTags(plan(useTool('delete_everything', {})));
+
+    await expect(executeToolCalls(usages, {})).rejects.toThrow('delete_everything');
+    expect(notes.calls).toEqual([]);
+  });
+});
@@ -0,0 +1,262 @@
+import fs from 'node:fs/promises';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+// Srcbooks are created in a temporary directory instead of ~/.srcbook/srcbooks.
+const mockDirs = vi.hoisted(() => {
+  const os = require('node:os') as typeof import('node:os');
+  const path = require('node:path') as typeof import('node:path');
+  const fs = require('node:fs') as typeof import('node:fs');
+  const srcbookDir = fs.mkdtempSync(path.join(os.tmpdir(), 'srcbook-mcp-'));
+  const srcbooksDir = path.join(srcbookDir, 'srcbooks');
+  fs.mkdirSync(srcbooksDir);
+  return { srcbookDir, srcbooksDir };
+});
+
+vi.mock('../constants.mjs', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../constants.mjs')>()),
+  SRCBOOK_DIR: mockDirs.srcbookDir,
+  SRCBOOKS_DIR: mockDirs.srcbooksDir,
+}));
+
+// The app tools broadcast through the Srcbook server, which we don't want to boot here.
+vi.mock('../index.mjs', () => ({
+  wss: { broadcast: vi.fn() },
+}));
+
+vi.mock('../config.mjs', () => ({
+  getSecretsAssociatedWithSession: vi.fn().mockResolvedValue({ GREETING: 'hello' }),
+}));
+
+describe('Srcbook MCP server', () => {
+  const client = new Client({ name: 'agent', version: '1.0.0' });
+
+  async function call(name: string, args: Record<string, unknown> = {}) {
+    const result = await client.callTool({ name, arguments: args });
+    const text = (result.content as { text: string }[])[0]!.text;
+    if (result.isError) {
+      throw new Error(text);
+    }
+    return JSON.parse(text);
+  }
+
+  let srcbookId: string;
+
+  beforeAll(async () => {
+    const { createSrcbookMcpServer } = await import('../mcp/srcbook-server.mjs');
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createSrcbookMcpServer().connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await fs.rm(mockDirs.srcbookDir, { recursive: true, force: true });
+  });
+
+  it('creates srcbooks and lists them', async () => {
+    ({ id: srcbookId } = await call('create_srcbook', {
+      title: 'Agent notes',
+      language: 'javascript',
+    }));
+
+    expect(await call('list_srcbooks')).toEqual([
+      { id: srcbookId, title: 'Agent notes', language: 'javascript', openedAt: expect.any(Number) },
+    ]);
+  });
+
+  it('adds and updates cells', async () => {
+    const markdown = await call('add_cell', { srcbookId, type: 'markdown', source: '# Notes' });
+    const code = await call('add_cell', {
+      srcbookId,
+      type: 'code',
+      source: 'console.log(1)',
+    });
+    expect(code).toMatchObject({ type: 'code', filename: 'untitled.js', status: 'idle' });
+
+    await call('update_cell', { srcbookId, cellId: markdown.id, source: '# Results' });
+    await call('update_cell', {
+      srcbookId,
+      cellId: code.id,
+      source: "console.log(process.env.GREETING); console.error('oops')",
+    });
+
+    const { cells } = await call('get_srcbook', { srcbookId });
+    expect(cells.map((cell: { type: string }) => cell.type)).toEqual([
+      'title',
+      'package.json',
+      'markdown',
+      'code',
+    ]);
+    expect(cells[2].text).toBe('# Results');
+    expect(
+      await fs.readFile(`${mockDirs.srcbooksDir}/${srcbookId}/src/untitled.js`, 'utf8'),
+    ).toContain('process.env.GREETING');
+  });
+
+  it('refuses code cells with filenames for another language or already in use', async () => {
+    await expect(
+      call('add_cell', { srcbookId, type: 'code', source: '', filename: 'types.ts' }),
+    ).rejects.toThrow('types.ts is not a valid filename for a javascript cell');
+    await expect(
+      call('add_cell', { srcbookId, type: 'code', source: '', filename: 'untitled.js' }),
+    ).rejects.toThrow(`Srcbook ${srcbookId} already has a cell named untitled.js`);
+  });
+
+  it('runs cells with their secrets and keeps their output', async () => {
+    const { cells } = await call('get_srcbook', { srcbookId });
+    const cellId = cells[3].id;
+
+    await expect(call('read_cell_output', { srcbookId, cellId })).rejects.toThrow(
+      `Cell ${cellId} has not been run`,
+    );
+
+    const output = await call('run_cell', { srcbookId, cellId });
+    expect(output).toEqual({ exitCode: 0, stdout: 'hello\n', stderr: 'oops\n', timedOut: false });
+    expect(await call('read_cell_output', { srcbookId, cellId })).toEqual(output);
+  });
+
+  it('stops cells that run for too long', async () => {
+    const cell = await call('add_cell', {
+      srcbookId,
+      type: 'code',
+      source: 'setInterval(() => {}, 1000)',
+      filename: 'forever.js',
+    });
+
+    expect(await call('run_cell', { srcbookId, cellId: cell.id, timeout: 200 })).toMatchObject({
+      exitCode: null,
+      timedOut: true,
+    });
+    expect((await call('get_srcbook', { srcbookId })).cells[4].status).toBe('idle');
+  });
+
+  it('kills cells that keep running once stopped', async () => {
+    const cell = await call('add_cell', {
+      srcbookId,
+      type: 'code',
+      source: "process.on('SIGTERM', () => {});\nsetInterval(() => {}, 1000);",
+      filename: 'stubborn.js',
+    });
+
+    expect(await call('run_cell', { srcbookId, cellId: cell.id, timeout: 200 })).toMatchObject({
+      exitCode: null,
+      timedOut: true,
+    });
+  });
+
+  it('truncates output past the limit', async () => {
+    const cell = await call('add_cell', {
+      srcbookId,
+      type: 'code',
+      source: "process.stdout.write('x'.repeat(150000))",
+      filename: 'chatty.js',
+    });
+
+    const { stdout } = await call('run_cell', { srcbookId, cellId: cell.id });
+    expect(stdout).toBe('x'.repeat(100000) + '\n[truncated]');
+  });
+
+  it('exposes srcbooks as .src.md resources', async () => {
+    const { resources } = await client.listResources();
+    expect(resources).toEqual([
+      { uri: `srcbook://${srcbookId}`, name: 'Agent notes', mimeType: 'text/markdown' },
+    ]);
+
+    const { contents } = await client.readResource({ uri: `srcbook://${srcbookId}` });
+    expect(contents[0]!.text).toContain('# Agent notes');
+    expect(contents[0]!.text).toContain('###### untitled.js');
+  });
+});
+
+describe('Srcbook MCP server over HTTP', () => {
+  const servers: http.Server[] = [];
+
+  async function serve(options?: { host?: string; token?: string }) {
+    const { serveSrcbookMcpOverHttp } = await import('../mcp/srcbook-server.mjs');
+    const server = await serveSrcbookMcpOverHttp(0, options);
+    servers.push(server);
+    return server.address() as AddressInfo;
+  }
+
+  async function listTools({ port }: AddressInfo, headers: Record<string, string> = {}) {
+    const client = new Client({ name: 'agent', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`), {
+      requestInit: { headers },
+    });
+    await client.connect(transport);
+    const { tools } = await client.listTools();
+    await client.close();
+    return tools;
+  }
+
+  afterAll(() => {
+    for (const server of servers) {
+      server.close();
+    }
+  });
+
+  it('only listens on this machine by default', async () => {
+    const address = await serve();
+    expect(address.address).toBe('127.0.0.1');
+    expect(await listTools(address)).toContainEqual(
+      expect.objectContaining({ name: 'create_srcbook' }),
+    );
+  });
+
+  it('refuses requests for other hosts or from other sites without a token', async () => {
+    const { port } = await serve();
+
+    // fetch won't send a Host other than the one it connects to.
+    function post(headers: Record<string, string>) {
+      return new Promise<number | undefined>((resolve, reject) => {
+        const req = http.request(
+          {
+            port,
+            path: '/mcp',
+            method: 'POST',
+            headers: {
+              Accept: 'application/json, text/event-stream',
+              'Content-Type': 'application/json',
+              ...headers,
+            },
+          },
+          (res) => {
+            res.resume();
+            resolve(res.statusCode);
+          },
+        );
+        req.on('error', reject);
+        req.end(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }));
+      });
+    }
+
+    // A page on evil.example whose domain now points at this machine.
+    expect(await post({ Host: `evil.example:${port}` })).toBe(403);
+    expect(await post({ Origin: `http://evil.example:${port}` })).toBe(403);
+    expect(await post({ Host: `localhost:${port}`, Origin: `http://localhost:${port}` })).toBe(200);
+  });
+
+  it('requires the token when one is set', async () => {
+    const address = await serve({ token: 'secret' });
+
+    const response = await fetch(`http://127.0.0.1:${address.port}/mcp`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer wrong', 'Content-Type': 'application/json' },
+      body: '{}',
+    });
+    expect(response.status).toBe(401);
+
+    expect(await listTools(address, { Authorization: 'Bearer secret' })).not.toHaveLength(0);
+  });
+
+  it('refuses to serve other interfaces without a token', async () => {
+    await expect(serve({ host: '0.0.0.0' })).rejects.toThrow(
+      'A token is required to serve MCP on 0.0.0.0',
+    );
+  });
+});
@@ -1,9 +1,39 @@
 import fs from 'node:fs/promises';
+import { EventEmitter } from 'node:events';
+import type http from 'node:http';
 import { fileURLToPath } from 'node:url';
 import path from 'node:path';
+import type { WebSocket } from 'ws';
+import type WebSocketServer from '../server/ws-client.mjs';
 
 export async function getRelativeFileContents(relativePath: string) {
   const __filename = fileURLToPath(import.meta.url);
   const __dirname = path.dirname(__filename);
   return fs.readFile(path.join(__dirname, relativePath), { encoding: 'utf8' });
 }
+
+// A browser tab, as seen by the websocket server.
+export function createBrowser() {
+  const socket = Object.assign(new EventEmitter(), {
+    sent: [] as [string, string, Record<string, any>][],
+    send(data: string) {
+      socket.sent.push(JSON.parse(data));
+    },
+    close() {},
+  });
+  return {
+    socket,
+    connect(wss: WebSocketServer) {
+      wss.onConnection(
+        socket as unknown as WebSocket,
+        { url: '/websocket', headers: { host: 'localhost' } } as http.IncomingMessage,
+      );
+    },
+    push(topic: string, event: string, payload: Record<string, any>) {
+      socket.emit('message', Buffer.from(JSON.stringify([topic, event, payload])));
+    },
+    received(event: string) {
+      return socket.sent.filter(([, e]) => e === event).map(([, , payload]) => payload);
+    },
+  };
+}
@@ -210,3 +210,338 @@ export const DepsStatusResponsePayloadSchema = z.object({
 export const DepsInstallPayloadSchema = z.object({
   packages: z.array(z.string()).optional(),
 });
+
+/////////
+// MCP //
+/////////
+
+export const McpServerToolSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  inputSchema: z.record(z.string(), z.any()),
+});
+
+export const McpServerResourceSchema = z.object({
+  uri: z.string(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  mimeType: z.string().optional(),
+});
+
+export const McpServerResourceTemplateSchema = z.object({
+  uriTemplate: z.string(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  mimeType: z.string().optional(),
+});
+
+export const McpServerPromptSchema = z.object({
+  name: z.string(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  arguments: z
+    .array(
+      z.object({
+        name: z.string(),
+        description: z.string().optional(),
+        required: z.boolean().optional(),
+      }),
+    )
+    .optional(),
+});
+
+export const McpServerStatusPayloadSchema = z.object({
+  name: z.string(),
+  status: z.enum(['connected', 'connecting', 'disconnected']),
+  error: z.string().optional(),
+  disabled: z.boolean(),
+  tools: z.array(McpServerToolSchema).optional(),
+  resources: z.array(McpServerResourceSchema).optional(),
+  resourceTemplates: z.array(McpServerResourceTemplateSchema).optional(),
+  prompts: z.array(McpServerPromptSchema).optional(),
+});
+
+export const McpServersListPayloadSchema = z.object({});
+
+export const McpServersListResponsePayloadSchema = z.object({
+  servers: z.array(McpServerStatusPayloadSchema),
+});
+
+export const McpServerNamePayloadSchema = z.object({
+  name: z.string(),
+});
+
+export const McpServerStatusResponsePayloadSchema = z.object({
+  status: McpServerStatusPayloadSchema,
+});
+
+export const McpServerErrorPayloadSchema = z.object({
+  name: z.string().optional(),
+  error: z.string(),
+});
+
+export const McpResourceSubscribePayloadSchema = z.object({
+  serverName: z.string(),
+  uri: z.string(),
+});
+
+export const McpResourceSubscribedPayloadSchema = z.object({
+  serverName: z.string(),
+  uri: z.string(),
+  // Whether the server pushes updates for this resource.
+  live: z.boolean(),
+});
+
+export const McpResourceContentsSchema = z.object({
+  uri: z.string(),
+  mimeType: z.string().optional(),
+  text: z.string().optional(),
+  blob: z.string().optional(),
+});
+
+export const McpResourceUpdatedPayloadSchema = z.object({
+  serverName: z.string(),
+  uri: z.string(),
+  contents: z.array(McpResourceContentsSchema),
+});
+
+export const McpResourceErrorPayloadSchema = z.object({
+  serverName: z.string(),
+  uri: z.string(),
+  error: z.string(),
+});
+
+export const McpSamplingMessageSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  type: z.enum(['text', 'image', 'audio']),
+  // Only text content is sent to the browser; images and audio are described by mimeType.
+  text: z.string().optional(),
+  mimeType: z.string().optional(),
+});
+
+export const McpSamplingRequestPayloadSchema = z.object({
+  requestId: z.string(),
+  serverName: z.string(),
+  messages: z.array(McpSamplingMessageSchema),
+  systemPrompt: z.string().optional(),
+  maxTokens: z.number(),
+  model: z.string(),
+});
+
+export const McpSamplingRespondPayloadSchema = z.object({
+  requestId: z.string(),
+  approved: z.boolean(),
+  // Skip this prompt for future requests from the same server.
+  alwaysAllow: z.boolean().default(false),
+});
+
+export const McpSamplingResolvedPayloadSchema = z.object({
+  requestId: z.string(),
+});
+
+// A field of an elicitation form. MCP only allows flat objects of primitives.
+export const McpElicitationFieldSchema = z.object({
+  type: z.enum(['string', 'number', 'integer', 'boolean']),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  enum: z.array(z.string()).optional(),
+  enumNames: z.array(z.string()).optional(),
+  format: z.enum(['email', 'uri', 'date', 'date-time']).optional(),
+  minLength: z.number().optional(),
+  maxLength: z.number().optional(),
+  minimum: z.number().optional(),
+  maximum: z.number().optional(),
+  default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+});
+
+export const McpElicitationRequestPayloadSchema = z.object({
+  requestId: z.string(),
+  serverName: z.string(),
+  message: z.string(),
+  requestedSchema: z.object({
+    properties: z.record(z.string(), McpElicitationFieldSchema),
+    required: z.array(z.string()).optional(),
+  }),
+});
+
+export const McpElicitationRespondPayloadSchema = z.object({
+  requestId: z.string(),
+  action: z.enum(['accept', 'decline', 'cancel']),
+  // Only sent when accepting.
+  content: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).optional(),
+});
+
+export const McpElicitationResolvedPayloadSchema = z.object({
+  requestId: z.string(),
+});
+
+export const McpToolCallProgressSchema = z.object({
+  progress: z.number(),
+  total: z.number().optional(),
+  message: z.string().optional(),
+});
+
+export const McpToolCallSchema = z.object({
+  callId: z.string(),
+  serverName: z.string(),
+  toolName: z.string(),
+  startedAt: z.number(),
+  progress: McpToolCallProgressSchema.optional(),
+  // Place in the server's queue while waiting to run, 1 being next.
+  queuePosition: z.number().optional(),
+});
+
+export const McpToolCallStartedPayloadSchema = z.object({
+  call: McpToolCallSchema,
+});
+
+export const McpToolCallProgressPayloadSchema = z.object({
+  callId: z.string(),
+  progress: McpToolCallProgressSchema,
+});
+
+export const McpToolCallQueuedPayloadSchema = z.object({
+  callId: z.string(),
+  // Missing once the call has left the queue and is running.
+  position: z.number().optional(),
+});
+
+export const McpToolCallFinishedPayloadSchema = z.object({
+  callId: z.string(),
+  status: z.enum(['completed', 'failed', 'cancelled']),
+  error: z.string().optional(),
+});
+
+export const McpToolCallCancelPayloadSchema = z.object({
+  callId: z.string(),
+});
+
+export const McpToolCallResponseSchema = z.object({
+  _meta: z.record(z.any()).optional(),
+  content: z.array(
+    z.discriminatedUnion('type', [
+      z.object({
+        type: z.literal('text'),
+        text: z.string(),
+      }),
+      z.object({
+        type: z.literal('image'),
+        data: z.string(),
+        mimeType: z.string(),
+      }),
+      z.object({
+        type: z.literal('audio'),
+        data: z.string(),
+        mimeType: z.string(),
+      }),
+      z.object({
+        type: z.literal('resource'),
+        resource: z.object({
+          uri: z.string(),
+          mimeType: z.string().optional(),
+          text: z.string().optional(),
+          blob: z.string().optional(),
+        }),
+      }),
+      z.object({
+        type: z.literal('resource_link'),
+        uri: z.string(),
+        name: z.string(),
+        description: z.string().optional(),
+        mimeType: z.string().optional(),
+      }),
+    ]),
+  ),
+  isError: z.boolean().optional(),
+});
+
+export const McpToolExecutePayloadSchema = z.object({
+  serverName: z.string(),
+  toolName: z.string(),
+  params: z.record(z.string(), z.any()),
+});
+
+export const McpToolExecuteResultPayloadSchema = z.object({
+  result: McpToolCallResponseSchema,
+});
+
+export const McpToolExecuteErrorPayloadSchema = z.object({
+  error: z.string(),
+});
+
+export const McpLogLevelSchema = z.enum([
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+]);
+
+export const McpServerLogEntrySchema = z.union([
+  z.object({
+    timestamp: z.number(),
+    message: z.string(),
+    source: z.literal('stderr'),
+  }),
+  z.object({
+    timestamp: z.number(),
+    message: z.string(),
+    source: z.literal('server'),
+    level: McpLogLevelSchema,
+    logger: z.string().optional(),
+  }),
+]);
+
+export const McpServerLogsHistoryPayloadSchema = z.object({
+  entries: z.array(McpServerLogEntrySchema),
+  level: McpLogLevelSchema.optional(),
+  // Whether the server accepts `logging/setLevel`.
+  supportsLevel: z.boolean(),
+});
+
+export const McpServerLogEntryPayloadSchema = z.object({
+  entry: McpServerLogEntrySchema,
+});
+
+export const McpServerLogLevelPayloadSchema = z.object({
+  level: McpLogLevelSchema,
+});
+
+export const McpServerLogErrorPayloadSchema = z.object({
+  error: z.string(),
+});
+
+export const McpServerLogsClearPayloadSchema = z.object({});
+
+// What an argument to complete belongs to. Tools aren't part of MCP's
+// completion, their suggestions come from the enum in the argument's schema.
+export const McpCompletionRefSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('ref/prompt'), name: z.string() }),
+  z.object({ type: z.literal('ref/resource'), uri: z.string() }),
+  z.object({ type: z.literal('ref/tool'), name: z.string() }),
+]);
+
+export const McpCompletionRequestPayloadSchema = z.object({
+  // Sent back with the suggestions, so answers for earlier keystrokes can be told apart.
+  requestId: z.string(),
+  serverName: z.string(),
+  ref: McpCompletionRefSchema,
+  argument: z.object({ name: z.string(), value: z.string() }),
+  // Values of the other arguments filled in so far.
+  context: z.record(z.string(), z.string()).optional(),
+});
+
+export const McpCompletionResultPayloadSchema = z.object({
+  requestId: z.string(),
+  values: z.array(z.string()),
+  total: z.number().optional(),
+  hasMore: z.boolean().optional(),
+});
+
+export const McpCompletionErrorPayloadSchema = z.object({
+  requestId: z.string(),
+  error: z.string(),
+});
@@ -43,6 +43,29 @@ import {
   DepsStatusPayloadSchema,
   DepsStatusResponsePayloadSchema,
   PreviewLogPayloadSchema,
+  McpServerToolSchema,
+  McpServerResourceSchema,
+  McpServerResourceTemplateSchema,
+  McpServerStatusPayloadSchema,
+  McpServerErrorPayloadSchema,
+  McpResourceSubscribePayloadSchema,
+  McpResourceContentsSchema,
+  McpResourceUpdatedPayloadSchema,
+  McpSamplingMessageSchema,
+  McpSamplingRequestPayloadSchema,
+  McpSamplingRespondPayloadSchema,
+  McpElicitationFieldSchema,
+  McpElicitationRequestPayloadSchema,
+  McpElicitationRespondPayloadSchema,
+  McpToolCallSchema,
+  McpToolCallProgressSchema,
+  McpToolCallResponseSchema,
+  McpToolExecutePayloadSchema,
+  McpLogLevelSchema,
+  McpServerLogEntrySchema,
+  McpCompletionRefSchema,
+  McpCompletionRequestPayloadSchema,
+  McpCompletionResultPayloadSchema,
 } from '../schemas/websockets.mjs';
 
 export type CellExecPayloadType = z.infer<typeof CellExecPayloadSchema>;
@@ -113,3 +136,31 @@ export type PreviewStopPayloadType = z.infer<typeof PreviewStopPayloadSchema>;
 export type PreviewLogPayloadType = z.infer<typeof PreviewLogPayloadSchema>;
 export type DepsInstallLogPayloadType = z.infer<typeof DepsInstallLogPayloadSchema>;
 export type DepsInstallStatusPayloadType = z.infer<typeof DepsInstallStatusPayloadSchema>;
+
+/////////
+// MCP //
+/////////
+
+export type McpServerToolType = z.infer<typeof McpServerToolSchema>;
+export type McpServerResourceType = z.infer<typeof McpServerResourceSchema>;
+export type McpServerResourceTemplateType = z.infer<typeof McpServerResourceTemplateSchema>;
+export type McpServerStatusPayloadType = z.infer<typeof McpServerStatusPayloadSchema>;
+export type McpServerErrorPayloadType = z.infer<typeof McpServerErrorPayloadSchema>;
+export type McpResourceSubscribePayloadType = z.infer<typeof McpResourceSubscribePayloadSchema>;
+export type McpResourceContentsType = z.infer<typeof McpResourceContentsSchema>;
+export type McpResourceUpdatedPayloadType = z.infer<typeof McpResourceUpdatedPayloadSchema>;
+export type McpSamplingMessageType = z.infer<typeof McpSamplingMessageSchema>;
+export type McpSamplingRequestPayloadType = z.infer<typeof McpSamplingRequestPayloadSchema>;
+export type McpSamplingRespondPayloadType = z.infer<typeof McpSamplingRespondPayloadSchema>;
+export type McpElicitationFieldType = z.infer<typeof McpElicitationFieldSchema>;
+export type McpElicitationRequestPayloadType = z.infer<typeof McpElicitationRequestPayloadSchema>;
+export type McpElicitationRespondPayloadType = z.infer<typeof McpElicitationRespondPayloadSchema>;
+export type McpToolCallType = z.infer<typeof McpToolCallSchema>;
+export type McpToolCallProgressType = z.infer<typeof McpToolCallProgressSchema>;
+export type McpToolCallResponseType = z.infer<typeof McpToolCallResponseSchema>;
+export type McpToolExecutePayloadType = z.infer<typeof McpToolExecutePayloadSchema>;
+export type McpLogLevelType = z.infer<typeof McpLogLevelSchema>;
+export type McpServerLogEntryType = z.infer<typeof McpServerLogEntrySchema>;
+export type McpCompletionRefType = z.infer<typeof McpCompletionRefSchema>;
+export type McpCompletionRequestPayloadType = z.infer<typeof McpCompletionRequestPayloadSchema>;
+export type McpCompletionResultPayloadType = z.infer<typeof McpCompletionResultPayloadSchema>;
@@ -3,6 +3,8 @@ import { Toaster } from '@srcbook/components/src/components/ui/sonner';
 import { SettingsProvider } from '@/components/use-settings';
 import { type SettingsType } from '@/types';
 import { getConfig } from '@/lib/server';
+import { SamplingApprovalDialog } from '@/components/mcp/sampling-approval';
+import { ElicitationDialog } from '@/components/mcp/elicitation-dialog';
 
 export async function loader() {
   const { result: config } = await getConfig();
@@ -18,6 +20,8 @@ export default function Layout(props: { children: React.ReactNode }) {
       <SettingsProvider config={config}>{props.children}</SettingsProvider>
 
       <Toaster position="top-right" offset="20px" closeButton />
+      <SamplingApprovalDialog />
+      <ElicitationDialog />
     </>
   );
 }
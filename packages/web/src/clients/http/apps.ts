@@ -8,6 +8,7 @@ import type {
   FileType,
 } from '@srcbook/shared';
 import SRCBOOK_CONFIG from '@/config';
+import type { McpPromptInvocationType, McpResourceRefType } from '@/clients/http/mcp';
 import type { HistoryType, MessageType } from '@srcbook/shared';
 import { StreamToIterable } from '@srcbook/shared';
 
@@ -236,11 +237,13 @@ export async function aiEditApp(
   id: string,
   query: string,
   planId: string,
+  resources: McpResourceRefType[] = [],
+  prompt?: McpPromptInvocationType,
 ): Promise<AsyncIterable<DescriptionChunkType | ActionChunkType>> {
   const response = await fetch(API_BASE_URL + `/apps/${id}/edit`, {
     method: 'POST',
     headers: { 'content-type': 'application/json' },
-    body: JSON.stringify({ query, planId }),
+    body: JSON.stringify({ query, planId, resources, prompt }),
   });
 
   if (!response.ok) {
@@ -0,0 +1,210 @@
+import SRCBOOK_CONFIG from '@/config';
+import type { McpResourceContentsType } from '@srcbook/shared';
+
+const API_BASE_URL = `${SRCBOOK_CONFIG.api.origin}/api`;
+
+export type McpCallSettingsType = {
+  timeout?: number;
+  retries?: number;
+  retryDelay?: number;
+};
+
+export type McpServerSettingsType = McpCallSettingsType & {
+  disabled?: boolean;
+  alias?: string;
+  sampling?: { alwaysAllow?: boolean };
+  connectTimeout?: number;
+  maxConcurrentCalls?: number;
+  maxQueuedCalls?: number;
+  cacheTtl?: number;
+  tools?: Record<string, McpCallSettingsType>;
+};
+
+export type McpStdioServerConfigType = McpServerSettingsType & {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  inheritEnv?: string[];
+  cwd?: string;
+  nodePermissions?: {
+    allowRead?: string[];
+    allowWrite?: string[];
+    allowChildProcess?: boolean;
+    allowWorker?: boolean;
+  };
+};
+
+export type McpHttpServerConfigType = McpServerSettingsType & {
+  url: string;
+  transport: 'http' | 'sse';
+  headers?: Record<string, string>;
+};
+
+export type McpServerConfigType = McpStdioServerConfigType | McpHttpServerConfigType;
+
+export type McpServerType = {
+  name: string;
+  config: McpServerConfigType;
+  status: 'connected' | 'connecting' | 'disconnected';
+  capabilities: { tools?: boolean; resources?: boolean; resourceTemplates?: boolean };
+  error?: string;
+};
+
+async function request<T>(path: string, init: RequestInit): Promise<T> {
+  const response = await fetch(API_BASE_URL + path, {
+    ...init,
+    headers: { 'content-type': 'application/json' },
+  });
+
+  if (!response.ok) {
+    console.error(response);
+    const body = await response.json().catch(() => ({}));
+    const message = body.errors ? body.errors.join('\n') : body.error;
+    throw new Error(typeof message === 'string' ? message : 'Request failed');
+  }
+
+  return response.json();
+}
+
+export function loadMcpServers(): Promise<{ data: McpServerType[] }> {
+  return request('/mcp/servers', { method: 'GET' });
+}
+
+export function createMcpServer(body: {
+  name: string;
+  config: McpServerConfigType;
+}): Promise<{ data: McpServerType }> {
+  return request('/mcp/servers', { method: 'POST', body: JSON.stringify(body) });
+}
+
+export function updateMcpServer(
+  name: string,
+  config: McpServerConfigType,
+): Promise<{ data: McpServerType }> {
+  return request('/mcp/servers/' + encodeURIComponent(name), {
+    method: 'PUT',
+    body: JSON.stringify({ config }),
+  });
+}
+
+export function deleteMcpServer(name: string): Promise<{ data: { deleted: boolean } }> {
+  return request('/mcp/servers/' + encodeURIComponent(name), { method: 'DELETE' });
+}
+
+export function reconnectMcpServer(name: string): Promise<{ data: McpServerType }> {
+  return request('/mcp/servers/' + encodeURIComponent(name) + '/reconnect', { method: 'POST' });
+}
+
+export function setMcpServerEnabled(
+  name: string,
+  enabled: boolean,
+): Promise<{ data: McpServerType }> {
+  const action = enabled ? 'enable' : 'disable';
+  return request('/mcp/servers/' + encodeURIComponent(name) + '/' + action, { method: 'POST' });
+}
+
+export type McpResourceRefType =
+  | { serverName: string; uri: string }
+  | { serverName: string; uriTemplate: string; params: Record<string, string> };
+
+export type McpServerResourcesType = {
+  serverName: string;
+  resources: Array<{ uri: string; name?: string; description?: string; mimeType?: string }>;
+  resourceTemplates: Array<{
+    uriTemplate: string;
+    name?: string;
+    description?: string;
+    mimeType?: string;
+  }>;
+};
+
+export function loadMcpResources(): Promise<{ data: McpServerResourcesType[] }> {
+  return request('/mcp/resources', { method: 'GET' });
+}
+
+export function readMcpResource(ref: McpResourceRefType): Promise<{
+  data: { serverName: string; uri: string; contents: McpResourceContentsType[] };
+}> {
+  return request('/mcp/resources/read', { method: 'POST', body: JSON.stringify(ref) });
+}
+
+export type McpPromptType = {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+};
+
+export type McpPromptInvocationType = {
+  serverName: string;
+  name: string;
+  arguments: Record<string, string>;
+};
+
+export function loadMcpPrompts(): Promise<{
+  data: Array<{ serverName: string; prompts: McpPromptType[] }>;
+}> {
+  return request('/mcp/prompts', { method: 'GET' });
+}
+
+export type McpToolType = {
+  // Fully qualified, `server/tool`, using the server's alias if it has one.
+  id: string;
+  serverName: string;
+  name: string;
+  description?: string;
+  // JSON Schema for the tool's arguments.
+  inputSchema: Record<string, unknown>;
+};
+
+export function loadMcpTools(): Promise<{ data: McpToolType[] }> {
+  return request('/mcp/tools', { method: 'GET' });
+}
+
+export type McpToolCallStatusType = 'completed' | 'failed' | 'cancelled';
+
+export type McpToolCallAuditEntryType = {
+  id: number;
+  callId: string;
+  serverName: string;
+  toolName: string;
+  // Sensitive fields are redacted by the API.
+  args: Record<string, unknown>;
+  status: McpToolCallStatusType;
+  // Answered from the result cache without reaching the server.
+  cached: boolean;
+  resultSummary: string | null;
+  error: string | null;
+  durationMs: number;
+  appId: string | null;
+  planId: string | null;
+  source: string | null;
+  startedAt: string;
+};
+
+export type McpToolCallAuditQueryType = {
+  serverName?: string;
+  toolName?: string;
+  status?: McpToolCallStatusType;
+  appId?: string;
+  planId?: string;
+  since?: number;
+  until?: number;
+  limit?: number;
+  offset?: number;
+};
+
+export function loadMcpToolCalls(query: McpToolCallAuditQueryType = {}): Promise<{
+  data: McpToolCallAuditEntryType[];
+  total: number;
+  limit: number;
+  offset: number;
+}> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  }
+  return request('/mcp/tool-calls?' + params.toString(), { method: 'GET' });
+}
@@ -41,6 +41,37 @@ import {
   DepsStatusResponsePayloadSchema,
   DepsStatusPayloadSchema,
   PreviewLogPayloadSchema,
+  McpServersListPayloadSchema,
+  McpServersListResponsePayloadSchema,
+  McpServerNamePayloadSchema,
+  McpServerStatusResponsePayloadSchema,
+  McpServerErrorPayloadSchema,
+  McpResourceSubscribePayloadSchema,
+  McpResourceSubscribedPayloadSchema,
+  McpResourceUpdatedPayloadSchema,
+  McpResourceErrorPayloadSchema,
+  McpSamplingRequestPayloadSchema,
+  McpSamplingRespondPayloadSchema,
+  McpSamplingResolvedPayloadSchema,
+  McpElicitationRequestPayloadSchema,
+  McpElicitationRespondPayloadSchema,
+  McpElicitationResolvedPayloadSchema,
+  McpToolCallStartedPayloadSchema,
+  McpToolCallProgressPayloadSchema,
+  McpToolCallFinishedPayloadSchema,
+  McpToolCallCancelPayloadSchema,
+  McpToolCallQueuedPayloadSchema,
+  McpToolExecutePayloadSchema,
+  McpToolExecuteResultPayloadSchema,
+  McpToolExecuteErrorPayloadSchema,
+  McpServerLogsHistoryPayloadSchema,
+  McpServerLogEntryPayloadSchema,
+  McpServerLogLevelPayloadSchema,
+  McpServerLogErrorPayloadSchema,
+  McpServerLogsClearPayloadSchema,
+  McpCompletionRequestPayloadSchema,
+  McpCompletionResultPayloadSchema,
+  McpCompletionErrorPayloadSchema,
 } from '@srcbook/shared';
 import Channel from '@/clients/websocket/channel';
 import WebSocketClient from '@/clients/websocket/client';
@@ -100,6 +131,7 @@ export class SessionChannel extends Channel<
 const IncomingAppEvents = {
   file: FilePayloadSchema,
   'file:updated': FileUpdatedPayloadSchema,
+  'file:renamed': FileRenamedPayloadSchema,
   'preview:status': PreviewStatusPayloadSchema,
   'preview:log': PreviewLogPayloadSchema,
   'deps:install:log': DepsInstallLogPayloadSchema,
@@ -134,3 +166,186 @@ export class AppChannel extends Channel<typeof IncomingAppEvents, typeof Outgoin
     this.appId = appId;
   }
 }
+
+const IncomingMcpServersEvents = {
+  'servers:list:response': McpServersListResponsePayloadSchema,
+  'servers:list:error': McpServerErrorPayloadSchema,
+  'server:status:response': McpServerStatusResponsePayloadSchema,
+  'server:status:error': McpServerErrorPayloadSchema,
+  'server:status:changed': McpServerStatusResponsePayloadSchema,
+  'server:reconnect:success': McpServerNamePayloadSchema,
+  'server:removed': McpServerNamePayloadSchema,
+  'server:error': McpServerErrorPayloadSchema,
+};
+
+const OutgoingMcpServersEvents = {
+  'servers:list': McpServersListPayloadSchema,
+  'server:status': McpServerNamePayloadSchema,
+  'server:reconnect': McpServerNamePayloadSchema,
+};
+
+export class McpServersChannel extends Channel<
+  typeof IncomingMcpServersEvents,
+  typeof OutgoingMcpServersEvents
+> {
+  static create() {
+    return new McpServersChannel(client, 'mcp:servers', {
+      incoming: IncomingMcpServersEvents,
+      outgoing: OutgoingMcpServersEvents,
+    });
+  }
+}
+
+const IncomingMcpResourcesEvents = {
+  'resource:subscribed': McpResourceSubscribedPayloadSchema,
+  'resource:updated': McpResourceUpdatedPayloadSchema,
+  'resource:error': McpResourceErrorPayloadSchema,
+};
+
+const OutgoingMcpResourcesEvents = {
+  'resource:subscribe': McpResourceSubscribePayloadSchema,
+  'resource:unsubscribe': McpResourceSubscribePayloadSchema,
+};
+
+export class McpResourcesChannel extends Channel<
+  typeof IncomingMcpResourcesEvents,
+  typeof OutgoingMcpResourcesEvents
+> {
+  static create() {
+    return new McpResourcesChannel(client, 'mcp:resources', {
+      incoming: IncomingMcpResourcesEvents,
+      outgoing: OutgoingMcpResourcesEvents,
+    });
+  }
+}
+
+const IncomingMcpSamplingEvents = {
+  'sampling:request': McpSamplingRequestPayloadSchema,
+  'sampling:resolved': McpSamplingResolvedPayloadSchema,
+};
+
+const OutgoingMcpSamplingEvents = {
+  'sampling:respond': McpSamplingRespondPayloadSchema,
+};
+
+export class McpSamplingChannel extends Channel<
+  typeof IncomingMcpSamplingEvents,
+  typeof OutgoingMcpSamplingEvents
+> {
+  static create() {
+    return new McpSamplingChannel(client, 'mcp:sampling', {
+      incoming: IncomingMcpSamplingEvents,
+      outgoing: OutgoingMcpSamplingEvents,
+    });
+  }
+}
+
+const IncomingMcpElicitationEvents = {
+  'elicitation:request': McpElicitationRequestPayloadSchema,
+  'elicitation:resolved': McpElicitationResolvedPayloadSchema,
+};
+
+const OutgoingMcpElicitationEvents = {
+  'elicitation:respond': McpElicitationRespondPayloadSchema,
+};
+
+export class McpElicitationChannel extends Channel<
+  typeof IncomingMcpElicitationEvents,
+  typeof OutgoingMcpElicitationEvents
+> {
+  static create() {
+    return new McpElicitationChannel(client, 'mcp:elicitation', {
+      incoming: IncomingMcpElicitationEvents,
+      outgoing: OutgoingMcpElicitationEvents,
+    });
+  }
+}
+
+const IncomingMcpToolCallsEvents = {
+  'call:started': McpToolCallStartedPayloadSchema,
+  'call:progress': McpToolCallProgressPayloadSchema,
+  'call:queued': McpToolCallQueuedPayloadSchema,
+  'call:finished': McpToolCallFinishedPayloadSchema,
+};
+
+const OutgoingMcpToolCallsEvents = {
+  'call:cancel': McpToolCallCancelPayloadSchema,
+};
+
+export class McpToolCallsChannel extends Channel<
+  typeof IncomingMcpToolCallsEvents,
+  typeof OutgoingMcpToolCallsEvents
+> {
+  static create() {
+    return new McpToolCallsChannel(client, 'mcp:calls', {
+      incoming: IncomingMcpToolCallsEvents,
+      outgoing: OutgoingMcpToolCallsEvents,
+    });
+  }
+}
+
+const IncomingMcpToolEvents = {
+  'tool:result': McpToolExecuteResultPayloadSchema,
+  'tool:error': McpToolExecuteErrorPayloadSchema,
+};
+
+const OutgoingMcpToolEvents = {
+  'tool:execute': McpToolExecutePayloadSchema,
+};
+
+export class McpToolChannel extends Channel<
+  typeof IncomingMcpToolEvents,
+  typeof OutgoingMcpToolEvents
+> {
+  static create(toolId: string) {
+    return new McpToolChannel(client, `tool:${toolId}`, {
+      incoming: IncomingMcpToolEvents,
+      outgoing: OutgoingMcpToolEvents,
+    });
+  }
+}
+
+const IncomingMcpServerLogsEvents = {
+  'logs:history': McpServerLogsHistoryPayloadSchema,
+  'logs:entry': McpServerLogEntryPayloadSchema,
+  'logs:level': McpServerLogLevelPayloadSchema,
+  'logs:error': McpServerLogErrorPayloadSchema,
+};
+
+const OutgoingMcpServerLogsEvents = {
+  'logs:level': McpServerLogLevelPayloadSchema,
+  'logs:clear': McpServerLogsClearPayloadSchema,
+};
+
+export class McpServerLogsChannel extends Channel<
+  typeof IncomingMcpServerLogsEvents,
+  typeof OutgoingMcpServerLogsEvents
+> {
+  static create(serverName: string) {
+    return new McpServerLogsChannel(client, `mcp:logs:${serverName}`, {
+      incoming: IncomingMcpServerLogsEvents,
+      outgoing: OutgoingMcpServerLogsEvents,
+    });
+  }
+}
+
+const IncomingMcpCompletionsEvents = {
+  'completion:result': McpCompletionResultPayloadSchema,
+  'completion:error': McpCompletionErrorPayloadSchema,
+};
+
+const OutgoingMcpCompletionsEvents = {
+  'completion:request': McpCompletionRequestPayloadSchema,
+};
+
+export class McpCompletionsChannel extends Channel<
+  typeof IncomingMcpCompletionsEvents,
+  typeof OutgoingMcpCompletionsEvents
+> {
+  static create() {
+    return new McpCompletionsChannel(client, 'mcp:completions', {
+      incoming: IncomingMcpCompletionsEvents,
+      outgoing: OutgoingMcpCompletionsEvents,
+    });
+  }
+}
@@ -13,6 +13,7 @@ import type {
   DirEntryType,
   FileEntryType,
   FileUpdatedPayloadType,
+  FileRenamedPayloadType,
 } from '@srcbook/shared';
 import { AppChannel } from '@/clients/websocket';
 import {
@@ -101,10 +102,34 @@ export function FilesProvider({
       setOpenedFile(() => payload.file);
       forceComponentRerender();
     }
+    // Renames this tab made itself have already been applied, so find nothing to rename.
+    function onFileRenamed({ oldPath, newPath }: FileRenamedPayloadType) {
+      const slash = newPath.lastIndexOf('/');
+      const newEntry: FileEntryType = {
+        type: 'file',
+        path: newPath,
+        dirname: slash === -1 ? '.' : newPath.slice(0, slash),
+        basename: newPath.slice(slash + 1),
+      };
+      setOpenedFile((openedFile) => {
+        if (openedFile && openedFile.path === oldPath) {
+          return { ...openedFile, path: newEntry.path, name: newEntry.basename };
+        }
+        return openedFile;
+      });
+      fileTreeRef.current = updateFileNode(
+        fileTreeRef.current,
+        { ...newEntry, path: oldPath },
+        newEntry,
+      );
+      forceComponentRerender();
+    }
     channel.on('file:updated', onFileUpdated);
+    channel.on('file:renamed', onFileRenamed);
 
     return () => {
       channel.off('file:updated', onFileUpdated);
+      channel.off('file:renamed', onFileRenamed);
     };
   }, [channel, setOpenedFile]);
 
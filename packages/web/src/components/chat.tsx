@@ -5,10 +5,6 @@ import {
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
-  Tooltip,
-  TooltipContent,
-  TooltipProvider,
-  TooltipTrigger,
 } from '@srcbook/components';
 import Markdown from './apps/markdown.js';
 import { diffFiles } from './apps/lib/diff.js';
@@ -16,7 +12,6 @@ import TextareaAutosize from 'react-textarea-autosize';
 import {
   ArrowUp,
   Minus,
-  Paperclip,
   LoaderCircle,
   History,
   PanelTopOpen,
@@ -55,6 +50,18 @@ import { usePackageJson } from './apps/use-package-json.js';
 import { AiFeedbackModal } from './apps/AiFeedbackModal';
 import { useVersion } from './apps/use-version.js';
 import { Link } from 'react-router-dom';
+import { PinnedResources, ResourcePicker } from './mcp/resource-picker';
+import {
+  describePromptInvocation,
+  matchPromptCommands,
+  PromptArgumentsForm,
+  PromptCommandMenu,
+  slashCommandFilter,
+  usePromptCommands,
+  type PromptCommandType,
+} from './mcp/prompt-commands';
+import { ActiveToolCalls } from './mcp/tool-calls';
+import type { McpPromptInvocationType, McpResourceRefType } from '@/clients/http/mcp';
 
 function Chat({
   history,
@@ -196,22 +203,51 @@ function Query({
   isVisible,
   setVisible,
 }: {
-  onSubmit: (query: string) => Promise<void>;
+  onSubmit: (
+    query: string,
+    resources: McpResourceRefType[],
+    prompt?: McpPromptInvocationType,
+  ) => Promise<void>;
   onFocus: () => void;
   isLoading: boolean;
   isVisible: boolean;
   setVisible: (visible: boolean) => void;
 }) {
   const [query, setQuery] = React.useState('');
+  // Pinned resources stay attached to every request until they are unpinned.
+  const [resources, setResources] = React.useState<McpResourceRefType[]>([]);
+  // Typing `/` lists the prompts of connected MCP servers as commands.
+  const commands = usePromptCommands();
+  const [command, setCommand] = React.useState<PromptCommandType | null>(null);
+
+  const filter = slashCommandFilter(query);
+  const matches =
+    commands && commands.length > 0 && filter !== null
+      ? matchPromptCommands(commands, filter)
+      : null;
 
   const handleSubmit = () => {
     const value = query.trim();
     if (value) {
       setQuery('');
-      onSubmit(value);
+      onSubmit(value, resources);
     }
   };
 
+  const selectCommand = (selected: PromptCommandType) => {
+    setQuery('');
+    if (selected.arguments?.length) {
+      setCommand(selected);
+    } else {
+      runPrompt({ serverName: selected.serverName, name: selected.name, arguments: {} });
+    }
+  };
+
+  const runPrompt = (prompt: McpPromptInvocationType) => {
+    setCommand(null);
+    onSubmit(describePromptInvocation(prompt), resources, prompt);
+  };
+
   return (
     <div
       className={cn(
@@ -220,22 +256,39 @@ function Query({
         isLoading && 'hover:border-border',
       )}
     >
-      <TextareaAutosize
-        disabled={isLoading}
-        placeholder="What do you want to change?"
-        className="flex w-full rounded-sm bg-transparent px-2 mb-2 text-sm caret-ai-btn placeholder:text-muted-foreground focus-visible:outline-none resize-none"
-        maxRows={20}
-        onChange={(e) => setQuery(e.target.value)}
-        onFocus={onFocus}
-        value={query}
-        onKeyDown={(e) => {
-          if (e.metaKey && !e.shiftKey && e.key === 'Enter') {
-            e.preventDefault();
-            e.stopPropagation();
-            handleSubmit();
-          }
-        }}
+      <PinnedResources
+        resources={resources}
+        onUnpin={(index) => setResources((resources) => resources.filter((_, i) => i !== index))}
       />
+      {matches && <PromptCommandMenu commands={matches} onSelect={selectCommand} />}
+      {command ? (
+        <PromptArgumentsForm
+          command={command}
+          disabled={isLoading}
+          onRun={runPrompt}
+          onCancel={() => setCommand(null)}
+        />
+      ) : (
+        <TextareaAutosize
+          disabled={isLoading}
+          placeholder="What do you want to change?"
+          className="flex w-full rounded-sm bg-transparent px-2 mb-2 text-sm caret-ai-btn placeholder:text-muted-foreground focus-visible:outline-none resize-none"
+          maxRows={20}
+          onChange={(e) => setQuery(e.target.value)}
+          onFocus={onFocus}
+          value={query}
+          onKeyDown={(e) => {
+            if (matches?.length && (e.key === 'Tab' || e.key === 'Enter')) {
+              e.preventDefault();
+              selectCommand(matches[0]!);
+            } else if (e.metaKey && !e.shiftKey && e.key === 'Enter') {
+              e.preventDefault();
+              e.stopPropagation();
+              handleSubmit();
+            }
+          }}
+        />
+      )}
       <span className="flex items-center justify-end gap-1.5 mt-2">
         <Button variant="icon" className="h-7 w-7 p-1.5 border-none text-tertiary-foreground">
           {isVisible ? (
@@ -244,16 +297,10 @@ function Query({
             <History size={18} onClick={() => setVisible(true)} />
           )}
         </Button>
-        <TooltipProvider delayDuration={200}>
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button variant="icon" className="h-7 w-7 p-1.5 border-none text-tertiary-foreground">
-                <Paperclip size={18} />
-              </Button>
-            </TooltipTrigger>
-            <TooltipContent>Coming soon!</TooltipContent>
-          </Tooltip>
-        </TooltipProvider>
+        <ResourcePicker
+          disabled={isLoading}
+          onPin={(ref) => setResources((resources) => [...resources, ref])}
+        />
         <Button
           variant="ai"
           className={'h-7 w-7 p-1.5 foxus:outline-none border-none'}
@@ -511,7 +558,11 @@ export function ChatPanel(props: PropsType): React.JSX.Element {
       });
   }, [app]);
 
-  const handleSubmit = async (query: string) => {
+  const handleSubmit = async (
+    query: string,
+    resources: McpResourceRefType[],
+    prompt?: McpPromptInvocationType,
+  ) => {
     const planId = randomid();
     setLoading('description');
     setFileDiffs([]);
@@ -520,7 +571,7 @@ export function ChatPanel(props: PropsType): React.JSX.Element {
     appendToHistory(app.id, userMessage);
     setVisible(true);
 
-    const iterable = await aiEditApp(app.id, query, planId);
+    const iterable = await aiEditApp(app.id, query, planId, resources, prompt);
 
     const fileUpdates: FileType[] = [];
 
@@ -649,6 +700,7 @@ export function ChatPanel(props: PropsType): React.JSX.Element {
             openDiffModal={openDiffModal}
           />
         )}
+        <ActiveToolCalls />
         <Query
           onSubmit={handleSubmit}
           isLoading={loading !== null}
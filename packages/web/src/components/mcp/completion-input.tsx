@@ -0,0 +1,121 @@
+import * as React from 'react';
+import { useDebounce } from 'use-debounce';
+import { randomid, type McpCompletionRefType } from '@srcbook/shared';
+import { Input } from '@srcbook/components';
+import { McpCompletionsChannel } from '@/clients/websocket';
+
+/**
+ * Values the MCP server suggests for an argument, given what has been typed
+ * so far. Only asks while enabled, and ignores answers to earlier keystrokes.
+ */
+export function useArgumentCompletions({
+  serverName,
+  completionRef,
+  argument,
+  value,
+  context = {},
+  enabled = true,
+}: {
+  serverName: string;
+  completionRef: McpCompletionRefType;
+  argument: string;
+  value: string;
+  context?: Record<string, string>;
+  enabled?: boolean;
+}) {
+  const [channel] = React.useState(() => McpCompletionsChannel.create());
+  const [values, setValues] = React.useState<string[]>([]);
+  const [debouncedValue] = useDebounce(value, 200);
+  const latestRequestId = React.useRef<string | null>(null);
+
+  React.useEffect(() => {
+    channel.subscribe();
+
+    const onResult = ({ requestId, values }: { requestId: string; values: string[] }) => {
+      if (requestId === latestRequestId.current) setValues(values);
+    };
+    const onError = ({ requestId }: { requestId: string }) => {
+      if (requestId === latestRequestId.current) setValues([]);
+    };
+
+    channel.on('completion:result', onResult);
+    channel.on('completion:error', onError);
+
+    return () => {
+      channel.off('completion:result', onResult);
+      channel.off('completion:error', onError);
+      channel.unsubscribe();
+    };
+  }, [channel]);
+
+  // Compared as JSON so callers can pass new but equal objects on every render.
+  const refKey = JSON.stringify(completionRef);
+  const contextKey = JSON.stringify(context);
+
+  React.useEffect(() => {
+    if (!enabled) return;
+    const requestId = randomid();
+    latestRequestId.current = requestId;
+    channel.push('completion:request', {
+      requestId,
+      serverName,
+      ref: JSON.parse(refKey),
+      argument: { name: argument, value: debouncedValue },
+      context: JSON.parse(contextKey),
+    });
+  }, [channel, enabled, serverName, refKey, argument, debouncedValue, contextKey]);
+
+  return values;
+}
+
+/**
+ * An input for an argument of an MCP prompt, resource template or tool, with
+ * the server's suggestions offered as the user types.
+ */
+export function CompletionInput({
+  serverName,
+  completionRef,
+  argument,
+  context,
+  ...props
+}: {
+  serverName: string;
+  completionRef: McpCompletionRefType;
+  argument: string;
+  context?: Record<string, string>;
+  value: string;
+} & Omit<React.ComponentProps<typeof Input>, 'value'>) {
+  const listId = React.useId();
+  const [focused, setFocused] = React.useState(false);
+  const values = useArgumentCompletions({
+    serverName,
+    completionRef,
+    argument,
+    value: props.value,
+    context,
+    enabled: focused,
+  });
+
+  return (
+    <>
+      <Input
+        {...props}
+        list={listId}
+        autoComplete="off"
+        onFocus={(e) => {
+          setFocused(true);
+          props.onFocus?.(e);
+        }}
+        onBlur={(e) => {
+          setFocused(false);
+          props.onBlur?.(e);
+        }}
+      />
+      <datalist id={listId}>
+        {values.map((value) => (
+          <option key={value} value={value} />
+        ))}
+      </datalist>
+    </>
+  );
+}
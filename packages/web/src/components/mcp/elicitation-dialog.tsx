@@ -0,0 +1,238 @@
+import * as React from 'react';
+import type {
+  McpElicitationFieldType,
+  McpElicitationRequestPayloadType,
+  McpElicitationRespondPayloadType,
+} from '@srcbook/shared';
+import { Button } from '@srcbook/components/src/components/ui/button';
+import { Input } from '@srcbook/components/src/components/ui/input';
+import { Switch } from '@srcbook/components/src/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@srcbook/components/src/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@srcbook/components/src/components/ui/dialog';
+import { McpElicitationChannel } from '@/clients/websocket';
+
+type FieldValue = string | boolean;
+
+const INPUT_TYPES: Record<string, string> = {
+  email: 'email',
+  uri: 'url',
+  date: 'date',
+  'date-time': 'datetime-local',
+};
+
+/**
+ * Asks the user for the input MCP servers request mid-call, as a form generated
+ * from the schema the server sent. Requests are shown one at a time in the
+ * order they arrive; closing the dialog cancels the request.
+ */
+export function ElicitationDialog() {
+  const [channel] = React.useState(() => McpElicitationChannel.create());
+  const [requests, setRequests] = React.useState<McpElicitationRequestPayloadType[]>([]);
+
+  React.useEffect(() => {
+    channel.subscribe();
+
+    const onRequest = (payload: McpElicitationRequestPayloadType) =>
+      setRequests((requests) =>
+        requests.some((r) => r.requestId === payload.requestId) ? requests : [...requests, payload],
+      );
+    // Answered in another tab, cancelled by the server, or timed out.
+    const onResolved = ({ requestId }: { requestId: string }) =>
+      setRequests((requests) => requests.filter((r) => r.requestId !== requestId));
+
+    channel.on('elicitation:request', onRequest);
+    channel.on('elicitation:resolved', onResolved);
+
+    return () => {
+      channel.off('elicitation:request', onRequest);
+      channel.off('elicitation:resolved', onResolved);
+      channel.unsubscribe();
+    };
+  }, [channel]);
+
+  const request = requests[0];
+
+  function respond(response: Omit<McpElicitationRespondPayloadType, 'requestId'>) {
+    if (!request) return;
+    channel.push('elicitation:respond', { requestId: request.requestId, ...response });
+    setRequests((requests) => requests.filter((r) => r.requestId !== request.requestId));
+  }
+
+  return (
+    <Dialog
+      open={!!request}
+      onOpenChange={(open) => {
+        if (!open) respond({ action: 'cancel' });
+      }}
+    >
+      {request && (
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>{request.serverName} needs your input</DialogTitle>
+            <DialogDescription className="whitespace-pre-wrap">{request.message}</DialogDescription>
+          </DialogHeader>
+
+          <ElicitationForm
+            // Start over with the defaults for every request.
+            key={request.requestId}
+            request={request}
+            onAccept={(content) => respond({ action: 'accept', content })}
+            onDecline={() => respond({ action: 'decline' })}
+          />
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+}
+
+function ElicitationForm({
+  request,
+  onAccept,
+  onDecline,
+}: {
+  request: McpElicitationRequestPayloadType;
+  onAccept: (content: Record<string, string | number | boolean>) => void;
+  onDecline: () => void;
+}) {
+  const { properties, required = [] } = request.requestedSchema;
+  const [values, setValues] = React.useState<Record<string, FieldValue>>(() =>
+    Object.fromEntries(
+      Object.entries(properties).map(([name, field]) => [
+        name,
+        field.type === 'boolean' ? field.default === true : String(field.default ?? ''),
+      ]),
+    ),
+  );
+  const isComplete = required.every((name) => values[name] !== '');
+
+  function accept() {
+    if (!isComplete) return;
+    const content: Record<string, string | number | boolean> = {};
+    for (const [name, field] of Object.entries(properties)) {
+      const value = values[name];
+      if (value === undefined || value === '') continue;
+      if (typeof value === 'boolean') {
+        content[name] = value;
+      } else if (field.type === 'number' || field.type === 'integer') {
+        content[name] = Number(value);
+      } else if (field.format === 'date-time') {
+        // The browser leaves out the time zone.
+        content[name] = new Date(value).toISOString();
+      } else {
+        content[name] = value;
+      }
+    }
+    onAccept(content);
+  }
+
+  return (
+    <form
+      className="space-y-4 text-sm"
+      onSubmit={(e) => {
+        e.preventDefault();
+        accept();
+      }}
+    >
+      <div className="max-h-96 overflow-y-auto space-y-3">
+        {Object.entries(properties).map(([name, field]) => (
+          <ElicitationField
+            key={name}
+            name={name}
+            field={field}
+            required={required.includes(name)}
+            value={values[name] ?? ''}
+            onChange={(value) => setValues({ ...values, [name]: value })}
+          />
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="secondary" onClick={onDecline}>
+          Decline
+        </Button>
+        <Button type="submit" disabled={!isComplete}>
+          Submit
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function ElicitationField({
+  name,
+  field,
+  required,
+  value,
+  onChange,
+}: {
+  name: string;
+  field: McpElicitationFieldType;
+  required: boolean;
+  value: FieldValue;
+  onChange: (value: FieldValue) => void;
+}) {
+  const id = `mcp-elicitation-${name}`;
+  const label = `${field.title ?? name}${required ? ' (required)' : ''}`;
+
+  if (field.type === 'boolean') {
+    return (
+      <div className="flex items-start gap-2">
+        <Switch id={id} checked={value === true} onCheckedChange={onChange} />
+        <div>
+          <label htmlFor={id}>{label}</label>
+          {field.description && (
+            <p className="text-xs text-tertiary-foreground">{field.description}</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <label htmlFor={id} className="font-medium">
+        {label}
+      </label>
+      {field.enum ? (
+        <Select value={String(value)} onValueChange={onChange}>
+          <SelectTrigger id={id}>
+            <SelectValue placeholder="Choose…" />
+          </SelectTrigger>
+          <SelectContent>
+            {field.enum.map((option, index) => (
+              <SelectItem key={option} value={option}>
+                {field.enumNames?.[index] ?? option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <Input
+          id={id}
+          type={field.type === 'string' ? (INPUT_TYPES[field.format ?? ''] ?? 'text') : 'number'}
+          step={field.type === 'integer' ? 1 : field.type === 'number' ? 'any' : undefined}
+          min={field.minimum}
+          max={field.maximum}
+          minLength={field.minLength}
+          maxLength={field.maxLength}
+          required={required}
+          value={String(value)}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      )}
+      {field.description && <p className="text-xs text-tertiary-foreground">{field.description}</p>}
+    </div>
+  );
+}
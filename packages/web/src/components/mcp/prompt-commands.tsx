@@ -0,0 +1,181 @@
+import * as React from 'react';
+import type { McpServerStatusPayloadType } from '@srcbook/shared';
+import { Button } from '@srcbook/components';
+import {
+  loadMcpPrompts,
+  type McpPromptInvocationType,
+  type McpPromptType,
+} from '@/clients/http/mcp';
+import { McpServersChannel } from '@/clients/websocket';
+import { CompletionInput } from './completion-input';
+
+export type PromptCommandType = McpPromptType & { serverName: string };
+
+/**
+ * Loads the prompts of every connected MCP server, flattened into a list of
+ * slash commands. Returns null while loading.
+ */
+export function usePromptCommands() {
+  const [commands, setCommands] = React.useState<PromptCommandType[] | null>(null);
+
+  React.useEffect(() => {
+    loadMcpPrompts()
+      .then(({ data }) =>
+        setCommands(
+          data.flatMap(({ serverName, prompts }) =>
+            prompts.map((prompt) => ({ ...prompt, serverName })),
+          ),
+        ),
+      )
+      .catch((error) => {
+        console.error('Error loading MCP prompts:', error);
+        setCommands([]);
+      });
+
+    // Servers can add or remove prompts while connected, and the status they
+    // broadcast carries their current prompts.
+    const channel = McpServersChannel.create();
+    channel.subscribe();
+
+    function replaceServer(serverName: string, prompts: McpPromptType[]) {
+      setCommands((commands) => [
+        ...(commands ?? []).filter((command) => command.serverName !== serverName),
+        ...prompts.map((prompt) => ({ ...prompt, serverName })),
+      ]);
+    }
+
+    const onChanged = ({ status }: { status: McpServerStatusPayloadType }) =>
+      replaceServer(status.name, status.prompts ?? []);
+    const onRemoved = ({ name }: { name: string }) => replaceServer(name, []);
+
+    channel.on('server:status:changed', onChanged);
+    channel.on('server:removed', onRemoved);
+
+    return () => {
+      channel.off('server:status:changed', onChanged);
+      channel.off('server:removed', onRemoved);
+      channel.unsubscribe();
+    };
+  }, []);
+
+  return commands;
+}
+
+// The text typed after `/`, or null if the query isn't a slash command.
+export function slashCommandFilter(query: string) {
+  const match = query.match(/^\/(\S*)$/);
+  return match ? match[1]!.toLowerCase() : null;
+}
+
+export function matchPromptCommands(commands: PromptCommandType[], filter: string) {
+  return commands.filter((command) => command.name.toLowerCase().startsWith(filter));
+}
+
+// How an invocation is shown in the chat history, e.g. `/add-page page=pricing`.
+export function describePromptInvocation(invocation: McpPromptInvocationType) {
+  const args = Object.entries(invocation.arguments)
+    .filter(([, value]) => value !== '')
+    .map(([name, value]) => `${name}=${value}`);
+  return ['/' + invocation.name, ...args].join(' ');
+}
+
+export function PromptCommandMenu({
+  commands,
+  onSelect,
+}: {
+  commands: PromptCommandType[];
+  onSelect: (command: PromptCommandType) => void;
+}) {
+  if (commands.length === 0) {
+    return <p className="px-2 pb-2 text-xs text-tertiary-foreground">No matching MCP prompts.</p>;
+  }
+
+  return (
+    <div className="max-h-60 overflow-y-auto pb-2 text-sm">
+      {commands.map((command) => (
+        <button
+          key={`${command.serverName}/${command.name}`}
+          className="w-full text-left rounded-sm px-2 py-1 hover:bg-muted"
+          onClick={() => onSelect(command)}
+        >
+          <span className="flex items-baseline justify-between gap-2">
+            <span className="truncate font-mono">/{command.name}</span>
+            <span className="shrink-0 text-xs text-tertiary-foreground">{command.serverName}</span>
+          </span>
+          {(command.title || command.description) && (
+            <span className="block truncate text-xs text-tertiary-foreground">
+              {command.title ?? command.description}
+            </span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function PromptArgumentsForm({
+  command,
+  disabled,
+  onRun,
+  onCancel,
+}: {
+  command: PromptCommandType;
+  disabled?: boolean;
+  onRun: (invocation: McpPromptInvocationType) => void;
+  onCancel: () => void;
+}) {
+  const [values, setValues] = React.useState<Record<string, string>>({});
+  const args = command.arguments ?? [];
+  const isComplete = args.every((arg) => !arg.required || values[arg.name]?.trim());
+
+  function run() {
+    if (!isComplete) return;
+    const trimmed = Object.fromEntries(
+      Object.entries(values)
+        .map(([name, value]) => [name, value.trim()])
+        .filter(([, value]) => value !== ''),
+    );
+    onRun({ serverName: command.serverName, name: command.name, arguments: trimmed });
+  }
+
+  return (
+    <form
+      className="space-y-2 px-2 pb-2 text-sm"
+      onSubmit={(e) => {
+        e.preventDefault();
+        run();
+      }}
+    >
+      <div>
+        <p className="font-mono">/{command.name}</p>
+        <p className="text-xs text-tertiary-foreground">
+          {command.description
+            ? `${command.description} (${command.serverName})`
+            : command.serverName}
+        </p>
+      </div>
+      {args.map((arg) => (
+        <CompletionInput
+          key={arg.name}
+          serverName={command.serverName}
+          completionRef={{ type: 'ref/prompt', name: command.name }}
+          argument={arg.name}
+          context={values}
+          disabled={disabled}
+          placeholder={arg.required ? `${arg.name} (required)` : arg.name}
+          title={arg.description}
+          value={values[arg.name] ?? ''}
+          onChange={(e) => setValues({ ...values, [arg.name]: e.target.value })}
+        />
+      ))}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="secondary" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={disabled || !isComplete}>
+          Run
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,277 @@
+import * as React from 'react';
+import { Paperclip, X } from 'lucide-react';
+import {
+  Button,
+  cn,
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@srcbook/components';
+import {
+  loadMcpResources,
+  type McpResourceRefType,
+  type McpServerResourcesType,
+} from '@/clients/http/mcp';
+import {
+  resourceRefKey,
+  useResourceContents,
+  type ResourceStateType,
+} from './use-resource-contents';
+import { CompletionInput } from './completion-input';
+
+type TemplateType = McpServerResourcesType['resourceTemplates'][number] & { serverName: string };
+
+// Variable names in an RFC 6570 template, e.g. `{owner}` and `{/path*}`.
+function templateVariables(uriTemplate: string): string[] {
+  const names: string[] = [];
+  for (const match of uriTemplate.matchAll(/\{[+#./;?&]?([^}]+)\}/g)) {
+    for (const part of match[1]!.split(',')) {
+      const name = part.replace(/(\*|:\d+)$/, '').trim();
+      if (name && !names.includes(name)) names.push(name);
+    }
+  }
+  return names;
+}
+
+export function describeResourceRef(ref: McpResourceRefType) {
+  if ('uri' in ref) {
+    return ref.uri;
+  }
+  return ref.uriTemplate.replace(/\{[+#./;?&]?([^}]+)\}/g, (_match, names: string) =>
+    names
+      .split(',')
+      .map((name) => ref.params[name.replace(/(\*|:\d+)$/, '').trim()] ?? '')
+      .join(','),
+  );
+}
+
+export function ResourcePicker({
+  onPin,
+  disabled,
+}: {
+  onPin: (ref: McpResourceRefType) => void;
+  disabled?: boolean;
+}) {
+  const [open, setOpen] = React.useState(false);
+  const [servers, setServers] = React.useState<McpServerResourcesType[] | null>(null);
+  const [template, setTemplate] = React.useState<TemplateType | null>(null);
+  const [params, setParams] = React.useState<Record<string, string>>({});
+
+  React.useEffect(() => {
+    if (!open) return;
+    setTemplate(null);
+    loadMcpResources()
+      .then(({ data }) => setServers(data))
+      .catch((error) => {
+        console.error('Error loading MCP resources:', error);
+        setServers([]);
+      });
+  }, [open]);
+
+  function pin(ref: McpResourceRefType) {
+    onPin(ref);
+    setOpen(false);
+  }
+
+  const isEmpty =
+    servers !== null &&
+    servers.every((s) => s.resources.length === 0 && s.resourceTemplates.length === 0);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <TooltipProvider delayDuration={200}>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <PopoverTrigger asChild>
+              <Button
+                variant="icon"
+                className="h-7 w-7 p-1.5 border-none text-tertiary-foreground"
+                disabled={disabled}
+              >
+                <Paperclip size={18} />
+              </Button>
+            </PopoverTrigger>
+          </TooltipTrigger>
+          <TooltipContent>Pin MCP resources as context</TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+      <PopoverContent className="w-80 p-2 max-h-96 overflow-y-auto text-sm" align="end">
+        {template ? (
+          <div className="space-y-2 p-1">
+            <p className="font-medium">{template.name ?? template.uriTemplate}</p>
+            <p className="text-xs text-tertiary-foreground font-mono break-all">
+              {template.uriTemplate}
+            </p>
+            {templateVariables(template.uriTemplate).map((name) => (
+              <CompletionInput
+                key={name}
+                serverName={template.serverName}
+                completionRef={{ type: 'ref/resource', uri: template.uriTemplate }}
+                argument={name}
+                context={params}
+                placeholder={name}
+                value={params[name] ?? ''}
+                onChange={(e) => setParams({ ...params, [name]: e.target.value })}
+              />
+            ))}
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" onClick={() => setTemplate(null)}>
+                Back
+              </Button>
+              <Button
+                onClick={() =>
+                  pin({
+                    serverName: template.serverName,
+                    uriTemplate: template.uriTemplate,
+                    params,
+                  })
+                }
+              >
+                Pin
+              </Button>
+            </div>
+          </div>
+        ) : servers === null ? (
+          <p className="p-1 text-tertiary-foreground">Loading resources...</p>
+        ) : isEmpty ? (
+          <p className="p-1 text-tertiary-foreground">No MCP resources available.</p>
+        ) : (
+          servers.map((server) => (
+            <div key={server.serverName} className="pb-2">
+              <p className="px-1 py-1 text-xs font-medium text-tertiary-foreground">
+                {server.serverName}
+              </p>
+              {server.resources.map((resource) => (
+                <button
+                  key={resource.uri}
+                  className="w-full text-left rounded-sm px-2 py-1 hover:bg-muted"
+                  onClick={() => pin({ serverName: server.serverName, uri: resource.uri })}
+                  title={resource.description}
+                >
+                  <span className="block truncate">{resource.name ?? resource.uri}</span>
+                  <span className="block truncate text-xs text-tertiary-foreground font-mono">
+                    {resource.uri}
+                  </span>
+                </button>
+              ))}
+              {server.resourceTemplates.map((resourceTemplate) => (
+                <button
+                  key={resourceTemplate.uriTemplate}
+                  className="w-full text-left rounded-sm px-2 py-1 hover:bg-muted"
+                  onClick={() => {
+                    setParams({});
+                    setTemplate({ ...resourceTemplate, serverName: server.serverName });
+                  }}
+                  title={resourceTemplate.description}
+                >
+                  <span className="block truncate">
+                    {resourceTemplate.name ?? resourceTemplate.uriTemplate}
+                  </span>
+                  <span className="block truncate text-xs text-tertiary-foreground font-mono">
+                    {resourceTemplate.uriTemplate}
+                  </span>
+                </button>
+              ))}
+            </div>
+          ))
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export function PinnedResources({
+  resources,
+  onUnpin,
+}: {
+  resources: McpResourceRefType[];
+  onUnpin: (index: number) => void;
+}) {
+  // Subscribing keeps the previews current while the resources are pinned.
+  const state = useResourceContents(resources);
+
+  if (resources.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1 px-2 mb-2">
+      {resources.map((ref, index) => {
+        const resource = state[resourceRefKey(ref)];
+        const label = resource?.uri ?? describeResourceRef(ref);
+
+        return (
+          <Popover key={index}>
+            <span
+              className={cn(
+                'flex items-center gap-1 max-w-full rounded-sm bg-muted px-1.5 py-0.5 text-xs',
+                resource?.error && 'text-sb-red-80',
+              )}
+            >
+              <PopoverTrigger asChild>
+                <button className="flex items-center gap-1 min-w-0" title={ref.serverName}>
+                  {resource?.live && (
+                    <span className="h-1.5 w-1.5 shrink-0 rounded-full bg-sb-green-80" />
+                  )}
+                  <span className="truncate font-mono">{label}</span>
+                </button>
+              </PopoverTrigger>
+              <button
+                className="text-tertiary-foreground hover:text-foreground"
+                onClick={() => onUnpin(index)}
+                aria-label="Unpin resource"
+              >
+                <X size={12} />
+              </button>
+            </span>
+            <PopoverContent className="w-96 p-2 text-xs" align="start">
+              <ResourcePreview label={label} serverName={ref.serverName} state={resource} />
+            </PopoverContent>
+          </Popover>
+        );
+      })}
+    </div>
+  );
+}
+
+function ResourcePreview({
+  label,
+  serverName,
+  state,
+}: {
+  label: string;
+  serverName: string;
+  state?: ResourceStateType;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2 text-tertiary-foreground">
+        <span className="truncate">
+          {serverName}: <span className="font-mono">{label}</span>
+        </span>
+        {state?.updatedAt && (
+          <span className="shrink-0">
+            {state.live ? 'Live, updated' : 'Read'} {new Date(state.updatedAt).toLocaleTimeString()}
+          </span>
+        )}
+      </div>
+      {state?.error ? (
+        <p className="text-sb-red-80">{state.error}</p>
+      ) : !state?.contents ? (
+        <p className="text-tertiary-foreground">Loading...</p>
+      ) : (
+        <pre className="max-h-72 overflow-auto whitespace-pre-wrap break-all rounded-sm bg-muted p-2">
+          {state.contents
+            .map((content) =>
+              content.text !== undefined
+                ? content.text
+                : `[binary content${content.mimeType ? `, ${content.mimeType}` : ''}]`,
+            )
+            .join('\n\n')}
+        </pre>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import * as React from 'react';
+import type { McpSamplingRequestPayloadType } from '@srcbook/shared';
+import { Button } from '@srcbook/components/src/components/ui/button';
+import { Switch } from '@srcbook/components/src/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@srcbook/components/src/components/ui/dialog';
+import { McpSamplingChannel } from '@/clients/websocket';
+
+/**
+ * Asks the user to approve MCP servers' requests to use the configured model.
+ * Requests are shown one at a time in the order they arrive.
+ */
+export function SamplingApprovalDialog() {
+  const [channel] = React.useState(() => McpSamplingChannel.create());
+  const [requests, setRequests] = React.useState<McpSamplingRequestPayloadType[]>([]);
+  const [alwaysAllow, setAlwaysAllow] = React.useState(false);
+
+  React.useEffect(() => {
+    channel.subscribe();
+
+    const onRequest = (payload: McpSamplingRequestPayloadType) =>
+      setRequests((requests) =>
+        requests.some((r) => r.requestId === payload.requestId) ? requests : [...requests, payload],
+      );
+    // Answered in another tab, cancelled by the server, or timed out.
+    const onResolved = ({ requestId }: { requestId: string }) =>
+      setRequests((requests) => requests.filter((r) => r.requestId !== requestId));
+
+    channel.on('sampling:request', onRequest);
+    channel.on('sampling:resolved', onResolved);
+
+    return () => {
+      channel.off('sampling:request', onRequest);
+      channel.off('sampling:resolved', onResolved);
+      channel.unsubscribe();
+    };
+  }, [channel]);
+
+  const request = requests[0];
+
+  function respond(approved: boolean) {
+    if (!request) return;
+    channel.push('sampling:respond', {
+      requestId: request.requestId,
+      approved,
+      alwaysAllow: approved && alwaysAllow,
+    });
+    setRequests((requests) => requests.filter((r) => r.requestId !== request.requestId));
+    setAlwaysAllow(false);
+  }
+
+  return (
+    <Dialog
+      open={!!request}
+      onOpenChange={(open) => {
+        if (!open) respond(false);
+      }}
+    >
+      {request && (
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>{request.serverName} wants to use your AI model</DialogTitle>
+            <DialogDescription>
+              The MCP server is asking for a response from {request.model} (up to{' '}
+              {request.maxTokens} tokens). The response is sent back to the server.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-80 overflow-y-auto space-y-2 text-sm">
+            {request.systemPrompt && <SamplingMessage label="System" text={request.systemPrompt} />}
+            {request.messages.map((message, index) => (
+              <SamplingMessage
+                key={index}
+                label={message.role === 'user' ? 'User' : 'Assistant'}
+                text={
+                  message.type === 'text'
+                    ? (message.text ?? '')
+                    : `[${message.type}${message.mimeType ? `, ${message.mimeType}` : ''}]`
+                }
+              />
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between gap-4 pt-2">
+            <div className="flex items-center gap-2 text-sm">
+              <Switch
+                id="mcp-sampling-always-allow"
+                checked={alwaysAllow}
+                onCheckedChange={setAlwaysAllow}
+              />
+              <label htmlFor="mcp-sampling-always-allow">Always allow {request.serverName}</label>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="secondary" onClick={() => respond(false)}>
+                Deny
+              </Button>
+              <Button onClick={() => respond(true)}>Allow</Button>
+            </div>
+          </div>
+        </DialogContent>
+      )}
+    </Dialog>
+  );
+}
+
+function SamplingMessage({ label, text }: { label: string; text: string }) {
+  return (
+    <div className="rounded-sm bg-muted px-3 py-2">
+      <p className="text-xs font-medium text-tertiary-foreground">{label}</p>
+      <p className="whitespace-pre-wrap break-words">{text}</p>
+    </div>
+  );
+}
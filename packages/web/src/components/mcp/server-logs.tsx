@@ -0,0 +1,142 @@
+import * as React from 'react';
+import { toast } from 'sonner';
+import type { McpLogLevelType, McpServerLogEntryType } from '@srcbook/shared';
+import { Button } from '@srcbook/components/src/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@srcbook/components/src/components/ui/select';
+import { McpServerLogsChannel } from '@/clients/websocket';
+
+const LOG_LEVELS: McpLogLevelType[] = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+];
+
+// Matches what the API keeps per server.
+const MAX_ENTRIES = 500;
+
+const LEVEL_CLASS_NAMES: Partial<Record<McpLogLevelType, string>> = {
+  debug: 'text-tertiary-foreground',
+  warning: 'text-sb-yellow-80',
+  error: 'text-sb-red-80',
+  critical: 'text-sb-red-80',
+  alert: 'text-sb-red-80',
+  emergency: 'text-sb-red-80',
+};
+
+/**
+ * Shows what a server wrote to stderr and the log messages it sent, newest at
+ * the bottom, and lets the user change the server's log level.
+ */
+export function ServerLogs({ serverName }: { serverName: string }) {
+  const [channel] = React.useState(() => McpServerLogsChannel.create(serverName));
+  const [entries, setEntries] = React.useState<McpServerLogEntryType[]>([]);
+  const [level, setLevel] = React.useState<McpLogLevelType | undefined>();
+  const [supportsLevel, setSupportsLevel] = React.useState(false);
+  const bottomRef = React.useRef<HTMLDivElement>(null);
+
+  React.useEffect(() => {
+    channel.subscribe();
+
+    const onHistory = (payload: {
+      entries: McpServerLogEntryType[];
+      level?: McpLogLevelType;
+      supportsLevel: boolean;
+    }) => {
+      setEntries(payload.entries);
+      setLevel(payload.level);
+      setSupportsLevel(payload.supportsLevel);
+    };
+    const onEntry = ({ entry }: { entry: McpServerLogEntryType }) =>
+      setEntries((entries) => [...entries, entry].slice(-MAX_ENTRIES));
+    const onLevel = ({ level }: { level: McpLogLevelType }) => setLevel(level);
+    const onError = ({ error }: { error: string }) => toast.error(error);
+
+    channel.on('logs:history', onHistory);
+    channel.on('logs:entry', onEntry);
+    channel.on('logs:level', onLevel);
+    channel.on('logs:error', onError);
+
+    return () => {
+      channel.off('logs:history', onHistory);
+      channel.off('logs:entry', onEntry);
+      channel.off('logs:level', onLevel);
+      channel.off('logs:error', onError);
+      channel.unsubscribe();
+    };
+  }, [channel]);
+
+  React.useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [entries]);
+
+  return (
+    <div className="border rounded-sm text-xs">
+      <div className="flex items-center justify-between gap-2 border-b px-2 py-1">
+        <span className="font-medium">Logs</span>
+        <div className="flex items-center gap-2">
+          {supportsLevel && (
+            <Select
+              value={level}
+              onValueChange={(level) =>
+                channel.push('logs:level', { level: level as McpLogLevelType })
+              }
+            >
+              <SelectTrigger className="h-7 w-32 text-xs">
+                <SelectValue placeholder="Log level" />
+              </SelectTrigger>
+              <SelectContent>
+                {LOG_LEVELS.map((level) => (
+                  <SelectItem key={level} value={level}>
+                    {level}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button
+            variant="secondary"
+            className="h-7"
+            disabled={entries.length === 0}
+            onClick={() => channel.push('logs:clear', {})}
+          >
+            Clear
+          </Button>
+        </div>
+      </div>
+      <div className="max-h-64 overflow-y-auto px-2 py-1 font-mono">
+        {entries.length === 0 && <p className="text-tertiary-foreground">No logs yet.</p>}
+        {entries.map((entry, i) => (
+          <LogLine key={i} entry={entry} />
+        ))}
+        <div ref={bottomRef} />
+      </div>
+    </div>
+  );
+}
+
+function LogLine({ entry }: { entry: McpServerLogEntryType }) {
+  const time = new Date(entry.timestamp).toLocaleTimeString();
+  const label = entry.source === 'stderr' ? 'stderr' : entry.level;
+  const className = entry.source === 'server' ? LEVEL_CLASS_NAMES[entry.level] : undefined;
+
+  return (
+    <p className={`whitespace-pre-wrap break-all ${className ?? ''}`}>
+      <span className="text-tertiary-foreground">{time}</span> [{label}]
+      {entry.source === 'server' && entry.logger && (
+        <span className="text-tertiary-foreground"> {entry.logger}:</span>
+      )}{' '}
+      {entry.message}
+    </p>
+  );
+}
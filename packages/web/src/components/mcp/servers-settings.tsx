@@ -0,0 +1,574 @@
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Loader2, Pencil, RotateCw, ScrollText, Trash2 } from 'lucide-react';
+import type { McpServerStatusPayloadType } from '@srcbook/shared';
+import { Button } from '@srcbook/components/src/components/ui/button';
+import { Input } from '@srcbook/components/src/components/ui/input';
+import { Switch } from '@srcbook/components/src/components/ui/switch';
+import { Textarea } from '@srcbook/components/src/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@srcbook/components/src/components/ui/select';
+import { McpServersChannel } from '@/clients/websocket';
+import { ServerLogs } from './server-logs';
+import {
+  createMcpServer,
+  deleteMcpServer,
+  loadMcpServers,
+  reconnectMcpServer,
+  setMcpServerEnabled,
+  updateMcpServer,
+  type McpServerConfigType,
+  type McpServerSettingsType,
+  type McpServerType,
+} from '@/clients/http/mcp';
+
+type TransportType = 'stdio' | 'http' | 'sse';
+
+type FormState = {
+  name: string;
+  transport: TransportType;
+  command: string;
+  args: string;
+  cwd: string;
+  // Names of variables to pass on from Srcbook's environment, space separated.
+  inheritEnv: string;
+  url: string;
+  // KEY=VALUE pairs, one per line. Env vars for stdio, headers for http/sse.
+  pairs: string;
+};
+
+const EMPTY_FORM: FormState = {
+  name: '',
+  transport: 'stdio',
+  command: '',
+  args: '',
+  cwd: '',
+  inheritEnv: '',
+  url: '',
+  pairs: '',
+};
+
+function toForm(server: McpServerType): FormState {
+  const { config } = server;
+
+  if ('url' in config) {
+    return {
+      ...EMPTY_FORM,
+      name: server.name,
+      transport: config.transport,
+      url: config.url,
+      pairs: formatPairs(config.headers),
+    };
+  }
+
+  return {
+    ...EMPTY_FORM,
+    name: server.name,
+    transport: 'stdio',
+    command: config.command,
+    args: (config.args ?? []).join('\n'),
+    cwd: config.cwd ?? '',
+    inheritEnv: (config.inheritEnv ?? []).join(' '),
+    pairs: formatPairs(config.env),
+  };
+}
+
+// Settings that aren't part of the form and are kept as-is when it is saved.
+function settingsOf(config?: McpServerConfigType): McpServerSettingsType {
+  if (!config) return {};
+  const {
+    disabled,
+    alias,
+    sampling,
+    connectTimeout,
+    maxConcurrentCalls,
+    maxQueuedCalls,
+    cacheTtl,
+    timeout,
+    retries,
+    retryDelay,
+    tools,
+  } = config;
+  return {
+    disabled,
+    alias,
+    sampling,
+    connectTimeout,
+    maxConcurrentCalls,
+    maxQueuedCalls,
+    cacheTtl,
+    timeout,
+    retries,
+    retryDelay,
+    tools,
+  };
+}
+
+function toConfig(form: FormState, existing?: McpServerConfigType): McpServerConfigType {
+  const pairs = parsePairs(form.pairs);
+  const settings = settingsOf(existing);
+
+  if (form.transport === 'stdio') {
+    const cwd = form.cwd.trim();
+    const inheritEnv = form.inheritEnv.split(/[\s,]+/).filter((name) => name !== '');
+    return {
+      command: form.command.trim(),
+      args: form.args
+        .split('\n')
+        .map((arg) => arg.trim())
+        .filter((arg) => arg !== ''),
+      env: pairs,
+      ...(cwd !== '' && { cwd }),
+      ...(inheritEnv.length > 0 && { inheritEnv }),
+      // Not part of the form either, but only stdio servers have it.
+      ...(existing && 'command' in existing && { nodePermissions: existing.nodePermissions }),
+      ...settings,
+    };
+  }
+
+  return { url: form.url.trim(), transport: form.transport, headers: pairs, ...settings };
+}
+
+function formatPairs(pairs?: Record<string, string>) {
+  return Object.entries(pairs ?? {})
+    .map(([key, value]) => `${key}=${value}`)
+    .join('\n');
+}
+
+function parsePairs(text: string): Record<string, string> {
+  const pairs: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const index = line.indexOf('=');
+    if (index <= 0) continue;
+    pairs[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+  }
+  return pairs;
+}
+
+function describeConfig(config: McpServerConfigType) {
+  if ('url' in config) {
+    return `${config.transport} ${config.url}`;
+  }
+  return [config.command, ...(config.args ?? [])].join(' ');
+}
+
+export default function McpServersSettings() {
+  const [servers, setServers] = useState<McpServerType[]>([]);
+  const [details, setDetails] = useState<Record<string, McpServerStatusPayloadType>>({});
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<FormState | null>(null);
+  const [pending, setPending] = useState<string | null>(null);
+  // Servers whose log panel is open.
+  const [showingLogs, setShowingLogs] = useState<Set<string>>(new Set());
+  // The servers as last rendered, for the channel handlers set up once below.
+  const serversRef = useRef(servers);
+
+  useEffect(() => {
+    serversRef.current = servers;
+  }, [servers]);
+
+  useEffect(() => {
+    loadMcpServers()
+      .then(({ data }) => setServers(data))
+      .catch((error) => {
+        console.error(error);
+        toast.error('Failed to load MCP servers');
+      });
+  }, []);
+
+  useEffect(() => {
+    const channel = McpServersChannel.create();
+    channel.subscribe();
+
+    function updateDetails(status: McpServerStatusPayloadType) {
+      setDetails((details) => ({ ...details, [status.name]: status }));
+      setServers((servers) =>
+        servers.map((server) =>
+          server.name === status.name
+            ? { ...server, status: status.status, error: status.error }
+            : server,
+        ),
+      );
+    }
+
+    const onList = ({ servers }: { servers: McpServerStatusPayloadType[] }) =>
+      servers.forEach(updateDetails);
+    const onChanged = ({ status }: { status: McpServerStatusPayloadType }) => {
+      updateDetails(status);
+      // A status change for a server we don't know about means it was added elsewhere.
+      if (!serversRef.current.some((server) => server.name === status.name)) {
+        loadMcpServers()
+          .then(({ data }) => setServers(data))
+          .catch((error) => console.error(error));
+      }
+    };
+    const onRemoved = ({ name }: { name: string }) => {
+      setServers((servers) => servers.filter((server) => server.name !== name));
+    };
+
+    channel.on('servers:list:response', onList);
+    channel.on('server:status:changed', onChanged);
+    channel.on('server:removed', onRemoved);
+    channel.push('servers:list', {});
+
+    return () => {
+      channel.off('servers:list:response', onList);
+      channel.off('server:status:changed', onChanged);
+      channel.off('server:removed', onRemoved);
+      channel.unsubscribe();
+    };
+  }, []);
+
+  function replaceServer(updated?: McpServerType) {
+    if (!updated) return;
+    setServers((servers) => {
+      const exists = servers.some((server) => server.name === updated.name);
+      return exists
+        ? servers.map((server) => (server.name === updated.name ? updated : server))
+        : [...servers, updated];
+    });
+  }
+
+  async function run(name: string, action: () => Promise<void>) {
+    setPending(name);
+    try {
+      await action();
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setPending(null);
+    }
+  }
+
+  function onSave() {
+    if (!form) return;
+
+    const existing = servers.find((server) => server.name === editing);
+    const config = toConfig(form, existing?.config);
+
+    run(form.name, async () => {
+      const { data } = editing
+        ? await updateMcpServer(editing, config)
+        : await createMcpServer({ name: form.name.trim(), config });
+      replaceServer(data);
+      setForm(null);
+      setEditing(null);
+      if (data?.error) {
+        toast.error(`Saved ${data.name}, but it failed to connect: ${data.error}`);
+      } else {
+        toast.success(`Saved ${data.name}`);
+      }
+    });
+  }
+
+  function onRemove(name: string) {
+    run(name, async () => {
+      await deleteMcpServer(name);
+      setServers((servers) => servers.filter((server) => server.name !== name));
+    });
+  }
+
+  function onReconnect(name: string) {
+    run(name, async () => {
+      const { data } = await reconnectMcpServer(name);
+      replaceServer(data);
+    });
+  }
+
+  function onToggle(name: string, enabled: boolean) {
+    run(name, async () => {
+      const { data } = await setMcpServerEnabled(name, enabled);
+      replaceServer(data);
+    });
+  }
+
+  function toggleLogs(name: string) {
+    setShowingLogs((showing) => {
+      const next = new Set(showing);
+      if (!next.delete(name)) {
+        next.add(name);
+      }
+      return next;
+    });
+  }
+
+  function onAlwaysAllowSampling(server: McpServerType, alwaysAllow: boolean) {
+    run(server.name, async () => {
+      const config = { ...server.config, sampling: { ...server.config.sampling, alwaysAllow } };
+      const { data } = await updateMcpServer(server.name, config);
+      replaceServer(data);
+    });
+  }
+
+  return (
+    <div className="space-y-4">
+      {servers.length === 0 && (
+        <p className="text-sm text-tertiary-foreground">No MCP servers configured.</p>
+      )}
+
+      {servers.map((server) => {
+        const detail = details[server.name];
+        const disabled = !!server.config.disabled;
+
+        return (
+          <div key={server.name} className="border rounded-sm px-4 py-3 space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-sm">{server.name}</span>
+                  <StatusBadge status={disabled ? 'disabled' : server.status} />
+                </div>
+                <p className="text-xs text-tertiary-foreground font-mono truncate">
+                  {describeConfig(server.config)}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {pending === server.name && <Loader2 size={16} className="animate-spin" />}
+                <Switch
+                  checked={!disabled}
+                  disabled={pending === server.name}
+                  onCheckedChange={(checked) => onToggle(server.name, checked)}
+                  aria-label={disabled ? `Enable ${server.name}` : `Disable ${server.name}`}
+                />
+                <Button
+                  variant="icon"
+                  size="icon"
+                  title="Reconnect"
+                  disabled={disabled || pending === server.name}
+                  onClick={() => onReconnect(server.name)}
+                >
+                  <RotateCw size={16} />
+                </Button>
+                <Button
+                  variant="icon"
+                  size="icon"
+                  title={showingLogs.has(server.name) ? 'Hide logs' : 'Show logs'}
+                  onClick={() => toggleLogs(server.name)}
+                >
+                  <ScrollText size={16} />
+                </Button>
+                <Button
+                  variant="icon"
+                  size="icon"
+                  title="Edit"
+                  onClick={() => {
+                    setEditing(server.name);
+                    setForm(toForm(server));
+                  }}
+                >
+                  <Pencil size={16} />
+                </Button>
+                <Button
+                  variant="icon"
+                  size="icon"
+                  title="Remove"
+                  disabled={pending === server.name}
+                  onClick={() => onRemove(server.name)}
+                >
+                  <Trash2 size={16} />
+                </Button>
+              </div>
+            </div>
+
+            {server.error && !disabled && (
+              <p className="text-xs text-sb-red-80 bg-sb-red-20 rounded-sm px-2 py-1">
+                {server.error}
+              </p>
+            )}
+
+            {detail && !disabled && server.status === 'connected' && (
+              <div className="text-xs text-tertiary-foreground space-y-1">
+                <CapabilityList label="Tools" items={(detail.tools ?? []).map((t) => t.name)} />
+                <CapabilityList
+                  label="Resources"
+                  items={(detail.resources ?? []).map((r) => r.name ?? r.uri)}
+                />
+                <CapabilityList
+                  label="Resource templates"
+                  items={(detail.resourceTemplates ?? []).map((r) => r.name ?? r.uriTemplate)}
+                />
+              </div>
+            )}
+
+            <div className="flex items-center gap-2 text-xs text-tertiary-foreground">
+              <Switch
+                id={`mcp-sampling-${server.name}`}
+                checked={!!server.config.sampling?.alwaysAllow}
+                disabled={pending === server.name}
+                onCheckedChange={(checked) => onAlwaysAllowSampling(server, checked)}
+              />
+              <label htmlFor={`mcp-sampling-${server.name}`}>
+                Allow sampling requests without asking
+              </label>
+            </div>
+
+            {showingLogs.has(server.name) && <ServerLogs serverName={server.name} />}
+
+            {editing === server.name && form && (
+              <ServerForm
+                form={form}
+                isNew={false}
+                onChange={setForm}
+                onCancel={() => {
+                  setEditing(null);
+                  setForm(null);
+                }}
+                onSave={onSave}
+              />
+            )}
+          </div>
+        );
+      })}
+
+      {form && editing === null ? (
+        <div className="border rounded-sm px-4 py-3">
+          <ServerForm
+            form={form}
+            isNew
+            onChange={setForm}
+            onCancel={() => setForm(null)}
+            onSave={onSave}
+          />
+        </div>
+      ) : (
+        <Button
+          variant="secondary"
+          onClick={() => {
+            setEditing(null);
+            setForm(EMPTY_FORM);
+          }}
+        >
+          Add server
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function StatusBadge({ status }: { status: McpServerType['status'] | 'disabled' }) {
+  const className = {
+    connected: 'bg-sb-green-20 text-sb-green-80',
+    connecting: 'bg-sb-yellow-20 text-sb-yellow-80',
+    disconnected: 'bg-sb-red-20 text-sb-red-80',
+    disabled: 'bg-muted text-tertiary-foreground',
+  }[status];
+
+  return <span className={`text-xs rounded-sm px-1.5 py-0.5 ${className}`}>{status}</span>;
+}
+
+function CapabilityList({ label, items }: { label: string; items: string[] }) {
+  if (items.length === 0) return null;
+  return (
+    <p>
+      <span className="font-medium">{label}:</span> {items.join(', ')}
+    </p>
+  );
+}
+
+function ServerForm(props: {
+  form: FormState;
+  isNew: boolean;
+  onChange: (form: FormState) => void;
+  onCancel: () => void;
+  onSave: () => void;
+}) {
+  const { form, isNew, onChange, onCancel, onSave } = props;
+
+  const update = (attrs: Partial<FormState>) => onChange({ ...form, ...attrs });
+  const isStdio = form.transport === 'stdio';
+  const valid =
+    form.name.trim() !== '' && (isStdio ? form.command.trim() !== '' : form.url.trim() !== '');
+
+  return (
+    <div className="space-y-3 pt-2">
+      <div className="flex gap-2">
+        <Input
+          placeholder="Server name"
+          value={form.name}
+          disabled={!isNew}
+          onChange={(e) => update({ name: e.target.value })}
+        />
+        <Select
+          value={form.transport}
+          onValueChange={(value) => update({ transport: value as TransportType })}
+        >
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="stdio">stdio</SelectItem>
+            <SelectItem value="http">Streamable HTTP</SelectItem>
+            <SelectItem value="sse">SSE</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isStdio ? (
+        <>
+          <Input
+            placeholder="Command, e.g. npx"
+            value={form.command}
+            onChange={(e) => update({ command: e.target.value })}
+          />
+          <Textarea
+            placeholder="Arguments, one per line"
+            value={form.args}
+            onChange={(e) => update({ args: e.target.value })}
+          />
+          <Input
+            placeholder="Working directory, an absolute path (optional)"
+            value={form.cwd}
+            onChange={(e) => update({ cwd: e.target.value })}
+          />
+        </>
+      ) : (
+        <Input
+          placeholder="URL, e.g. http://localhost:3001/mcp"
+          value={form.url}
+          onChange={(e) => update({ url: e.target.value })}
+        />
+      )}
+
+      <Textarea
+        placeholder={isStdio ? 'Environment, KEY=VALUE per line' : 'Headers, KEY=VALUE per line'}
+        value={form.pairs}
+        onChange={(e) => update({ pairs: e.target.value })}
+      />
+      {isStdio && (
+        <p className="text-xs text-tertiary-foreground">
+          Use <code className="code">{'${secret:NAME}'}</code> to pass a secret, e.g.{' '}
+          <code className="code">{'GITHUB_TOKEN=${secret:GITHUB_TOKEN}'}</code>. Secrets are only
+          read when the server starts and are never saved with its config.
+        </p>
+      )}
+      {isStdio && (
+        <>
+          <Input
+            placeholder="Variables to inherit from Srcbook's environment, e.g. NODE_ENV LANG"
+            value={form.inheritEnv}
+            onChange={(e) => update({ inheritEnv: e.target.value })}
+          />
+          <p className="text-xs text-tertiary-foreground">
+            Apart from these and a few basics such as <code className="code">PATH</code>, the server
+            doesn&apos;t see Srcbook&apos;s environment.
+          </p>
+        </>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="secondary" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button disabled={!valid} onClick={onSave}>
+          {isNew ? 'Add' : 'Save'}
+        </Button>
+      </div>
+    </div>
+  );
+}
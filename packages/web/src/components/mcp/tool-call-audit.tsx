@@ -0,0 +1,212 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { ChevronDown, ChevronRight, RotateCw } from 'lucide-react';
+import { Button } from '@srcbook/components/src/components/ui/button';
+import { Input } from '@srcbook/components/src/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@srcbook/components/src/components/ui/select';
+import {
+  loadMcpToolCalls,
+  type McpToolCallAuditEntryType,
+  type McpToolCallStatusType,
+} from '@/clients/http/mcp';
+
+const PAGE_SIZE = 25;
+
+const STATUS_CLASS_NAMES: Record<McpToolCallStatusType, string> = {
+  completed: 'text-sb-green-80',
+  failed: 'text-sb-red-80',
+  cancelled: 'text-tertiary-foreground',
+};
+
+type Filters = {
+  serverName: string;
+  toolName: string;
+  status: McpToolCallStatusType | 'all';
+};
+
+/**
+ * Every MCP tool call that has been made, newest first, with filters and
+ * paging. Expanding a call shows its arguments and what it returned.
+ */
+export default function McpToolCallAudit() {
+  const [filters, setFilters] = useState<Filters>({ serverName: '', toolName: '', status: 'all' });
+  const [offset, setOffset] = useState(0);
+  const [calls, setCalls] = useState<McpToolCallAuditEntryType[]>([]);
+  const [total, setTotal] = useState(0);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  // Bumped to load the current page again.
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let ignore = false;
+    loadMcpToolCalls({
+      serverName: filters.serverName.trim() || undefined,
+      toolName: filters.toolName.trim() || undefined,
+      status: filters.status === 'all' ? undefined : filters.status,
+      limit: PAGE_SIZE,
+      offset,
+    })
+      .then(({ data, total }) => {
+        if (ignore) return;
+        setCalls(data);
+        setTotal(total);
+      })
+      .catch((error) => {
+        console.error(error);
+        toast.error('Failed to load MCP tool calls');
+      });
+    return () => {
+      ignore = true;
+    };
+  }, [filters, offset, version]);
+
+  function updateFilters(changes: Partial<Filters>) {
+    setFilters((filters) => ({ ...filters, ...changes }));
+    setOffset(0);
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Input
+          className="w-40"
+          placeholder="Server"
+          value={filters.serverName}
+          onChange={(e) => updateFilters({ serverName: e.target.value })}
+        />
+        <Input
+          className="w-40"
+          placeholder="Tool"
+          value={filters.toolName}
+          onChange={(e) => updateFilters({ toolName: e.target.value })}
+        />
+        <Select
+          value={filters.status}
+          onValueChange={(status) => updateFilters({ status: status as Filters['status'] })}
+        >
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            <SelectItem value="completed">Completed</SelectItem>
+            <SelectItem value="failed">Failed</SelectItem>
+            <SelectItem value="cancelled">Cancelled</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button
+          variant="icon"
+          size="icon"
+          title="Refresh"
+          onClick={() => setVersion((version) => version + 1)}
+        >
+          <RotateCw size={16} />
+        </Button>
+      </div>
+
+      {calls.length === 0 ? (
+        <p className="text-sm text-tertiary-foreground">No tool calls recorded.</p>
+      ) : (
+        <table className="w-full border-collapse text-xs">
+          <tbody>
+            {calls.map((call) => (
+              <AuditRow
+                key={call.id}
+                call={call}
+                expanded={expanded === call.id}
+                onToggle={() => setExpanded(expanded === call.id ? null : call.id)}
+              />
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {total > 0 && (
+        <div className="flex items-center justify-between text-xs text-tertiary-foreground">
+          <span>
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </span>
+          <div className="flex gap-2">
+            <Button
+              variant="secondary"
+              disabled={offset === 0}
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            >
+              Newer
+            </Button>
+            <Button
+              variant="secondary"
+              disabled={offset + PAGE_SIZE >= total}
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+            >
+              Older
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AuditRow({
+  call,
+  expanded,
+  onToggle,
+}: {
+  call: McpToolCallAuditEntryType;
+  expanded: boolean;
+  onToggle: () => void;
+}) {
+  const origin = [
+    call.appId && `app ${call.appId}`,
+    call.planId && `plan ${call.planId}`,
+    call.source,
+  ].filter(Boolean);
+
+  return (
+    <>
+      <tr className="border-t cursor-pointer hover:bg-muted" onClick={onToggle}>
+        <td className="py-1 pr-2 w-0">
+          {expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        </td>
+        <td className="py-1 pr-4 whitespace-nowrap font-mono text-tertiary-foreground">
+          {new Date(call.startedAt).toLocaleString()}
+        </td>
+        <td className="py-1 pr-4 font-mono">
+          {call.serverName}/{call.toolName}
+        </td>
+        <td className={`py-1 pr-4 ${STATUS_CLASS_NAMES[call.status]}`}>
+          {call.status}
+          {call.cached && <span className="text-tertiary-foreground"> (cached)</span>}
+        </td>
+        <td className="py-1 pr-4 whitespace-nowrap text-right">{call.durationMs} ms</td>
+        <td className="py-1 text-tertiary-foreground truncate max-w-48">{origin.join(', ')}</td>
+      </tr>
+      {expanded && (
+        <tr>
+          <td />
+          <td colSpan={5} className="pb-2 space-y-2">
+            <Detail label="Arguments" value={JSON.stringify(call.args, null, 2)} />
+            {call.resultSummary && <Detail label="Result" value={call.resultSummary} />}
+            {call.error && <Detail label="Error" value={call.error} />}
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+function Detail({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <p className="font-medium">{label}</p>
+      <pre className="font-mono whitespace-pre-wrap break-all bg-muted rounded-sm p-2">{value}</pre>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import * as React from 'react';
+import { Clock, LoaderCircle, X } from 'lucide-react';
+import type { McpToolCallProgressType, McpToolCallType } from '@srcbook/shared';
+import { Button } from '@srcbook/components/src/components/ui/button';
+import { McpToolCallsChannel } from '@/clients/websocket';
+
+/**
+ * Lists the MCP tool calls that are currently running, with their progress
+ * and a button to cancel each one. Renders nothing while no calls are running.
+ */
+export function ActiveToolCalls() {
+  const [channel] = React.useState(() => McpToolCallsChannel.create());
+  const [calls, setCalls] = React.useState<McpToolCallType[]>([]);
+
+  React.useEffect(() => {
+    channel.subscribe();
+
+    const onStarted = ({ call }: { call: McpToolCallType }) =>
+      setCalls((calls) => (calls.some((c) => c.callId === call.callId) ? calls : [...calls, call]));
+    const onProgress = ({
+      callId,
+      progress,
+    }: {
+      callId: string;
+      progress: McpToolCallProgressType;
+    }) => setCalls((calls) => calls.map((c) => (c.callId === callId ? { ...c, progress } : c)));
+    const onQueued = ({ callId, position }: { callId: string; position?: number }) =>
+      setCalls((calls) =>
+        calls.map((c) => (c.callId === callId ? { ...c, queuePosition: position } : c)),
+      );
+    const onFinished = ({ callId }: { callId: string }) =>
+      setCalls((calls) => calls.filter((c) => c.callId !== callId));
+
+    channel.on('call:started', onStarted);
+    channel.on('call:progress', onProgress);
+    channel.on('call:queued', onQueued);
+    channel.on('call:finished', onFinished);
+
+    return () => {
+      channel.off('call:started', onStarted);
+      channel.off('call:progress', onProgress);
+      channel.off('call:queued', onQueued);
+      channel.off('call:finished', onFinished);
+      channel.unsubscribe();
+    };
+  }, [channel]);
+
+  if (calls.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-lg border bg-background p-2 space-y-2 text-sm">
+      {calls.map((call) => (
+        <ToolCall
+          key={call.callId}
+          call={call}
+          onCancel={() => channel.push('call:cancel', { callId: call.callId })}
+        />
+      ))}
+    </div>
+  );
+}
+
+function ToolCall({ call, onCancel }: { call: McpToolCallType; onCancel: () => void }) {
+  const { progress, queuePosition } = call;
+  const percent =
+    progress?.total !== undefined && progress.total > 0
+      ? Math.min(100, Math.round((progress.progress / progress.total) * 100))
+      : null;
+
+  return (
+    <div className="flex items-center gap-2">
+      {queuePosition === undefined ? (
+        <LoaderCircle size={14} className="shrink-0 animate-spin text-tertiary-foreground" />
+      ) : (
+        <Clock size={14} className="shrink-0 text-tertiary-foreground" />
+      )}
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex items-baseline justify-between gap-2">
+          <p className="truncate">
+            <span className="font-medium">{call.toolName}</span>
+            <span className="text-tertiary-foreground"> on {call.serverName}</span>
+          </p>
+          {queuePosition !== undefined ? (
+            <span className="shrink-0 text-xs text-tertiary-foreground">
+              Queued #{queuePosition}
+            </span>
+          ) : (
+            percent !== null && <span className="text-xs text-tertiary-foreground">{percent}%</span>
+          )}
+        </div>
+        {percent !== null && (
+          <div className="h-1 rounded-full bg-muted overflow-hidden">
+            <div className="h-full bg-foreground transition-all" style={{ width: `${percent}%` }} />
+          </div>
+        )}
+        {progress?.message && (
+          <p className="truncate text-xs text-tertiary-foreground">{progress.message}</p>
+        )}
+      </div>
+      <Button
+        variant="icon"
+        size="icon"
+        className="h-7 w-7 shrink-0"
+        onClick={onCancel}
+        aria-label={`Cancel ${call.toolName}`}
+      >
+        <X size={14} />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,361 @@
+import * as React from 'react';
+import { Loader2 } from 'lucide-react';
+import { randomid, type McpToolCallResponseType } from '@srcbook/shared';
+import { Button } from '@srcbook/components/src/components/ui/button';
+import { Input } from '@srcbook/components/src/components/ui/input';
+import { Switch } from '@srcbook/components/src/components/ui/switch';
+import { Textarea } from '@srcbook/components/src/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@srcbook/components/src/components/ui/select';
+import { cn } from '@/lib/utils';
+import { McpToolChannel } from '@/clients/websocket';
+import type { McpToolType } from '@/clients/http/mcp';
+import { CompletionInput } from './completion-input';
+
+// The parts of a property's JSON Schema the form is built from.
+type PropertySchema = {
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  enum?: unknown[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+};
+
+type InputSchema = {
+  properties?: Record<string, PropertySchema>;
+  required?: string[];
+};
+
+type FieldKind = 'string' | 'number' | 'integer' | 'boolean' | 'enum' | 'json';
+
+type Outcome =
+  | { status: 'running' }
+  | { status: 'completed'; result: McpToolCallResponseType }
+  | { status: 'failed'; error: string };
+
+function fieldKind(schema: PropertySchema): FieldKind {
+  if (schema.enum) return 'enum';
+  switch (schema.type) {
+    case 'string':
+    case 'number':
+    case 'integer':
+    case 'boolean':
+      return schema.type;
+    default:
+      // Objects, arrays, unions and untyped values are entered as JSON.
+      return 'json';
+  }
+}
+
+function initialValue(schema: PropertySchema): string | boolean | undefined {
+  if (schema.default === undefined) return undefined;
+  const kind = fieldKind(schema);
+  if (kind === 'boolean') return schema.default === true;
+  if (kind === 'json') return JSON.stringify(schema.default, null, 2);
+  return String(schema.default);
+}
+
+/**
+ * Try out an MCP tool by hand: a form generated from the tool's input schema,
+ * run through the tool executor, with what the tool returned shown below.
+ * The MCP server checks the arguments against the schema, and what it
+ * objects to is shown like any other error.
+ */
+export function ToolPlayground({ tool }: { tool: McpToolType }) {
+  const [channel] = React.useState(() => McpToolChannel.create(randomid()));
+  const [values, setValues] = React.useState<Record<string, string | boolean | undefined>>(() =>
+    Object.fromEntries(
+      Object.entries((tool.inputSchema as InputSchema).properties ?? {}).map(([name, schema]) => [
+        name,
+        initialValue(schema),
+      ]),
+    ),
+  );
+  const [invalidJson, setInvalidJson] = React.useState<string[]>([]);
+  const [outcome, setOutcome] = React.useState<Outcome | null>(null);
+
+  const { properties = {}, required = [] } = tool.inputSchema as InputSchema;
+
+  React.useEffect(() => {
+    channel.subscribe();
+
+    const onResult = ({ result }: { result: McpToolCallResponseType }) =>
+      setOutcome({ status: 'completed', result });
+    const onError = ({ error }: { error: string }) => setOutcome({ status: 'failed', error });
+
+    channel.on('tool:result', onResult);
+    channel.on('tool:error', onError);
+
+    return () => {
+      channel.off('tool:result', onResult);
+      channel.off('tool:error', onError);
+      channel.unsubscribe();
+    };
+  }, [channel]);
+
+  function run() {
+    const params: Record<string, unknown> = {};
+    const unparsable: string[] = [];
+
+    for (const [name, schema] of Object.entries(properties)) {
+      const value = values[name];
+      if (value === undefined || value === '') continue;
+
+      switch (fieldKind(schema)) {
+        case 'boolean':
+          params[name] = value;
+          break;
+        case 'number':
+        case 'integer':
+          params[name] = Number(value);
+          break;
+        case 'enum':
+          // Options may be numbers, so send the one whose text was picked.
+          params[name] = schema.enum!.find((option) => String(option) === value);
+          break;
+        case 'json':
+          try {
+            params[name] = JSON.parse(String(value));
+          } catch {
+            unparsable.push(name);
+          }
+          break;
+        default:
+          params[name] = value;
+      }
+    }
+
+    setInvalidJson(unparsable);
+    if (unparsable.length > 0) return;
+
+    setOutcome({ status: 'running' });
+    channel.push('tool:execute', { serverName: tool.serverName, toolName: tool.name, params });
+  }
+
+  return (
+    <div className="space-y-6 text-sm">
+      <div>
+        <p className="font-mono font-medium">{tool.id}</p>
+        {tool.description && (
+          <p className="text-tertiary-foreground whitespace-pre-wrap">{tool.description}</p>
+        )}
+      </div>
+
+      <form
+        className="space-y-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          run();
+        }}
+      >
+        {Object.keys(properties).length === 0 && (
+          <p className="text-tertiary-foreground">This tool takes no arguments.</p>
+        )}
+        {Object.entries(properties).map(([name, schema]) => (
+          <ToolArgumentField
+            key={name}
+            tool={tool}
+            name={name}
+            schema={schema}
+            required={required.includes(name)}
+            invalid={invalidJson.includes(name)}
+            value={values[name]}
+            values={values}
+            onChange={(value) => setValues({ ...values, [name]: value })}
+          />
+        ))}
+        <div className="flex justify-end">
+          <Button type="submit" disabled={outcome?.status === 'running'}>
+            {outcome?.status === 'running' && <Loader2 size={16} className="mr-1.5 animate-spin" />}
+            Run
+          </Button>
+        </div>
+      </form>
+
+      {outcome && <ToolOutcome outcome={outcome} />}
+    </div>
+  );
+}
+
+function ToolArgumentField({
+  tool,
+  name,
+  schema,
+  required,
+  invalid,
+  value,
+  values,
+  onChange,
+}: {
+  tool: McpToolType;
+  name: string;
+  schema: PropertySchema;
+  required: boolean;
+  invalid: boolean;
+  value: string | boolean | undefined;
+  // The arguments filled in so far, which the server may base suggestions on.
+  values: Record<string, string | boolean | undefined>;
+  onChange: (value: string | boolean) => void;
+}) {
+  const id = `mcp-tool-argument-${name}`;
+  const kind = fieldKind(schema);
+  const label = (
+    <label htmlFor={id} className="font-medium">
+      {schema.title ?? name}
+      {required && <span className="text-tertiary-foreground"> (required)</span>}
+    </label>
+  );
+  const description = schema.description && (
+    <p className="text-xs text-tertiary-foreground">{schema.description}</p>
+  );
+
+  if (kind === 'boolean') {
+    return (
+      <div className="flex items-start gap-2">
+        <Switch id={id} checked={value === true} onCheckedChange={onChange} />
+        <div>
+          {label}
+          {description}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {label}
+      {kind === 'enum' ? (
+        <Select value={value === undefined ? undefined : String(value)} onValueChange={onChange}>
+          <SelectTrigger id={id}>
+            <SelectValue placeholder="Choose…" />
+          </SelectTrigger>
+          <SelectContent>
+            {schema.enum!.map((option) => (
+              <SelectItem key={String(option)} value={String(option)}>
+                {String(option)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : kind === 'json' ? (
+        <Textarea
+          id={id}
+          className={cn('font-mono', invalid && 'border-sb-red-80')}
+          placeholder="JSON"
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      ) : kind === 'string' ? (
+        <CompletionInput
+          id={id}
+          serverName={tool.serverName}
+          completionRef={{ type: 'ref/tool', name: tool.name }}
+          argument={name}
+          context={Object.fromEntries(
+            Object.entries(values).filter(
+              (entry): entry is [string, string] => typeof entry[1] === 'string',
+            ),
+          )}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      ) : (
+        <Input
+          id={id}
+          type="number"
+          step={kind === 'integer' ? 1 : 'any'}
+          min={schema.minimum}
+          max={schema.maximum}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      )}
+      {invalid && <p className="text-xs text-sb-red-80">Not valid JSON</p>}
+      {description}
+    </div>
+  );
+}
+
+function ToolOutcome({ outcome }: { outcome: Outcome }) {
+  if (outcome.status === 'running') {
+    return <p className="text-tertiary-foreground">Running…</p>;
+  }
+
+  if (outcome.status === 'failed') {
+    return (
+      <div className="rounded-sm bg-sb-red-20 px-3 py-2 text-sb-red-80">
+        <p className="font-medium whitespace-pre-wrap">{outcome.error}</p>
+      </div>
+    );
+  }
+
+  const { result } = outcome;
+  return (
+    <div className="space-y-2">
+      <p className={cn('font-medium', result.isError && 'text-sb-red-80')}>
+        {result.isError ? 'The tool reported an error' : 'Result'}
+      </p>
+      {result.content.length === 0 && <p className="text-tertiary-foreground">No content.</p>}
+      {result.content.map((content, index) => (
+        <ToolResultContent key={index} content={content} />
+      ))}
+    </div>
+  );
+}
+
+function ToolResultContent({ content }: { content: McpToolCallResponseType['content'][number] }) {
+  switch (content.type) {
+    case 'text':
+      return (
+        <pre className="rounded-sm bg-muted px-3 py-2 whitespace-pre-wrap break-words">
+          {content.text}
+        </pre>
+      );
+    case 'image':
+      return (
+        <img
+          className="max-h-96 rounded-sm border"
+          src={`data:${content.mimeType};base64,${content.data}`}
+          alt=""
+        />
+      );
+    case 'audio':
+      // Tools don't send captions along with audio.
+      // eslint-disable-next-line jsx-a11y/media-has-caption
+      return <audio controls src={`data:${content.mimeType};base64,${content.data}`} />;
+    case 'resource': {
+      const { uri, mimeType, text, blob } = content.resource;
+      return (
+        <div className="rounded-sm border">
+          <p className="border-b px-3 py-1.5 font-mono text-xs text-tertiary-foreground">
+            {uri}
+            {mimeType && ` (${mimeType})`}
+          </p>
+          {text !== undefined ? (
+            <pre className="px-3 py-2 whitespace-pre-wrap break-words">{text}</pre>
+          ) : blob !== undefined && mimeType?.startsWith('image/') ? (
+            <img className="max-h-96" src={`data:${mimeType};base64,${blob}`} alt={uri} />
+          ) : (
+            <p className="px-3 py-2 text-tertiary-foreground">Binary content</p>
+          )}
+        </div>
+      );
+    }
+    case 'resource_link':
+      return (
+        <p>
+          Link to <span className="font-mono">{content.uri}</span>
+          {content.description && (
+            <span className="text-tertiary-foreground"> ({content.description})</span>
+          )}
+        </p>
+      );
+  }
+}
@@ -0,0 +1,144 @@
+import * as React from 'react';
+import type { McpResourceContentsType } from '@srcbook/shared';
+import { McpResourcesChannel } from '@/clients/websocket';
+import { readMcpResource, type McpResourceRefType } from '@/clients/http/mcp';
+
+export type ResourceStateType = {
+  uri?: string;
+  contents?: McpResourceContentsType[];
+  error?: string;
+  // Whether the server pushes updates, i.e. whether the contents stay fresh.
+  live?: boolean;
+  updatedAt?: number;
+};
+
+export function resourceRefKey(ref: McpResourceRefType) {
+  return JSON.stringify(ref);
+}
+
+function subscriptionKey(serverName: string, uri: string) {
+  return JSON.stringify([serverName, uri]);
+}
+
+/**
+ * Keeps the contents of the given resources up to date by subscribing to them
+ * over the `mcp:resources` channel. Returns state keyed by `resourceRefKey`.
+ */
+export function useResourceContents(refs: McpResourceRefType[]) {
+  const [channel] = React.useState(() => McpResourcesChannel.create());
+  const [state, setState] = React.useState<Record<string, ResourceStateType>>({});
+
+  // Ref key => resolved server/uri subscription, for refs we've subscribed to.
+  const subscribed = React.useRef(new Map<string, { serverName: string; uri: string }>());
+  // Ref keys currently being read, and the keys that are still wanted.
+  const pending = React.useRef(new Set<string>());
+  const wanted = React.useRef(new Set<string>());
+
+  React.useEffect(() => {
+    const subscriptions = subscribed.current;
+    channel.subscribe();
+
+    function refKeysFor(serverName: string, uri: string) {
+      const key = subscriptionKey(serverName, uri);
+      return Array.from(subscriptions.entries())
+        .filter(([, sub]) => subscriptionKey(sub.serverName, sub.uri) === key)
+        .map(([refKey]) => refKey);
+    }
+
+    function update(serverName: string, uri: string, attrs: ResourceStateType) {
+      setState((state) => {
+        const next = { ...state };
+        for (const refKey of refKeysFor(serverName, uri)) {
+          next[refKey] = { ...next[refKey], ...attrs };
+        }
+        return next;
+      });
+    }
+
+    const onSubscribed = ({
+      serverName,
+      uri,
+      live,
+    }: {
+      serverName: string;
+      uri: string;
+      live: boolean;
+    }) => update(serverName, uri, { live });
+    const onUpdated = ({
+      serverName,
+      uri,
+      contents,
+    }: {
+      serverName: string;
+      uri: string;
+      contents: McpResourceContentsType[];
+    }) => update(serverName, uri, { contents, error: undefined, updatedAt: Date.now() });
+    const onError = ({
+      serverName,
+      uri,
+      error,
+    }: {
+      serverName: string;
+      uri: string;
+      error: string;
+    }) => update(serverName, uri, { error });
+
+    channel.on('resource:subscribed', onSubscribed);
+    channel.on('resource:updated', onUpdated);
+    channel.on('resource:error', onError);
+
+    return () => {
+      channel.off('resource:subscribed', onSubscribed);
+      channel.off('resource:updated', onUpdated);
+      channel.off('resource:error', onError);
+      // Leaving the topic releases all of this client's subscriptions on the server.
+      channel.unsubscribe();
+      subscriptions.clear();
+    };
+  }, [channel]);
+
+  React.useEffect(() => {
+    const keys = new Set(refs.map(resourceRefKey));
+    wanted.current = keys;
+
+    for (const [refKey, { serverName, uri }] of subscribed.current.entries()) {
+      if (!keys.has(refKey)) {
+        subscribed.current.delete(refKey);
+        const stillUsed = Array.from(subscribed.current.values()).some(
+          (sub) => sub.serverName === serverName && sub.uri === uri,
+        );
+        if (!stillUsed) {
+          channel.push('resource:unsubscribe', { serverName, uri });
+        }
+      }
+    }
+
+    for (const ref of refs) {
+      const refKey = resourceRefKey(ref);
+      if (subscribed.current.has(refKey) || pending.current.has(refKey)) continue;
+      pending.current.add(refKey);
+
+      // Read through HTTP first: it resolves templates to a concrete uri, which
+      // is what subscriptions and update notifications are keyed by.
+      readMcpResource(ref)
+        .then(({ data }) => {
+          if (!wanted.current.has(refKey)) return;
+          subscribed.current.set(refKey, { serverName: data.serverName, uri: data.uri });
+          setState((state) => ({
+            ...state,
+            [refKey]: { uri: data.uri, contents: data.contents, updatedAt: Date.now() },
+          }));
+          channel.push('resource:subscribe', { serverName: data.serverName, uri: data.uri });
+        })
+        .catch((error) => {
+          setState((state) => ({
+            ...state,
+            [refKey]: { error: error instanceof Error ? error.message : String(error) },
+          }));
+        })
+        .finally(() => pending.current.delete(refKey));
+    }
+  }, [channel, refs]);
+
+  return state;
+}
@@ -292,6 +292,14 @@ export function Navbar() {
                 Secrets
               </NavLink>
             </li>
+            <li>
+              <NavLink
+                to="/tools"
+                className="font-semibold text-tertiary-foreground visited:text-tertiary-foreground hover:text-foreground transition-colors"
+              >
+                Tools
+              </NavLink>
+            </li>
             <li>
               <NavLink
                 to="/settings"
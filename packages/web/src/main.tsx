@@ -17,6 +17,7 @@ import {
 import Session from './routes/session';
 import Settings from './routes/settings';
 import Secrets from './routes/secrets';
+import Tools from './routes/tools';
 import ErrorPage from './error';
 import posthog from 'posthog-js';
 import { PostHogProvider } from 'posthog-js/react';
@@ -108,6 +109,12 @@ const router = createBrowserRouter([
             element: <Secrets />,
             errorElement: <ErrorPage />,
           },
+          {
+            path: '/tools',
+            loader: Tools.loader,
+            element: <Tools />,
+            errorElement: <ErrorPage />,
+          },
           {
             path: '/settings',
             element: <Settings />,
@@ -15,6 +15,8 @@ import useTheme from '@srcbook/components/src/components/use-theme';
 import { Switch } from '@srcbook/components/src/components/ui/switch';
 import { Button } from '@srcbook/components/src/components/ui/button';
 import { toast } from 'sonner';
+import McpServersSettings from '@/components/mcp/servers-settings';
+import McpToolCallAudit from '@/components/mcp/tool-call-audit';
 
 function Settings() {
   const { updateConfig: updateConfigContext, defaultLanguage, subscriptionEmail } = useSettings();
@@ -89,6 +91,24 @@ function Settings() {
           <AiSettings />
         </div>
 
+        <div>
+          <h2 className="text-base font-medium">MCP Servers</h2>
+          <p className="opacity-70 text-sm pb-3">
+            Connect Model Context Protocol servers to give the AI access to their tools and
+            resources. Changes take effect immediately.
+          </p>
+          <McpServersSettings />
+        </div>
+
+        <div>
+          <h2 className="text-base font-medium">MCP Tool Calls</h2>
+          <p className="opacity-70 text-sm pb-3">
+            A record of every tool call made through an MCP server. Sensitive arguments such as
+            tokens are redacted.
+          </p>
+          <McpToolCallAudit />
+        </div>
+
         <div>
           <h2 className="text-base font-medium">Get product updates</h2>
           <div>
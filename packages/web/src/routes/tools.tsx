@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { useLoaderData, useRevalidator } from 'react-router-dom';
+import { RotateCw } from 'lucide-react';
+import { Button } from '@srcbook/components/src/components/ui/button';
+import { Input } from '@srcbook/components/src/components/ui/input';
+import { cn } from '@/lib/utils';
+import { loadMcpTools, type McpToolType } from '@/clients/http/mcp';
+import { ToolPlayground } from '@/components/mcp/tool-playground';
+
+async function loader() {
+  const { data } = await loadMcpTools();
+  return { tools: data };
+}
+
+function Tools() {
+  const { tools } = useLoaderData() as { tools: McpToolType[] };
+  const revalidator = useRevalidator();
+  const [filter, setFilter] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const query = filter.trim().toLowerCase();
+  const visible = tools.filter((tool) => tool.id.toLowerCase().includes(query));
+  const selected = tools.find((tool) => tool.id === selectedId) ?? visible[0];
+
+  return (
+    <>
+      <h4 className="h4 mx-auto mb-6">Tools</h4>
+
+      <p>
+        Try the tools of your connected MCP servers by hand. Each server checks the arguments
+        against its tool&apos;s input schema.
+      </p>
+
+      <div className="mt-8 flex gap-6">
+        <div className="w-64 shrink-0 space-y-2">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Filter tools"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+            />
+            <Button
+              variant="icon"
+              size="icon"
+              title="Reload tools"
+              onClick={() => revalidator.revalidate()}
+            >
+              <RotateCw size={16} />
+            </Button>
+          </div>
+          <ul className="max-h-[60vh] overflow-y-auto text-sm">
+            {visible.map((tool) => (
+              <li key={tool.id}>
+                <button
+                  className={cn(
+                    'w-full truncate rounded-sm px-2 py-1.5 text-left font-mono hover:bg-muted',
+                    tool.id === selected?.id && 'bg-muted',
+                  )}
+                  title={tool.description}
+                  onClick={() => setSelectedId(tool.id)}
+                >
+                  {tool.id}
+                </button>
+              </li>
+            ))}
+          </ul>
+          {tools.length === 0 && (
+            <p className="text-sm text-tertiary-foreground">
+              No tools. Connect MCP servers in Settings.
+            </p>
+          )}
+        </div>
+
+        <div className="min-w-0 flex-1">
+          {/* Keyed so switching tools starts with a fresh form. */}
+          {selected && <ToolPlayground key={selected.id} tool={selected} />}
+        </div>
+      </div>
+    </>
+  );
+}
+
+Tools.loader = loader;
+export default Tools;
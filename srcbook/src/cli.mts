@@ -75,6 +75,33 @@ export default function program() {
       });
     });
 
+  const mcp = program.command('mcp').description('Work with Srcbook over MCP');
+
+  mcp
+    .command('serve')
+    .description('Serve Srcbook as an MCP server, over stdio unless a port is given')
+    .option('-p, --port <port>', 'Serve over Streamable HTTP on this port instead')
+    .option(
+      '--host <host>',
+      'Interface to serve HTTP on. Other than 127.0.0.1, this needs SRCBOOK_MCP_TOKEN set',
+      '127.0.0.1',
+    )
+    .action(async ({ port, host }) => {
+      if (port) {
+        const { serveSrcbookMcpOverHttp } = await import('@srcbook/api');
+        await serveSrcbookMcpOverHttp(Number(port), {
+          host,
+          token: process.env.SRCBOOK_MCP_TOKEN,
+        });
+        console.log(`Srcbook MCP server running at http://${host}:${port}/mcp`);
+      } else {
+        // stdout carries the protocol, so everything else goes to stderr.
+        console.log = console.info = console.debug = console.error;
+        const { serveSrcbookMcpOverStdio } = await import('@srcbook/api');
+        await serveSrcbookMcpOverStdio();
+      }
+    });
+
   program.parse();
 }
 